@@ -0,0 +1,54 @@
+import express, { ErrorRequestHandler } from 'express';
+import { SqliteError } from 'better-sqlite3';
+import { Store } from './store';
+import { HttpError } from './errors';
+import { authenticate } from './auth';
+import { createAdminRoutes } from './routes/admin';
+import { createAnswerRoutes } from './routes/answers';
+import { createAuthRoutes } from './routes/auth';
+import { createCommentRoutes } from './routes/comments';
+import { createFlagRoutes } from './routes/flags';
+import { createNotificationRoutes } from './routes/notifications';
+import { createQuestionRoutes } from './routes/questions';
+import { createTagRoutes } from './routes/tags';
+import { createUploadRoutes } from './routes/uploads';
+import { createUserRoutes } from './routes/users';
+import { createVoteRoutes } from './routes/votes';
+
+const errorHandler: ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) return next(error);
+
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+  } else if (error.type === 'entity.too.large') {
+    res.status(413).json({ error: 'That is too large to send' });
+  } else if (error instanceof SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+    res.status(409).json({ error: 'A record with those details already exists' });
+  } else {
+    console.error(error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const createApp = (store: Store) => {
+  const app = express();
+  app.use(express.json());
+
+  const api = express.Router();
+  api.use(authenticate(store));
+  api.use('/auth', createAuthRoutes(store));
+  api.use('/questions', createQuestionRoutes(store));
+  api.use('/answers', createAnswerRoutes(store));
+  api.use('/users', createUserRoutes(store));
+  api.use('/comments', createCommentRoutes(store));
+  api.use('/votes', createVoteRoutes(store));
+  api.use('/flags', createFlagRoutes(store));
+  api.use('/notifications', createNotificationRoutes(store));
+  api.use('/tags', createTagRoutes(store));
+  api.use('/admin', createAdminRoutes(store));
+  api.use('/uploads', createUploadRoutes(store));
+
+  app.use('/api', api);
+  app.use(errorHandler);
+  return app;
+};
@@ -0,0 +1,32 @@
+import { RequestHandler, Response } from 'express';
+import { User } from '../src/types';
+import { hashToken, isExpired } from '../src/data/auth';
+import { Store } from './store';
+import { unauthorized } from './errors';
+
+// Express 4 ignores rejected promises, so forward them to the error handler
+export const asyncHandler = (handler: RequestHandler): RequestHandler => (req, res, next) => {
+  Promise.resolve(handler(req, res, next)).catch(next);
+};
+
+// Attaches the user behind a valid bearer token to res.locals; anonymous requests pass through
+export const authenticate = (store: Store): RequestHandler => asyncHandler(async (req, res, next) => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    const session = store.sessions.findByAccessHash(await hashToken(header.slice(7)));
+    if (!session || isExpired(session.accessExpiresAt)) {
+      throw unauthorized('Session expired');
+    }
+    res.locals.user = store.users.get(session.userId);
+    res.locals.sessionId = session.id;
+  }
+  next();
+});
+
+export const currentUser = (res: Response): User | null => res.locals.user ?? null;
+
+export const requireUser = (res: Response): User => {
+  const user = currentUser(res);
+  if (!user) throw unauthorized();
+  return user;
+};
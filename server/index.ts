@@ -0,0 +1,16 @@
+import { openDatabase } from './db';
+import { createStore } from './store';
+import { seedDatabase } from './seed';
+import { createApp } from './app';
+
+const port = Number(process.env.PORT) || 3001;
+const dbFile = process.env.STACKIT_DB || 'server/data/stackit.db';
+
+const store = createStore(openDatabase(dbFile));
+if (seedDatabase(store)) {
+  console.log('Seeded database with mock data');
+}
+
+createApp(store).listen(port, () => {
+  console.log(`StackIt API listening on http://localhost:${port}/api`);
+});
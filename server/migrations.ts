@@ -0,0 +1,386 @@
+import type { Database } from 'better-sqlite3';
+
+interface Migration {
+  id: number;
+  name: string;
+  sql: string;
+}
+
+// Append new migrations to the end; never edit one that has shipped
+export const migrations: Migration[] = [
+  {
+    id: 1,
+    name: 'initial_schema',
+    sql: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('guest', 'user', 'admin')),
+        avatar TEXT,
+        join_date TEXT NOT NULL,
+        reputation INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        color TEXT NOT NULL
+      );
+
+      CREATE TABLE questions (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        author_id TEXT NOT NULL REFERENCES users (id),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        views INTEGER NOT NULL DEFAULT 0,
+        votes INTEGER NOT NULL DEFAULT 0,
+        answer_count INTEGER NOT NULL DEFAULT 0,
+        accepted_answer_id TEXT
+      );
+
+      CREATE TABLE question_tags (
+        question_id TEXT NOT NULL REFERENCES questions (id) ON DELETE CASCADE,
+        tag_name TEXT NOT NULL REFERENCES tags (name),
+        position INTEGER NOT NULL,
+        PRIMARY KEY (question_id, tag_name)
+      );
+
+      CREATE TABLE answers (
+        id TEXT PRIMARY KEY,
+        question_id TEXT NOT NULL REFERENCES questions (id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        author_id TEXT NOT NULL REFERENCES users (id),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        votes INTEGER NOT NULL DEFAULT 0,
+        is_accepted INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE votes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        target_id TEXT NOT NULL,
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+        type TEXT NOT NULL CHECK (type IN ('up', 'down')),
+        UNIQUE (user_id, target_id)
+      );
+
+      CREATE TABLE notifications (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        type TEXT NOT NULL CHECK (type IN ('answer', 'comment', 'mention', 'accept')),
+        message TEXT NOT NULL,
+        related_id TEXT NOT NULL,
+        read INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_answers_question ON answers (question_id);
+      CREATE INDEX idx_question_tags_tag ON question_tags (tag_name);
+      CREATE INDEX idx_notifications_user ON notifications (user_id, created_at);
+    `
+  },
+  {
+    id: 2,
+    name: 'accounts_and_sessions',
+    sql: `
+      ALTER TABLE users ADD COLUMN password_hash TEXT;
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        access_token_hash TEXT NOT NULL UNIQUE,
+        refresh_token_hash TEXT NOT NULL UNIQUE,
+        access_expires_at TEXT NOT NULL,
+        refresh_expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_sessions_user ON sessions (user_id);
+    `
+  },
+  {
+    id: 3,
+    name: 'comments',
+    sql: `
+      CREATE TABLE comments (
+        id TEXT PRIMARY KEY,
+        question_id TEXT NOT NULL REFERENCES questions (id) ON DELETE CASCADE,
+        target_id TEXT NOT NULL,
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+        parent_id TEXT REFERENCES comments (id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        author_id TEXT NOT NULL REFERENCES users (id),
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        votes INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE INDEX idx_comments_question ON comments (question_id, created_at);
+
+      -- SQLite can't alter a CHECK constraint, so votes is rebuilt to accept comment votes
+      CREATE TABLE votes_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        target_id TEXT NOT NULL,
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer', 'comment')),
+        type TEXT NOT NULL CHECK (type IN ('up', 'down')),
+        UNIQUE (user_id, target_id)
+      );
+      INSERT INTO votes_new (id, user_id, target_id, target_type, type)
+        SELECT id, user_id, target_id, target_type, type FROM votes;
+      DROP TABLE votes;
+      ALTER TABLE votes_new RENAME TO votes;
+    `
+  },
+  {
+    id: 4,
+    name: 'tag_synonyms',
+    sql: `
+      CREATE TABLE tag_synonyms (
+        synonym TEXT PRIMARY KEY,
+        tag_name TEXT NOT NULL REFERENCES tags (name) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_tag_synonyms_tag ON tag_synonyms (tag_name);
+    `
+  },
+  {
+    id: 5,
+    name: 'reputation_ledger',
+    sql: `
+      CREATE TABLE reputation_events (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        post_id TEXT NOT NULL,
+        question_id TEXT NOT NULL,
+        source_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        reverses TEXT REFERENCES reputation_events (id)
+      );
+
+      CREATE INDEX idx_reputation_events_user ON reputation_events (user_id, created_at);
+      CREATE INDEX idx_reputation_events_source ON reputation_events (source_id);
+      CREATE INDEX idx_reputation_events_post ON reputation_events (post_id);
+
+      -- Reputation from before the ledger becomes each user's starting balance
+      INSERT INTO reputation_events (id, user_id, reason, amount, post_id, question_id, source_id, created_at)
+      SELECT 'r' || id, id, 'starting_balance', reputation, '', '', id, strftime('%Y-%m-%dT%H:%M:%fZ', join_date)
+      FROM users WHERE reputation <> 0;
+
+      ALTER TABLE questions ADD COLUMN bounty INTEGER;
+    `
+  },
+  {
+    id: 6,
+    name: 'badges',
+    sql: `
+      CREATE TABLE badges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        badge_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL,
+        tier TEXT NOT NULL CHECK (tier IN ('gold', 'silver', 'bronze')),
+        tag TEXT,
+        related_id TEXT,
+        awarded_at TEXT NOT NULL,
+        UNIQUE (user_id, badge_id)
+      );
+
+      ALTER TABLE users ADD COLUMN gold_badges INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN silver_badges INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN bronze_badges INTEGER NOT NULL DEFAULT 0;
+
+      -- Rebuilt so badge awards can be announced as notifications
+      CREATE TABLE notifications_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        type TEXT NOT NULL CHECK (type IN ('answer', 'comment', 'mention', 'accept', 'badge')),
+        message TEXT NOT NULL,
+        related_id TEXT NOT NULL,
+        read INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+      INSERT INTO notifications_new SELECT id, user_id, type, message, related_id, read, created_at FROM notifications;
+      DROP TABLE notifications;
+      ALTER TABLE notifications_new RENAME TO notifications;
+      CREATE INDEX idx_notifications_user ON notifications (user_id, created_at);
+    `
+  },
+  {
+    id: 7,
+    name: 'moderation',
+    sql: `
+      ALTER TABLE questions ADD COLUMN locked_at TEXT;
+      ALTER TABLE questions ADD COLUMN deleted_at TEXT;
+      ALTER TABLE answers ADD COLUMN deleted_at TEXT;
+      ALTER TABLE users ADD COLUMN suspended_until TEXT;
+    `
+  },
+  {
+    id: 8,
+    name: 'flags',
+    sql: `
+      CREATE TABLE flags (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        target_id TEXT NOT NULL,
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer', 'comment')),
+        question_id TEXT NOT NULL REFERENCES questions (id),
+        reason TEXT NOT NULL CHECK (reason IN ('spam', 'rude', 'low_quality', 'needs_attention')),
+        text TEXT,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'helpful', 'declined')),
+        created_at TEXT NOT NULL,
+        reviewed_by TEXT REFERENCES users (id),
+        reviewed_at TEXT,
+        UNIQUE (user_id, target_id)
+      );
+      CREATE INDEX idx_flags_target ON flags (target_id, status);
+
+      -- Comments are hidden, not removed, while spam flags are reviewed
+      ALTER TABLE comments ADD COLUMN deleted_at TEXT;
+    `
+  },
+  {
+    id: 9,
+    name: 'revisions',
+    sql: `
+      CREATE TABLE revisions (
+        id TEXT PRIMARY KEY,
+        post_id TEXT NOT NULL,
+        post_type TEXT NOT NULL CHECK (post_type IN ('question', 'answer')),
+        number INTEGER NOT NULL,
+        title TEXT,
+        -- A JSON array, for question revisions
+        tags TEXT,
+        body TEXT NOT NULL,
+        author_id TEXT NOT NULL REFERENCES users (id),
+        summary TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (post_id, number)
+      );
+    `
+  },
+  {
+    id: 10,
+    name: 'notification_settings',
+    sql: `
+      ALTER TABLE notifications ADD COLUMN question_id TEXT;
+      UPDATE notifications SET question_id = COALESCE(
+        (SELECT question_id FROM answers WHERE answers.id = notifications.related_id),
+        (SELECT question_id FROM comments WHERE comments.id = notifications.related_id),
+        (SELECT id FROM questions WHERE questions.id = notifications.related_id)
+      )
+      WHERE type != 'badge';
+
+      CREATE TABLE notification_settings (
+        user_id TEXT PRIMARY KEY REFERENCES users (id),
+        -- JSON arrays
+        muted_types TEXT NOT NULL,
+        muted_question_ids TEXT NOT NULL
+      );
+    `
+  },
+  {
+    id: 11,
+    name: 'uploads',
+    sql: `
+      CREATE TABLE uploads (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id),
+        content_type TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        -- Scaled down to fit MAX_IMAGE_DIMENSION
+        data BLOB NOT NULL,
+        thumbnail BLOB NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    id: 12,
+    name: 'question_views',
+    sql: `
+      -- The last counted view of each question by each viewer; rows older than VIEW_WINDOW are pruned
+      CREATE TABLE question_views (
+        question_id TEXT NOT NULL REFERENCES questions (id),
+        viewer TEXT NOT NULL,
+        viewed_at TEXT NOT NULL,
+        PRIMARY KEY (question_id, viewer)
+      );
+      CREATE INDEX idx_question_views_viewed_at ON question_views (viewed_at);
+    `
+  },
+  {
+    id: 13,
+    name: 'search_version',
+    sql: `
+      -- Bumped by every write to the text the search index holds, so a cached index knows it's stale
+      CREATE TABLE search_version (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        version INTEGER NOT NULL
+      );
+      INSERT INTO search_version (id, version) VALUES (1, 0);
+      CREATE TRIGGER questions_text_inserted AFTER INSERT ON questions BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER questions_text_updated AFTER UPDATE OF title, description, deleted_at ON questions BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER questions_text_deleted AFTER DELETE ON questions BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER question_tags_inserted AFTER INSERT ON question_tags BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER question_tags_updated AFTER UPDATE ON question_tags BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER question_tags_deleted AFTER DELETE ON question_tags BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER answers_text_inserted AFTER INSERT ON answers BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER answers_text_updated AFTER UPDATE OF content, deleted_at ON answers BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+      CREATE TRIGGER answers_text_deleted AFTER DELETE ON answers BEGIN
+        UPDATE search_version SET version = version + 1;
+      END;
+    `
+  }
+];
+
+export const runMigrations = (db: Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db.prepare('SELECT id FROM schema_migrations').all().map(row => (row as { id: number }).id)
+  );
+  const record = db.prepare('INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)');
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    db.transaction(() => {
+      db.exec(migration.sql);
+      record.run(migration.id, migration.name, new Date().toISOString());
+    })();
+    console.log(`Applied migration ${migration.id}_${migration.name}`);
+  }
+};
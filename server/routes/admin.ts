@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { badRequest } from '../errors';
+import { requireUser } from '../auth';
+import { requireBoolean, requireOneOf, requireStringArray } from '../validation';
+import { FLAG_REVIEW_ACTIONS } from '../../src/data/flags';
+
+// The stores check the signed-in user is an admin
+export const createAdminRoutes = (store: Store) => {
+  const router = Router();
+
+  router.get('/deleted', (_req, res) => {
+    res.json(store.moderation.listDeleted(requireUser(res).id));
+  });
+
+  for (const postType of ['question', 'answer'] as const) {
+    router.delete(`/${postType}s/:id`, (req, res) => {
+      store.moderation.deletePost({ postType, postId: req.params.id, adminId: requireUser(res).id });
+      res.status(204).end();
+    });
+
+    router.post(`/${postType}s/:id/restore`, (req, res) => {
+      store.moderation.restorePost({ postType, postId: req.params.id, adminId: requireUser(res).id });
+      res.status(204).end();
+    });
+  }
+
+  router.get('/flags', (_req, res) => {
+    res.json(store.moderation.listFlagged(requireUser(res).id));
+  });
+
+  router.put('/flags/:targetType/:targetId', (req, res) => {
+    store.moderation.reviewFlags({
+      targetId: req.params.targetId,
+      targetType: requireOneOf(req.params, 'targetType', ['question', 'answer', 'comment'] as const),
+      action: requireOneOf(req.body, 'action', FLAG_REVIEW_ACTIONS),
+      adminId: requireUser(res).id
+    });
+    res.status(204).end();
+  });
+
+  router.put('/questions/:id/lock', (req, res) => {
+    res.json(store.moderation.lockQuestion({
+      questionId: req.params.id,
+      locked: requireBoolean(req.body, 'locked'),
+      adminId: requireUser(res).id
+    }));
+  });
+
+  // Body until of null lifts the suspension
+  router.put('/users/:id/suspension', (req, res) => {
+    const until = req.body.until;
+    if (until !== null && typeof until !== 'string') {
+      throw badRequest('until must be a date or null');
+    }
+    res.json(store.moderation.suspendUser({ userId: req.params.id, until, adminId: requireUser(res).id }));
+  });
+
+  router.put('/users/:id/role', (req, res) => {
+    res.json(store.moderation.setRole({
+      userId: req.params.id,
+      role: requireOneOf(req.body, 'role', ['guest', 'user', 'admin'] as const),
+      adminId: requireUser(res).id
+    }));
+  });
+
+  router.put('/tags/:name', (req, res) => {
+    res.json(store.moderation.saveTag({
+      name: req.params.name,
+      description: typeof req.body.description === 'string' ? req.body.description : undefined,
+      synonyms: requireStringArray(req.body, 'synonyms'),
+      adminId: requireUser(res).id
+    }));
+  });
+
+  router.delete('/tags/:name', (req, res) => {
+    store.moderation.removeTag(req.params.name, requireUser(res).id);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { requireUser } from '../auth';
+import { requireString } from '../validation';
+
+// Answers are listed and posted under /questions/:id/answers
+export const createAnswerRoutes = (store: Store) => {
+  const router = Router();
+
+  router.patch('/:id', (req, res) => {
+    res.json(store.answers.update({
+      id: req.params.id,
+      content: requireString(req.body, 'content'),
+      summary: typeof req.body.summary === 'string' ? req.body.summary : '',
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.get('/:id/revisions', (req, res) => {
+    res.json(store.answers.listRevisions(req.params.id));
+  });
+
+  router.post('/:id/revisions/:revisionId/rollback', (req, res) => {
+    res.json(store.answers.rollback({
+      id: req.params.id,
+      revisionId: req.params.revisionId,
+      userId: requireUser(res).id
+    }));
+  });
+
+  return router;
+};
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { createId } from '../../src/data/repository';
+import {
+  hashPassword,
+  hashToken,
+  isExpired,
+  issueSession,
+  validateRegistration,
+  verifyPassword
+} from '../../src/data/auth';
+import { NO_BADGES } from '../../src/data/badges';
+import { asyncHandler, requireUser } from '../auth';
+import { badRequest, conflict, unauthorized } from '../errors';
+import { requireString } from '../validation';
+
+export const createAuthRoutes = (store: Store) => {
+  const router = Router();
+
+  const startSession = async (userId: string) => {
+    const { session, stored } = await issueSession(userId, createId('s'));
+    store.sessions.create(stored);
+    return session;
+  };
+
+  router.post('/register', asyncHandler(async (req, res) => {
+    const input = {
+      username: requireString(req.body, 'username'),
+      email: requireString(req.body, 'email'),
+      password: typeof req.body.password === 'string' ? req.body.password : ''
+    };
+
+    const problem = validateRegistration(input);
+    if (problem) throw badRequest(problem);
+    if (store.users.getByEmail(input.email)) {
+      throw conflict('An account with that email already exists');
+    }
+    if (store.users.getByUsername(input.username)) {
+      throw conflict('That username is already taken');
+    }
+
+    const user = store.users.create({
+      id: createId('u'),
+      username: input.username,
+      email: input.email,
+      role: 'user',
+      joinDate: new Date().toISOString().split('T')[0],
+      reputation: 0,
+      badgeCounts: { ...NO_BADGES }
+    }, await hashPassword(input.password));
+
+    res.status(201).json({ user, session: await startSession(user.id) });
+  }));
+
+  router.post('/login', asyncHandler(async (req, res) => {
+    const email = requireString(req.body, 'email');
+    const password = typeof req.body.password === 'string' ? req.body.password : '';
+    const user = store.users.getByEmail(email);
+    const passwordHash = user && store.users.getPasswordHash(user.id);
+
+    if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+      throw unauthorized('Invalid email or password');
+    }
+    res.json({ user: store.users.getAccount(user.id), session: await startSession(user.id) });
+  }));
+
+  // Rotates both tokens; the old refresh token cannot be used again
+  router.post('/refresh', asyncHandler(async (req, res) => {
+    const refreshToken = requireString(req.body, 'refreshToken');
+    const stored = store.sessions.findByRefreshHash(await hashToken(refreshToken));
+    if (!stored || isExpired(stored.refreshExpiresAt)) {
+      throw unauthorized('Session expired');
+    }
+
+    store.sessions.remove(stored.id);
+    const user = store.users.getAccount(stored.userId);
+    if (!user) throw unauthorized('Session expired');
+    res.json({ user, session: await startSession(user.id) });
+  }));
+
+  router.get('/me', (_req, res) => {
+    res.json(store.users.getAccount(requireUser(res).id));
+  });
+
+  router.post('/logout', (_req, res) => {
+    requireUser(res);
+    store.sessions.remove(res.locals.sessionId);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { requireUser } from '../auth';
+import { requireOneOf, requireString } from '../validation';
+
+export const createCommentRoutes = (store: Store) => {
+  const router = Router();
+
+  router.post('/', (req, res) => {
+    const comment = store.comments.create({
+      targetId: requireString(req.body, 'targetId'),
+      targetType: requireOneOf(req.body, 'targetType', ['question', 'answer'] as const),
+      parentId: typeof req.body.parentId === 'string' ? req.body.parentId : undefined,
+      content: requireString(req.body, 'content'),
+      authorId: requireUser(res).id
+    });
+    res.status(201).json(comment);
+  });
+
+  router.patch('/:id', (req, res) => {
+    res.json(store.comments.update({
+      id: req.params.id,
+      content: requireString(req.body, 'content'),
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.delete('/:id', (req, res) => {
+    store.comments.remove(req.params.id, requireUser(res).id);
+    res.status(204).end();
+  });
+
+  return router;
+};
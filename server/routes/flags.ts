@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { requireUser } from '../auth';
+import { requireOneOf, requireString } from '../validation';
+import { FLAG_REASONS } from '../../src/data/flags';
+
+export const createFlagRoutes = (store: Store) => {
+  const router = Router();
+
+  router.post('/', (req, res) => {
+    const flag = store.flags.create({
+      targetId: requireString(req.body, 'targetId'),
+      targetType: requireOneOf(req.body, 'targetType', ['question', 'answer', 'comment'] as const),
+      reason: requireOneOf(req.body, 'reason', FLAG_REASONS.map(option => option.value)),
+      text: typeof req.body.text === 'string' ? req.body.text : undefined,
+      userId: requireUser(res).id
+    });
+    res.status(201).json(flag);
+  });
+
+  return router;
+};
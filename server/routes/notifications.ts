@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { requireUser } from '../auth';
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+export const createNotificationRoutes = (store: Store) => {
+  const router = Router();
+
+  // Server-sent events for the signed-in user. A reconnecting client sends the last id it saw
+  // as Last-Event-ID and gets everything after it; a fresh one starts from now.
+  router.get('/stream', (req, res) => {
+    const user = requireUser(res);
+    let lastId = req.header('Last-Event-ID') || store.notifications.latestId(user.id);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+
+    const send = () => {
+      store.notifications.listAfter(user.id, lastId).forEach(notification => {
+        res.write(`id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+        lastId = notification.id;
+      });
+    };
+    send();
+
+    const unwatch = store.notifications.watch(user.id, send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+      unwatch();
+      clearInterval(heartbeat);
+    });
+  });
+
+  router.post('/:id/read', (req, res) => {
+    store.notifications.markRead(req.params.id, requireUser(res).id);
+    res.status(204).end();
+  });
+
+  return router;
+};
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { notFound } from '../errors';
+import { isBot } from '../../src/data/views';
+import { currentUser, requireUser } from '../auth';
+import { requireNumber, requireString, requireStringArray } from '../validation';
+
+export const createQuestionRoutes = (store: Store) => {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(store.questions.list());
+  });
+
+  // Registered before /:id so "search" isn't taken for a question id
+  router.get('/search', (req, res) => {
+    res.json(store.search.questions(typeof req.query.q === 'string' ? req.query.q : ''));
+  });
+
+  router.post('/similar', (req, res) => {
+    res.json(store.search.similar({
+      title: requireString(req.body, 'title'),
+      description: typeof req.body.description === 'string' ? req.body.description : '',
+      tags: req.body.tags === undefined ? [] : requireStringArray(req.body, 'tags')
+    }));
+  });
+
+  router.get('/:id', (req, res) => {
+    const question = store.questions.get(req.params.id);
+    if (!question) throw notFound('Question');
+    res.json(question);
+  });
+
+  router.post('/', (req, res) => {
+    const question = store.questions.create({
+      title: requireString(req.body, 'title'),
+      description: requireString(req.body, 'description'),
+      tags: requireStringArray(req.body, 'tags'),
+      authorId: requireUser(res).id
+    });
+    res.status(201).json(question);
+  });
+
+  router.patch('/:id', (req, res) => {
+    res.json(store.questions.update({
+      id: req.params.id,
+      title: requireString(req.body, 'title'),
+      description: requireString(req.body, 'description'),
+      tags: requireStringArray(req.body, 'tags'),
+      summary: typeof req.body.summary === 'string' ? req.body.summary : '',
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.get('/:id/revisions', (req, res) => {
+    res.json(store.questions.listRevisions(req.params.id));
+  });
+
+  router.post('/:id/revisions/:revisionId/rollback', (req, res) => {
+    res.json(store.questions.rollback({
+      id: req.params.id,
+      revisionId: req.params.revisionId,
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.post('/:id/accept', (req, res) => {
+    res.json(store.questions.acceptAnswer({
+      questionId: req.params.id,
+      answerId: requireString(req.body, 'answerId'),
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.post('/:id/bounty', (req, res) => {
+    res.json(store.questions.offerBounty({
+      questionId: req.params.id,
+      amount: requireNumber(req.body, 'amount'),
+      userId: requireUser(res).id
+    }));
+  });
+
+  router.get('/:id/answers', (req, res) => {
+    res.json(store.answers.listByQuestion(req.params.id));
+  });
+
+  router.get('/:id/comments', (req, res) => {
+    res.json(store.comments.listByQuestion(req.params.id));
+  });
+
+  router.post('/:id/answers', (req, res) => {
+    const answer = store.answers.create({
+      questionId: req.params.id,
+      content: requireString(req.body, 'content'),
+      authorId: requireUser(res).id
+    });
+    res.status(201).json(answer);
+  });
+
+  // Counted for the signed-in user, or else the visitor id the browser keeps, or else the address
+  router.post('/:id/views', (req, res) => {
+    if (!isBot(req.get('User-Agent') ?? '')) {
+      store.questions.recordView({
+        questionId: req.params.id,
+        userId: currentUser(res)?.id,
+        visitorId: typeof req.body.visitorId === 'string' && req.body.visitorId ? req.body.visitorId : `ip:${req.ip}`
+      });
+    }
+    res.status(204).end();
+  });
+
+  return router;
+};
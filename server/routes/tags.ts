@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { notFound } from '../errors';
+
+export const createTagRoutes = (store: Store) => {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    res.json(store.tags.list());
+  });
+
+  router.get('/:name', (req, res) => {
+    const tag = store.tags.get(req.params.name);
+    if (!tag) throw notFound('Tag');
+    res.json(tag);
+  });
+
+  return router;
+};
@@ -0,0 +1,40 @@
+import express, { Response, Router } from 'express';
+import { UploadedImage } from '../../src/types';
+import { IMAGE_TYPES, MAX_IMAGE_BYTES } from '../../src/data/uploads';
+import { Store } from '../store';
+import { ImageFile } from '../store/uploads';
+import { notFound } from '../errors';
+import { asyncHandler, requireUser } from '../auth';
+
+// An upload never changes, so browsers can keep it
+const sendImage = (res: Response, image: ImageFile | null) => {
+  if (!image) throw notFound('Image');
+  res.set({ 'Content-Type': image.contentType, 'Cache-Control': 'public, max-age=31536000, immutable' });
+  res.send(image.data);
+};
+
+export const createUploadRoutes = (store: Store) => {
+  const router = Router();
+
+  // The image is the raw request body, typed by its Content-Type
+  router.post('/', express.raw({ type: IMAGE_TYPES, limit: MAX_IMAGE_BYTES }), asyncHandler(async (req, res) => {
+    const user = requireUser(res);
+    const stored = await store.uploads.saveImage(user.id, {
+      contentType: (req.get('Content-Type') ?? '').split(';')[0].trim(),
+      data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+    });
+    const url = `${req.baseUrl}/${stored.id}`;
+    const image: UploadedImage = { ...stored, url, thumbnailUrl: `${url}/thumbnail` };
+    res.status(201).json(image);
+  }));
+
+  router.get('/:id', (req, res) => {
+    sendImage(res, store.uploads.get(req.params.id));
+  });
+
+  router.get('/:id/thumbnail', (req, res) => {
+    sendImage(res, store.uploads.get(req.params.id, 'thumbnail'));
+  });
+
+  return router;
+};
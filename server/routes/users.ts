@@ -0,0 +1,74 @@
+import { Response, Router } from 'express';
+import { NotificationSettings } from '../../src/types';
+import { Store } from '../store';
+import { forbidden, notFound } from '../errors';
+import { requireUser } from '../auth';
+import { requireStringArray } from '../validation';
+
+export const createUserRoutes = (store: Store) => {
+  const router = Router();
+
+  // Votes, flags and notifications are private to their owner
+  const requireSelf = (res: Response, userId: string) => {
+    if (requireUser(res).id !== userId) throw forbidden();
+  };
+
+  router.get('/', (_req, res) => {
+    res.json(store.users.list());
+  });
+
+  router.get('/by-username/:username', (req, res) => {
+    const user = store.users.getByUsername(req.params.username);
+    if (!user) throw notFound('User');
+    res.json(user);
+  });
+
+  router.get('/by-username/:username/profile', (req, res) => {
+    const profile = store.profiles.get(req.params.username);
+    if (!profile) throw notFound('User');
+    res.json(profile);
+  });
+
+  router.get('/:id', (req, res) => {
+    const user = store.users.get(req.params.id);
+    if (!user) throw notFound('User');
+    res.json(user);
+  });
+
+  router.get('/:id/votes', (req, res) => {
+    requireSelf(res, req.params.id);
+    res.json(store.votes.listByUser(req.params.id));
+  });
+
+  router.get('/:id/flags', (req, res) => {
+    requireSelf(res, req.params.id);
+    res.json(store.flags.listByUser(req.params.id));
+  });
+
+  router.get('/:id/notifications', (req, res) => {
+    requireSelf(res, req.params.id);
+    res.json(store.notifications.listByUser(req.params.id));
+  });
+
+  router.post('/:id/notifications/read', (req, res) => {
+    requireSelf(res, req.params.id);
+    store.notifications.markAllRead(req.params.id);
+    res.status(204).end();
+  });
+
+  router.get('/:id/notification-settings', (req, res) => {
+    requireSelf(res, req.params.id);
+    res.json(store.notifications.getSettings(req.params.id));
+  });
+
+  router.put('/:id/notification-settings', (req, res) => {
+    requireSelf(res, req.params.id);
+    res.json(store.notifications.saveSettings({
+      userId: req.params.id,
+      mutedTypes: requireStringArray(req.body, 'mutedTypes') as NotificationSettings['mutedTypes'],
+      mutedQuestionIds: requireStringArray(req.body, 'mutedQuestionIds')
+    }));
+  });
+
+  return router;
+};
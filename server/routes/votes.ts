@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { Store } from '../store';
+import { badRequest } from '../errors';
+import { requireOneOf, requireString } from '../validation';
+import { requireUser } from '../auth';
+
+export const createVoteRoutes = (store: Store) => {
+  const router = Router();
+
+  // Body type of null retracts the vote
+  router.put('/', (req, res) => {
+    const type = req.body.type;
+    if (type !== null && type !== 'up' && type !== 'down') {
+      throw badRequest('type must be one of: up, down, null');
+    }
+
+    res.json(store.votes.cast({
+      userId: requireUser(res).id,
+      targetId: requireString(req.body, 'targetId'),
+      targetType: requireOneOf(req.body, 'targetType', ['question', 'answer', 'comment'] as const),
+      type
+    }));
+  });
+
+  return router;
+};
@@ -0,0 +1,25 @@
+import { mockSeed } from '../src/data/mockData';
+import { Store } from './store';
+
+// Fills an empty database with the same data the frontend's mock store starts with
+export const seedDatabase = (store: Store) => {
+  const { count } = store.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+  if (count > 0) return false;
+
+  store.db.transaction(() => {
+    mockSeed.users.forEach(user => {
+      const credential = mockSeed.credentials.find(c => c.userId === user.id);
+      store.users.create(user, credential?.passwordHash ?? '');
+      store.reputation.recordStartingBalance(user);
+    });
+    mockSeed.tags.forEach(tag => store.tags.define(tag));
+    // Oldest first so insertion order matches creation order
+    [...mockSeed.questions].reverse().forEach(question => store.questions.insert(question));
+    mockSeed.answers.forEach(answer => store.answers.insert(answer));
+    mockSeed.comments.forEach(comment => store.comments.insert(comment));
+    mockSeed.notifications.forEach(notification => store.notifications.insert(notification));
+    // Badges the seeded posts already earned, without announcing them
+    mockSeed.users.forEach(user => store.badges.evaluate(user.id, false));
+  })();
+  return true;
+};
@@ -0,0 +1,164 @@
+import type { Database } from 'better-sqlite3';
+import { Answer } from '../../src/types';
+import {
+  DeletedAnswer,
+  EditAnswerInput,
+  NewAnswerInput,
+  RollbackInput,
+  answerMessage,
+  createId
+} from '../../src/data/repository';
+import { validatePostText } from '../../src/data/moderation';
+import { badRequest, notFound } from '../errors';
+import { UserRow, createUserStore, toUser } from './users';
+import { createBadgeStore } from './badges';
+import { createNotificationStore } from './notifications';
+import { createMentionStore } from './mentions';
+import { createQuestionStore } from './questions';
+import { createRevisionStore } from './revisions';
+import { rollbackSummary } from '../../src/data/revisions';
+
+interface AnswerRow {
+  id: string;
+  question_id: string;
+  content: string;
+  author_id: string;
+  created_at: string;
+  updated_at: string;
+  votes: number;
+  is_accepted: number;
+  deleted_at: string | null;
+}
+
+export const createAnswerStore = (db: Database) => {
+  const users = createUserStore(db);
+  const questions = createQuestionStore(db);
+  const badges = createBadgeStore(db);
+  const revisions = createRevisionStore(db);
+  const notifications = createNotificationStore(db);
+  const mentions = createMentionStore(db);
+
+  const hydrate = (rows: AnswerRow[]): Answer[] => {
+    const author = db.prepare('SELECT * FROM users WHERE id = ?');
+
+    return rows.map(row => ({
+      id: row.id,
+      questionId: row.question_id,
+      content: row.content,
+      authorId: row.author_id,
+      author: toUser(author.get(row.author_id) as UserRow),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      votes: row.votes,
+      // Hidden answers aren't accepted until they're restored
+      isAccepted: row.is_accepted === 1 && !row.deleted_at,
+      deletedAt: row.deleted_at ?? undefined
+    }));
+  };
+
+  const get = (id: string) => {
+    const row = db.prepare('SELECT * FROM answers WHERE id = ? AND deleted_at IS NULL').get(id) as AnswerRow | undefined;
+    return row ? hydrate([row])[0] : null;
+  };
+
+  const requireLive = (id: string) => {
+    const answer = get(id);
+    if (!answer) throw notFound('Answer');
+    return answer;
+  };
+
+  // Records the edit as a new revision
+  const update = ({ id, content, summary, userId }: EditAnswerInput) => db.transaction(() => {
+    const answer = requireLive(id);
+    const problem = validatePostText(content, 'answer');
+    if (problem) throw badRequest(problem);
+
+    const now = new Date().toISOString();
+    const question = questions.get(answer.questionId) ?? {};
+    revisions.record('answer', answer, question, { body: content, summary, userId }, now);
+    db.prepare('UPDATE answers SET content = ?, updated_at = ? WHERE id = ?').run(content, now, id);
+    return get(id)!;
+  })();
+
+  // Used by the seed to keep mock ids, counters and timestamps intact
+  const insert = (answer: Omit<Answer, 'author'>) => {
+    db.prepare(`
+      INSERT INTO answers (id, question_id, content, author_id, created_at, updated_at, votes, is_accepted)
+      VALUES (@id, @questionId, @content, @authorId, @createdAt, @updatedAt, @votes, @isAccepted)
+    `).run({ ...answer, isAccepted: answer.isAccepted ? 1 : 0 });
+  };
+
+  return {
+    listByQuestion: (questionId: string) =>
+      hydrate(db.prepare('SELECT * FROM answers WHERE question_id = ? AND deleted_at IS NULL ORDER BY created_at')
+        .all(questionId) as AnswerRow[]),
+
+    listByAuthor: (authorId: string) =>
+      hydrate(db.prepare('SELECT * FROM answers WHERE author_id = ? AND deleted_at IS NULL ORDER BY created_at')
+        .all(authorId) as AnswerRow[]),
+
+    listDeleted: (): DeletedAnswer[] => {
+      const rows = db.prepare(`
+        SELECT a.*, q.title AS question_title FROM answers a
+        JOIN questions q ON q.id = a.question_id
+        WHERE a.deleted_at IS NOT NULL
+        ORDER BY a.deleted_at DESC
+      `).all() as (AnswerRow & { question_title: string })[];
+      return hydrate(rows).map((answer, index) => ({ ...answer, questionTitle: rows[index].question_title }));
+    },
+
+    get,
+
+    insert,
+
+    create: (input: NewAnswerInput) => {
+      const problem = validatePostText(input.content, 'answer');
+      if (problem) throw badRequest(problem);
+      const question = questions.requireOpen(input.questionId);
+      const author = users.requireActive(input.authorId);
+
+      const now = new Date().toISOString();
+      const id = createId('a');
+      db.transaction(() => {
+        insert({
+          id,
+          questionId: input.questionId,
+          content: input.content,
+          authorId: input.authorId,
+          createdAt: now,
+          updatedAt: now,
+          votes: 0,
+          isAccepted: false
+        });
+        db.prepare('UPDATE questions SET answer_count = answer_count + 1 WHERE id = ?').run(input.questionId);
+        badges.evaluate(input.authorId);
+        if (question.author_id !== input.authorId) {
+          notifications.create({
+            userId: question.author_id,
+            type: 'answer',
+            message: answerMessage(author.username, question.title),
+            relatedId: id,
+            questionId: input.questionId,
+            read: false
+          });
+        }
+        mentions.notify(input.content, 'answer', {
+          id,
+          authorId: input.authorId,
+          questionId: input.questionId,
+          questionTitle: question.title
+        }, [question.author_id]);
+      })();
+      return get(id)!;
+    },
+
+    update,
+
+    listRevisions: (id: string) => revisions.listByPost('answer', requireLive(id)),
+
+    rollback: ({ id, revisionId, userId }: RollbackInput) => {
+      const revision = revisions.get(id, revisionId);
+      return update({ id, content: revision.body, summary: rollbackSummary(revision), userId });
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import type { Database } from 'better-sqlite3';
+import { Badge } from '../../src/types';
+import { BadgeActivity, awardBadges, badgeMessage } from '../../src/data/badges';
+import { createNotificationStore } from './notifications';
+
+interface BadgeRow {
+  id: string;
+  user_id: string;
+  badge_id: string;
+  name: string;
+  description: string;
+  tier: Badge['tier'];
+  tag: string | null;
+  related_id: string | null;
+  awarded_at: string;
+}
+
+const toBadge = (row: BadgeRow): Badge => ({
+  id: row.id,
+  userId: row.user_id,
+  badgeId: row.badge_id,
+  name: row.name,
+  description: row.description,
+  tier: row.tier,
+  tag: row.tag ?? undefined,
+  relatedId: row.related_id ?? undefined,
+  awardedAt: row.awarded_at
+});
+
+export const createBadgeStore = (db: Database) => {
+  const notifications = createNotificationStore(db);
+
+  const listByUser = (userId: string) =>
+    (db.prepare('SELECT * FROM badges WHERE user_id = ? ORDER BY awarded_at DESC').all(userId) as BadgeRow[])
+      .map(toBadge);
+
+  const activityOf = (userId: string): BadgeActivity => ({
+    questions: db.prepare('SELECT id, votes, views FROM questions WHERE author_id = ?')
+      .all(userId) as BadgeActivity['questions'],
+    answers: (db.prepare(`
+      SELECT a.id, a.question_id, a.votes, a.is_accepted,
+        (SELECT json_group_array(tag_name) FROM question_tags WHERE question_id = a.question_id) AS tags
+      FROM answers a WHERE a.author_id = ?
+    `).all(userId) as { id: string; question_id: string; votes: number; is_accepted: number; tags: string }[])
+      .map(row => ({
+        id: row.id,
+        questionId: row.question_id,
+        votes: row.votes,
+        isAccepted: row.is_accepted === 1,
+        tags: JSON.parse(row.tags) as string[]
+      }))
+  });
+
+  return {
+    listByUser,
+
+    // Awards whatever the user's posts have newly earned; callers run it inside their transaction
+    evaluate: (userId: string, announce = true) => {
+      const awarded = awardBadges(userId, activityOf(userId), listByUser(userId));
+      const insert = db.prepare(`
+        INSERT INTO badges (id, user_id, badge_id, name, description, tier, tag, related_id, awarded_at)
+        VALUES (@id, @userId, @badgeId, @name, @description, @tier, @tag, @relatedId, @awardedAt)
+      `);
+      awarded.forEach(badge => {
+        insert.run({ ...badge, tag: badge.tag ?? null, relatedId: badge.relatedId ?? null });
+        if (announce) {
+          notifications.create({
+            userId,
+            type: 'badge',
+            message: badgeMessage(badge),
+            relatedId: badge.relatedId ?? badge.id,
+            read: false
+          });
+        }
+      });
+
+      db.prepare(`
+        UPDATE users SET
+          gold_badges = (SELECT COUNT(*) FROM badges WHERE user_id = users.id AND tier = 'gold'),
+          silver_badges = (SELECT COUNT(*) FROM badges WHERE user_id = users.id AND tier = 'silver'),
+          bronze_badges = (SELECT COUNT(*) FROM badges WHERE user_id = users.id AND tier = 'bronze')
+        WHERE id = ?
+      `).run(userId);
+      return awarded;
+    }
+  };
+};
@@ -0,0 +1,180 @@
+import type { Database } from 'better-sqlite3';
+import { Comment } from '../../src/types';
+import {
+  COMMENT_DELETE_WINDOW,
+  COMMENT_EDIT_WINDOW,
+  EditCommentInput,
+  NewCommentInput,
+  commentMessage,
+  createId,
+  replyMessage,
+  validateComment,
+  withinCommentWindow
+} from '../../src/data/repository';
+import { badRequest, forbidden, notFound } from '../errors';
+import { UserRow, createUserStore, toUser } from './users';
+import { createNotificationStore } from './notifications';
+import { createMentionStore } from './mentions';
+import { createQuestionStore } from './questions';
+
+interface CommentRow {
+  id: string;
+  question_id: string;
+  target_id: string;
+  target_type: Comment['targetType'];
+  parent_id: string | null;
+  content: string;
+  author_id: string;
+  created_at: string;
+  updated_at: string;
+  votes: number;
+  deleted_at: string | null;
+}
+
+// A hidden comment takes its replies with it
+const SHOWN = `deleted_at IS NULL
+  AND (parent_id IS NULL OR parent_id IN (SELECT id FROM comments WHERE deleted_at IS NULL))`;
+
+export const createCommentStore = (db: Database) => {
+  const users = createUserStore(db);
+  const questions = createQuestionStore(db);
+  const notifications = createNotificationStore(db);
+  const mentions = createMentionStore(db);
+
+  const hydrate = (rows: CommentRow[]): Comment[] => {
+    const author = db.prepare('SELECT * FROM users WHERE id = ?');
+
+    return rows.map(row => ({
+      id: row.id,
+      questionId: row.question_id,
+      targetId: row.target_id,
+      targetType: row.target_type,
+      parentId: row.parent_id ?? undefined,
+      content: row.content,
+      authorId: row.author_id,
+      author: toUser(author.get(row.author_id) as UserRow),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      votes: row.votes,
+      deletedAt: row.deleted_at ?? undefined
+    }));
+  };
+
+  const find = (id: string) =>
+    db.prepare('SELECT * FROM comments WHERE id = ?').get(id) as CommentRow | undefined;
+
+  const get = (id: string) => {
+    const row = find(id);
+    return row ? hydrate([row])[0] : null;
+  };
+
+  const requireContent = (content: string) => {
+    const problem = validateComment(content);
+    if (problem) throw badRequest(problem);
+    return content.trim();
+  };
+
+  // Only the author may change a comment, and only for a while after posting it
+  const requireOwnComment = (id: string, userId: string, window: number, action: 'edit' | 'delete') => {
+    const row = find(id);
+    if (!row) throw notFound('Comment');
+    if (row.author_id !== userId) throw forbidden(`Only the author can ${action} a comment`);
+    if (!withinCommentWindow({ createdAt: row.created_at }, window)) {
+      throw forbidden(`This comment can no longer be ${action === 'edit' ? 'edited' : 'deleted'}`);
+    }
+    return row;
+  };
+
+  // Used by the seed to keep mock ids, counters and timestamps intact
+  const insert = (comment: Omit<Comment, 'author'>) => {
+    db.prepare(`
+      INSERT INTO comments
+        (id, question_id, target_id, target_type, parent_id, content, author_id, created_at, updated_at, votes)
+      VALUES
+        (@id, @questionId, @targetId, @targetType, @parentId, @content, @authorId, @createdAt, @updatedAt, @votes)
+    `).run({ ...comment, parentId: comment.parentId ?? null });
+  };
+
+  return {
+    listByQuestion: (questionId: string) =>
+      hydrate(db.prepare(`SELECT * FROM comments WHERE question_id = ? AND ${SHOWN} ORDER BY created_at`)
+        .all(questionId) as CommentRow[]),
+
+    listByAuthor: (authorId: string) =>
+      hydrate(db.prepare(`SELECT * FROM comments WHERE author_id = ? AND ${SHOWN} ORDER BY created_at`)
+        .all(authorId) as CommentRow[]),
+
+    get,
+
+    insert,
+
+    // Notifies the post's author, and the parent comment's author for a reply
+    create: (input: NewCommentInput) => db.transaction(() => {
+      const content = requireContent(input.content);
+      const post = (input.targetType === 'question'
+        ? db.prepare('SELECT id AS question_id, author_id FROM questions WHERE id = ? AND deleted_at IS NULL')
+        : db.prepare('SELECT question_id, author_id FROM answers WHERE id = ? AND deleted_at IS NULL')
+      ).get(input.targetId) as { question_id: string; author_id: string } | undefined;
+      if (!post) throw notFound(input.targetType === 'question' ? 'Question' : 'Answer');
+      const { title } = questions.requireOpen(post.question_id);
+
+      let parent = input.parentId ? find(input.parentId) : undefined;
+      if (input.parentId && (parent?.target_id !== input.targetId || parent.deleted_at)) throw notFound('Comment');
+      // Threads are one level deep, so a reply to a reply joins its parent's thread
+      if (parent?.parent_id) parent = find(parent.parent_id);
+
+      const author = users.requireActive(input.authorId);
+
+      const now = new Date().toISOString();
+      const id = createId('c');
+      insert({
+        id,
+        questionId: post.question_id,
+        targetId: input.targetId,
+        targetType: input.targetType,
+        parentId: parent?.id,
+        content,
+        authorId: input.authorId,
+        createdAt: now,
+        updatedAt: now,
+        votes: 0
+      });
+
+      const notify = (userId: string, message: string) =>
+        notifications.create({ userId, type: 'comment', message, relatedId: id, questionId: post.question_id, read: false });
+      if (post.author_id !== input.authorId) {
+        notify(post.author_id, commentMessage(author.username, input.targetType, title));
+      }
+      if (parent && parent.author_id !== input.authorId && parent.author_id !== post.author_id) {
+        notify(parent.author_id, replyMessage(author.username, title));
+      }
+      mentions.notify(content, 'comment', {
+        id,
+        authorId: input.authorId,
+        questionId: post.question_id,
+        questionTitle: title
+      }, [post.author_id, ...(parent ? [parent.author_id] : [])]);
+      return get(id)!;
+    })(),
+
+    update: ({ id, content, userId }: EditCommentInput) => {
+      requireOwnComment(id, userId, COMMENT_EDIT_WINDOW, 'edit');
+      users.requireActive(userId);
+      db.prepare('UPDATE comments SET content = ?, updated_at = ? WHERE id = ?')
+        .run(requireContent(content), new Date().toISOString(), id);
+      return get(id)!;
+    },
+
+    // Replies go with the comment through the foreign key; their votes and flags are removed here
+    remove: (id: string, userId: string) => db.transaction(() => {
+      requireOwnComment(id, userId, COMMENT_DELETE_WINDOW, 'delete');
+      db.prepare(`
+        DELETE FROM votes WHERE target_type = 'comment'
+          AND target_id IN (SELECT id FROM comments WHERE id = ? OR parent_id = ?)
+      `).run(id, id);
+      db.prepare('DELETE FROM flags WHERE target_id IN (SELECT id FROM comments WHERE id = ? OR parent_id = ?)')
+        .run(id, id);
+      db.prepare('DELETE FROM comments WHERE id = ?').run(id);
+    })()
+  };
+};
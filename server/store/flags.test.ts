@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { openDatabase } from '../db';
+import { seedDatabase } from '../seed';
+import { createStore } from '.';
+
+const setUp = () => {
+  const store = createStore(openDatabase(':memory:'));
+  seedDatabase(store);
+  const question = store.questions.list().find(q => q.acceptedAnswerId)!;
+  const accepted = store.answers.listByQuestion(question.id).find(answer => answer.isAccepted)!;
+  const flaggers = store.users.list().filter(user => user.id !== accepted.authorId);
+  const admin = store.users.list().find(user => user.role === 'admin')!;
+  return { store, question, accepted, flaggers, admin };
+};
+
+describe('spam flags on an accepted answer', () => {
+  it('hide the answer and clear the acceptance, which declining the flags restores', () => {
+    const { store, question, accepted, flaggers, admin } = setUp();
+    flaggers.slice(0, 3).forEach(user =>
+      store.flags.create({ targetId: accepted.id, targetType: 'answer', reason: 'spam', userId: user.id })
+    );
+
+    expect(store.answers.listByQuestion(question.id).map(answer => answer.id)).not.toContain(accepted.id);
+    expect(store.questions.get(question.id)!.acceptedAnswerId).toBeUndefined();
+    expect(store.moderation.listDeleted(admin.id).answers.find(answer => answer.id === accepted.id)!.isAccepted)
+      .toBe(false);
+
+    store.moderation.reviewFlags({ targetId: accepted.id, targetType: 'answer', action: 'decline', adminId: admin.id });
+
+    expect(store.questions.get(question.id)!.acceptedAnswerId).toBe(accepted.id);
+    expect(store.answers.listByQuestion(question.id).find(answer => answer.id === accepted.id)!.isAccepted).toBe(true);
+  });
+
+  it("don't give the acceptance back if the asker accepted another answer meanwhile", () => {
+    const { store, question, accepted, flaggers, admin } = setUp();
+    flaggers.slice(0, 3).forEach(user =>
+      store.flags.create({ targetId: accepted.id, targetType: 'answer', reason: 'spam', userId: user.id })
+    );
+    const other = store.answers.listByQuestion(question.id)[0];
+    store.questions.acceptAnswer({ questionId: question.id, answerId: other.id, userId: question.authorId });
+
+    store.moderation.reviewFlags({ targetId: accepted.id, targetType: 'answer', action: 'decline', adminId: admin.id });
+
+    expect(store.questions.get(question.id)!.acceptedAnswerId).toBe(other.id);
+    expect(store.answers.listByQuestion(question.id).find(answer => answer.id === accepted.id)!.isAccepted).toBe(false);
+  });
+});
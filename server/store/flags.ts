@@ -0,0 +1,90 @@
+import type { Database } from 'better-sqlite3';
+import { Flag } from '../../src/types';
+import { NewFlagInput, createId } from '../../src/data/repository';
+import { ALREADY_FLAGGED, shouldHide, validateFlag } from '../../src/data/flags';
+import { badRequest, conflict, forbidden, notFound } from '../errors';
+import { createPostStore } from './posts';
+import { createUserStore } from './users';
+
+interface FlagRow {
+  id: string;
+  user_id: string;
+  target_id: string;
+  target_type: Flag['targetType'];
+  question_id: string;
+  reason: Flag['reason'];
+  text: string | null;
+  status: Flag['status'];
+  created_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
+
+const toFlag = (row: FlagRow): Flag => ({
+  id: row.id,
+  userId: row.user_id,
+  targetId: row.target_id,
+  targetType: row.target_type,
+  questionId: row.question_id,
+  reason: row.reason,
+  text: row.text ?? undefined,
+  status: row.status,
+  createdAt: row.created_at,
+  reviewedBy: row.reviewed_by ?? undefined,
+  reviewedAt: row.reviewed_at ?? undefined
+});
+
+const targetNames = { question: 'Question', answer: 'Answer', comment: 'Comment' } as const;
+
+export const createFlagStore = (db: Database) => {
+  const users = createUserStore(db);
+  const posts = createPostStore(db);
+
+  const select = (where: string, ...values: string[]) =>
+    (db.prepare(`SELECT * FROM flags WHERE ${where} ORDER BY created_at`).all(...values) as FlagRow[]).map(toFlag);
+
+  return {
+    listByUser: (userId: string) => select('user_id = ?', userId),
+
+    // Oldest first
+    listPending: () => select("status = 'pending'"),
+
+    // One flag per user and post, never on their own; enough spam flags hide the post
+    create: ({ targetId, targetType, reason, text, userId }: NewFlagInput) => db.transaction(() => {
+      const problem = validateFlag(reason, text);
+      if (problem) throw badRequest(problem);
+      const post = posts.find(targetType, targetId);
+      if (!post || post.deleted_at) throw notFound(targetNames[targetType]);
+      users.requireActive(userId);
+      if (post.author_id === userId) throw forbidden("You can't flag your own post");
+      if (db.prepare('SELECT 1 FROM flags WHERE user_id = ? AND target_id = ?').get(userId, targetId)) {
+        throw conflict(ALREADY_FLAGGED);
+      }
+
+      const id = createId('f');
+      db.prepare(`
+        INSERT INTO flags (id, user_id, target_id, target_type, question_id, reason, text, created_at)
+        VALUES (@id, @userId, @targetId, @targetType, @questionId, @reason, @text, @createdAt)
+      `).run({
+        id,
+        userId,
+        targetId,
+        targetType,
+        questionId: post.question_id ?? post.id,
+        reason,
+        text: text?.trim() || null,
+        createdAt: new Date().toISOString()
+      });
+
+      if (shouldHide(select('target_id = ?', targetId))) posts.hide(targetType, post);
+      return toFlag(db.prepare('SELECT * FROM flags WHERE id = ?').get(id) as FlagRow);
+    })(),
+
+    // Marks every pending flag on the post as reviewed
+    resolve: (targetId: string, status: Flag['status'], adminId: string) => {
+      db.prepare(`
+        UPDATE flags SET status = ?, reviewed_by = ?, reviewed_at = ? WHERE target_id = ? AND status = 'pending'
+      `).run(status, adminId, new Date().toISOString(), targetId);
+    }
+  };
+};
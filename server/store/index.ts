@@ -0,0 +1,37 @@
+import type { Database } from 'better-sqlite3';
+import { createAnswerStore } from './answers';
+import { createBadgeStore } from './badges';
+import { createCommentStore } from './comments';
+import { createFlagStore } from './flags';
+import { createModerationStore } from './moderation';
+import { createNotificationStore } from './notifications';
+import { createProfileStore } from './profiles';
+import { createQuestionStore } from './questions';
+import { createReputationStore } from './reputation';
+import { createSearchStore } from './search';
+import { createSessionStore } from './sessions';
+import { createTagStore } from './tags';
+import { createUploadStore } from './uploads';
+import { createUserStore } from './users';
+import { createVoteStore } from './votes';
+
+export const createStore = (db: Database) => ({
+  db,
+  users: createUserStore(db),
+  sessions: createSessionStore(db),
+  tags: createTagStore(db),
+  questions: createQuestionStore(db),
+  answers: createAnswerStore(db),
+  comments: createCommentStore(db),
+  search: createSearchStore(db),
+  profiles: createProfileStore(db),
+  votes: createVoteStore(db),
+  reputation: createReputationStore(db),
+  badges: createBadgeStore(db),
+  notifications: createNotificationStore(db),
+  flags: createFlagStore(db),
+  moderation: createModerationStore(db),
+  uploads: createUploadStore(db)
+});
+
+export type Store = ReturnType<typeof createStore>;
@@ -0,0 +1,35 @@
+import type { Database } from 'better-sqlite3';
+import { MentionPostType, extractMentions, mentionMessage } from '../../src/data/mentions';
+import { createNotificationStore } from './notifications';
+import { createUserStore } from './users';
+
+interface MentioningPost {
+  id: string;
+  authorId: string;
+  questionId: string;
+  questionTitle: string;
+}
+
+export const createMentionStore = (db: Database) => {
+  const users = createUserStore(db);
+  const notifications = createNotificationStore(db);
+
+  return {
+    // Tells everyone the text mentions, except its author and whoever was already notified about the post
+    notify: (text: string, postType: MentionPostType, post: MentioningPost, notified: string[]) => {
+      const author = users.get(post.authorId)!;
+      extractMentions(text).forEach(username => {
+        const user = users.getByUsername(username);
+        if (!user || user.id === post.authorId || notified.includes(user.id)) return;
+        notifications.create({
+          userId: user.id,
+          type: 'mention',
+          message: mentionMessage(author.username, postType, post.questionTitle),
+          relatedId: post.id,
+          questionId: post.questionId,
+          read: false
+        });
+      });
+    }
+  };
+};
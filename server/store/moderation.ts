@@ -0,0 +1,154 @@
+import type { Database } from 'better-sqlite3';
+import {
+  DeletedPosts,
+  FlaggedPost,
+  LockQuestionInput,
+  ModeratePostInput,
+  ReviewFlagsInput,
+  SaveTagInput,
+  SetRoleInput,
+  SuspendUserInput
+} from '../../src/data/repository';
+import {
+  ASSIGNABLE_ROLES,
+  validateSuspension,
+  validateSynonyms,
+  validateUserAction
+} from '../../src/data/moderation';
+import { compareFlaggedPosts, reviewStatus } from '../../src/data/flags';
+import { normaliseTagName } from '../../src/utils/tags';
+import { badRequest, notFound } from '../errors';
+import { createAnswerStore } from './answers';
+import { createFlagStore } from './flags';
+import { createPostStore } from './posts';
+import { createQuestionStore } from './questions';
+import { createTagStore } from './tags';
+import { createUserStore } from './users';
+
+const postNames = { question: 'Question', answer: 'Answer', comment: 'Comment' } as const;
+
+// Every method checks the acting user is an admin before changing anything
+export const createModerationStore = (db: Database) => {
+  const users = createUserStore(db);
+  const questions = createQuestionStore(db);
+  const answers = createAnswerStore(db);
+  const tags = createTagStore(db);
+  const posts = createPostStore(db);
+  const flags = createFlagStore(db);
+
+  return {
+    listDeleted: (adminId: string): DeletedPosts => {
+      users.requireAdmin(adminId);
+      return { questions: questions.listDeleted(), answers: answers.listDeleted() };
+    },
+
+    // Hides the post and reverses the reputation it earned or cost; its pending flags count as helpful
+    deletePost: ({ postType, postId, adminId }: ModeratePostInput) => db.transaction(() => {
+      users.requireAdmin(adminId);
+      const post = posts.find(postType, postId);
+      if (!post || post.deleted_at) throw notFound(postNames[postType]);
+
+      posts.hide(postType, post);
+      flags.resolve(post.id, 'helpful', adminId);
+    })(),
+
+    // Brings the post back with the reputation its deletion reversed; its pending flags are declined
+    restorePost: ({ postType, postId, adminId }: ModeratePostInput) => db.transaction(() => {
+      users.requireAdmin(adminId);
+      const post = posts.find(postType, postId);
+      if (!post?.deleted_at) throw notFound(`Deleted ${postType}`);
+
+      posts.restore(postType, post);
+      flags.resolve(post.id, 'declined', adminId);
+    })(),
+
+    listFlagged: (adminId: string): FlaggedPost[] => {
+      users.requireAdmin(adminId);
+      const pending = flags.listPending();
+      return Array.from(new Set(pending.map(flag => flag.targetId))).flatMap(targetId => {
+        const postFlags = pending.filter(flag => flag.targetId === targetId);
+        const { targetType, questionId } = postFlags[0];
+        const post = posts.find(targetType, targetId);
+        if (!post) return [];
+        const question = db.prepare('SELECT title FROM questions WHERE id = ?').get(questionId) as { title: string };
+        return [{
+          targetId,
+          targetType,
+          questionId,
+          questionTitle: question.title,
+          content: post.content ?? post.description ?? '',
+          author: users.get(post.author_id)!,
+          hiddenAt: post.deleted_at ?? undefined,
+          flags: postFlags
+        }];
+      }).sort(compareFlaggedPosts);
+    },
+
+    // Resolves every pending flag on the post; declining brings back a post the flags hid
+    reviewFlags: ({ targetId, targetType, action, adminId }: ReviewFlagsInput) => db.transaction(() => {
+      users.requireAdmin(adminId);
+      const post = posts.find(targetType, targetId);
+      const pending = db.prepare("SELECT 1 FROM flags WHERE target_id = ? AND status = 'pending'").get(targetId);
+      if (!post || !pending) throw notFound(`Flagged ${targetType}`);
+
+      flags.resolve(targetId, reviewStatus(action), adminId);
+      if (action === 'decline' && post.deleted_at) {
+        posts.restore(targetType, post);
+      } else if (action === 'delete' && !post.deleted_at) {
+        posts.hide(targetType, post);
+      }
+    })(),
+
+    lockQuestion: ({ questionId, locked, adminId }: LockQuestionInput) => {
+      users.requireAdmin(adminId);
+      if (!questions.get(questionId)) throw notFound('Question');
+      if (locked) {
+        db.prepare('UPDATE questions SET locked_at = COALESCE(locked_at, ?) WHERE id = ?')
+          .run(new Date().toISOString(), questionId);
+      } else {
+        db.prepare('UPDATE questions SET locked_at = NULL WHERE id = ?').run(questionId);
+      }
+      return questions.get(questionId)!;
+    },
+
+    suspendUser: ({ userId, until, adminId }: SuspendUserInput) => {
+      const admin = users.requireAdmin(adminId);
+      const user = users.get(userId);
+      if (!user) throw notFound('User');
+      const problem = validateUserAction(admin, user, 'suspend') ?? (until === null ? null : validateSuspension(until));
+      if (problem) throw badRequest(problem);
+      return users.suspend(userId, until === null ? null : new Date(until).toISOString());
+    },
+
+    setRole: ({ userId, role, adminId }: SetRoleInput) => {
+      const admin = users.requireAdmin(adminId);
+      const user = users.get(userId);
+      if (!user) throw notFound('User');
+      const problem = ASSIGNABLE_ROLES.includes(role)
+        ? validateUserAction(admin, user, 'role')
+        : `Role must be one of ${ASSIGNABLE_ROLES.join(', ')}`;
+      if (problem) throw badRequest(problem);
+      return users.setRole(userId, role);
+    },
+
+    saveTag: ({ name: input, description, synonyms: names, adminId }: SaveTagInput) => db.transaction(() => {
+      users.requireAdmin(adminId);
+      const name = normaliseTagName(input);
+      const synonyms = Array.from(new Set(names.map(normaliseTagName).filter(Boolean)));
+      const problem = name ? validateSynonyms(name, synonyms, tags.records()) : 'Please provide a tag name';
+      if (problem) throw badRequest(problem);
+
+      tags.save(name, description?.trim() || undefined, synonyms);
+      return tags.get(name)!;
+    })(),
+
+    // Only tags no question uses, deleted questions included, can be removed
+    removeTag: (name: string, adminId: string) => {
+      users.requireAdmin(adminId);
+      if (!tags.records().some(tag => tag.name === name)) throw notFound('Tag');
+      const uses = tags.uses(name);
+      if (uses > 0) throw badRequest(`${name} is still used by ${uses} question${uses !== 1 ? 's' : ''}`);
+      tags.remove(name);
+    }
+  };
+};
@@ -0,0 +1,134 @@
+import { EventEmitter } from 'node:events';
+import type { Database } from 'better-sqlite3';
+import { Notification, NotificationSettings } from '../../src/types';
+import { NewNotificationInput, createId } from '../../src/data/repository';
+import { defaultSettings, isMuted, validateSettings } from '../../src/data/notifications';
+import { badRequest } from '../errors';
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: Notification['type'];
+  message: string;
+  related_id: string;
+  question_id: string | null;
+  question_title: string | null;
+  read: number;
+  created_at: string;
+}
+
+interface SettingsRow {
+  user_id: string;
+  muted_types: string;
+  muted_question_ids: string;
+}
+
+const toNotification = (row: NotificationRow): Notification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  message: row.message,
+  relatedId: row.related_id,
+  questionId: row.question_id ?? undefined,
+  questionTitle: row.question_title ?? undefined,
+  read: row.read === 1,
+  createdAt: row.created_at
+});
+
+const SELECT_NOTIFICATIONS = `
+  SELECT notifications.*, questions.title AS question_title
+  FROM notifications LEFT JOIN questions ON questions.id = notifications.question_id
+`;
+
+// Every store opens its own notification store, so open streams listen on one feed per database
+const feeds = new WeakMap<Database, EventEmitter>();
+
+const feedFor = (db: Database) => {
+  let feed = feeds.get(db);
+  if (!feed) {
+    feed = new EventEmitter().setMaxListeners(0);
+    feeds.set(db, feed);
+  }
+  return feed;
+};
+
+export const createNotificationStore = (db: Database) => {
+  const feed = feedFor(db);
+
+  const insert = (notification: Notification) => {
+    db.prepare(`
+      INSERT INTO notifications (id, user_id, type, message, related_id, question_id, read, created_at)
+      VALUES (@id, @userId, @type, @message, @relatedId, @questionId, @read, @createdAt)
+    `).run({ ...notification, questionId: notification.questionId ?? null, read: notification.read ? 1 : 0 });
+    // Deferred until the surrounding transaction has committed; listeners read what's new from the table
+    setImmediate(() => feed.emit(notification.userId));
+    return notification;
+  };
+
+  const getSettings = (userId: string): NotificationSettings => {
+    const row = db.prepare('SELECT * FROM notification_settings WHERE user_id = ?').get(userId) as SettingsRow | undefined;
+    return row
+      ? { userId, mutedTypes: JSON.parse(row.muted_types), mutedQuestionIds: JSON.parse(row.muted_question_ids) }
+      : defaultSettings(userId);
+  };
+
+  return {
+    listByUser: (userId: string) =>
+      (db.prepare(`${SELECT_NOTIFICATIONS} WHERE notifications.user_id = ? ORDER BY notifications.created_at DESC`)
+        .all(userId) as NotificationRow[]).map(toNotification),
+
+    // The user's notifications stored after the given one, oldest first; all of them when it isn't known
+    listAfter: (userId: string, lastId: string | null) =>
+      (db.prepare(`
+        ${SELECT_NOTIFICATIONS}
+        WHERE notifications.user_id = ? AND notifications.rowid > COALESCE((SELECT rowid FROM notifications WHERE id = ?), 0)
+        ORDER BY notifications.rowid
+      `).all(userId, lastId) as NotificationRow[]).map(toNotification),
+
+    latestId: (userId: string) =>
+      (db.prepare('SELECT id FROM notifications WHERE user_id = ? ORDER BY rowid DESC LIMIT 1')
+        .get(userId) as { id: string } | undefined)?.id ?? null,
+
+    // Called whenever the user may have something new for listAfter
+    watch: (userId: string, listener: () => void) => {
+      feed.on(userId, listener);
+      return () => {
+        feed.off(userId, listener);
+      };
+    },
+
+    insert,
+
+    // Null when the user muted its type or question
+    create: (input: NewNotificationInput) =>
+      isMuted(getSettings(input.userId), input)
+        ? null
+        : insert({ ...input, id: createId('n'), createdAt: new Date().toISOString() }),
+
+    markRead: (id: string, userId: string) => {
+      db.prepare('UPDATE notifications SET read = 1 WHERE id = ? AND user_id = ?').run(id, userId);
+    },
+
+    markAllRead: (userId: string) => {
+      db.prepare('UPDATE notifications SET read = 1 WHERE user_id = ?').run(userId);
+    },
+
+    getSettings,
+
+    saveSettings: ({ userId, mutedTypes, mutedQuestionIds }: NotificationSettings) => {
+      const problem = validateSettings({ mutedTypes });
+      if (problem) throw badRequest(problem);
+      db.prepare(`
+        INSERT INTO notification_settings (user_id, muted_types, muted_question_ids) VALUES (?, ?, ?)
+        ON CONFLICT (user_id) DO UPDATE SET
+          muted_types = excluded.muted_types,
+          muted_question_ids = excluded.muted_question_ids
+      `).run(
+        userId,
+        JSON.stringify(Array.from(new Set(mutedTypes))),
+        JSON.stringify(Array.from(new Set(mutedQuestionIds)))
+      );
+      return getSettings(userId);
+    }
+  };
+};
@@ -0,0 +1,65 @@
+import type { Database } from 'better-sqlite3';
+import { Flag } from '../../src/types';
+import { createReputationStore } from './reputation';
+
+export type PostType = Flag['targetType'];
+
+export interface PostRow {
+  id: string;
+  author_id: string;
+  // Missing on questions
+  question_id?: string;
+  // Questions have a description, answers and comments their content
+  description?: string;
+  content?: string;
+  deleted_at: string | null;
+}
+
+const postTables = { question: 'questions', answer: 'answers', comment: 'comments' } as const;
+
+// Deleting and restoring posts without checking who asks, for admins and for the flags that hide spam
+export const createPostStore = (db: Database) => {
+  const reputation = createReputationStore(db);
+
+  const countAnswer = (postType: PostType, post: PostRow, change: 1 | -1) => {
+    if (postType === 'answer') {
+      db.prepare('UPDATE questions SET answer_count = answer_count + ? WHERE id = ?').run(change, post.question_id);
+    }
+  };
+
+  // A hidden answer keeps is_accepted, so restoring it makes it the accepted answer again
+  const restoreAcceptance = (postType: PostType, post: PostRow) => {
+    if (postType !== 'answer') return;
+    const answer = db.prepare('SELECT is_accepted FROM answers WHERE id = ?').get(post.id) as { is_accepted: number };
+    if (answer.is_accepted) {
+      db.prepare('UPDATE questions SET accepted_answer_id = ? WHERE id = ?').run(post.id, post.question_id);
+    } else {
+      // Another answer was accepted meanwhile; take back the accept reputation the restore gave back
+      reputation.reverseSource(post.id);
+    }
+  };
+
+  return {
+    find: (postType: PostType, id: string) =>
+      db.prepare(`SELECT * FROM ${postTables[postType]} WHERE id = ?`).get(id) as PostRow | undefined,
+
+    // The reversals share the deletion's timestamp so restore can find them
+    hide: (postType: PostType, post: PostRow) => {
+      const now = new Date().toISOString();
+      db.prepare(`UPDATE ${postTables[postType]} SET deleted_at = ? WHERE id = ?`).run(now, post.id);
+      reputation.reversePost(post.id, now);
+      countAnswer(postType, post, -1);
+      if (postType === 'answer') {
+        db.prepare('UPDATE questions SET accepted_answer_id = NULL WHERE id = ? AND accepted_answer_id = ?')
+          .run(post.question_id, post.id);
+      }
+    },
+
+    restore: (postType: PostType, post: PostRow) => {
+      if (post.deleted_at) reputation.restorePost(post.id, post.deleted_at);
+      db.prepare(`UPDATE ${postTables[postType]} SET deleted_at = NULL WHERE id = ?`).run(post.id);
+      countAnswer(postType, post, 1);
+      restoreAcceptance(postType, post);
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import type { Database } from 'better-sqlite3';
+import { buildUserProfile } from '../../src/utils/profile';
+import { createAnswerStore } from './answers';
+import { createBadgeStore } from './badges';
+import { createCommentStore } from './comments';
+import { createQuestionStore } from './questions';
+import { createReputationStore } from './reputation';
+import { createUserStore } from './users';
+
+export const createProfileStore = (db: Database) => {
+  const users = createUserStore(db);
+  const questions = createQuestionStore(db);
+  const answers = createAnswerStore(db);
+  const comments = createCommentStore(db);
+  const reputation = createReputationStore(db);
+  const badges = createBadgeStore(db);
+
+  return {
+    get: (username: string) => {
+      const user = users.getByUsername(username);
+      return user
+        ? buildUserProfile(user, {
+          questions: questions.list(),
+          answers: answers.listByAuthor(user.id),
+          comments: comments.listByAuthor(user.id),
+          reputation: reputation.listByUser(user.id),
+          badges: badges.listByUser(user.id)
+        })
+        : null;
+    }
+  };
+};
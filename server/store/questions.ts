@@ -0,0 +1,297 @@
+import type { Database } from 'better-sqlite3';
+import { Question } from '../../src/types';
+import {
+  AcceptAnswerInput,
+  EditQuestionInput,
+  NewQuestionInput,
+  OfferBountyInput,
+  RecordViewInput,
+  RollbackInput,
+  acceptedMessage,
+  createId
+} from '../../src/data/repository';
+import { acceptReputation, validateBounty } from '../../src/data/reputation';
+import { LOCKED_QUESTION, validatePostText } from '../../src/data/moderation';
+import { badRequest, forbidden, notFound } from '../errors';
+import { validateTags } from '../../src/utils/tags';
+import { UserRow, createUserStore, toUser } from './users';
+import { createTagStore } from './tags';
+import { createNotificationStore } from './notifications';
+import { createReputationStore } from './reputation';
+import { createBadgeStore } from './badges';
+import { createRevisionStore } from './revisions';
+import { createMentionStore } from './mentions';
+import { rollbackSummary } from '../../src/data/revisions';
+import { VIEW_WINDOW, viewerKey } from '../../src/data/views';
+
+interface QuestionRow {
+  id: string;
+  title: string;
+  description: string;
+  author_id: string;
+  created_at: string;
+  updated_at: string;
+  views: number;
+  votes: number;
+  answer_count: number;
+  accepted_answer_id: string | null;
+  bounty: number | null;
+  locked_at: string | null;
+  deleted_at: string | null;
+}
+
+export const createQuestionStore = (db: Database) => {
+  const users = createUserStore(db);
+  const tags = createTagStore(db);
+  const notifications = createNotificationStore(db);
+  const reputation = createReputationStore(db);
+  const badges = createBadgeStore(db);
+  const revisions = createRevisionStore(db);
+  const mentions = createMentionStore(db);
+
+  const tagsFor = (ids: string[]) => {
+    const byQuestion = new Map<string, string[]>(ids.map(id => [id, []]));
+    const rows = db.prepare(`
+      SELECT question_id, tag_name FROM question_tags
+      WHERE question_id IN (SELECT value FROM json_each(?))
+      ORDER BY position
+    `).all(JSON.stringify(ids)) as { question_id: string; tag_name: string }[];
+    rows.forEach(row => byQuestion.get(row.question_id)?.push(row.tag_name));
+    return byQuestion;
+  };
+
+  const hydrate = (rows: QuestionRow[]): Question[] => {
+    const tagMap = tagsFor(rows.map(row => row.id));
+    const author = db.prepare('SELECT * FROM users WHERE id = ?');
+
+    return rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      tags: tagMap.get(row.id) ?? [],
+      authorId: row.author_id,
+      author: toUser(author.get(row.author_id) as UserRow),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      views: row.views,
+      votes: row.votes,
+      answerCount: row.answer_count,
+      acceptedAnswerId: row.accepted_answer_id ?? undefined,
+      bounty: row.bounty ?? undefined,
+      lockedAt: row.locked_at ?? undefined,
+      deletedAt: row.deleted_at ?? undefined
+    }));
+  };
+
+  // Deleted questions are only listed for admins, through listDeleted
+  const findLive = (id: string) =>
+    db.prepare('SELECT * FROM questions WHERE id = ? AND deleted_at IS NULL').get(id) as QuestionRow | undefined;
+
+  const get = (id: string) => {
+    const row = findLive(id);
+    return row ? hydrate([row])[0] : null;
+  };
+
+  const requireLive = (id: string) => {
+    const question = get(id);
+    if (!question) throw notFound('Question');
+    return question;
+  };
+
+  // Records the edit as a new revision
+  const update = ({ id, title, description, tags: names, summary, userId }: EditQuestionInput) => db.transaction(() => {
+    const question = requireLive(id);
+    const tagNames = tags.canonical(names);
+    const problem = validatePostText(title, 'title') ?? validatePostText(description, 'description') ??
+      validateTags(tagNames);
+    if (problem) throw badRequest(problem);
+
+    const now = new Date().toISOString();
+    const edit = { title: title.trim(), tags: tagNames, body: description, summary, userId };
+    revisions.record('question', question, question, edit, now);
+    db.prepare('UPDATE questions SET title = ?, description = ?, updated_at = ? WHERE id = ?')
+      .run(title.trim(), description, now, id);
+    tags.ensure(tagNames);
+    db.prepare('DELETE FROM question_tags WHERE question_id = ?').run(id);
+    const link = db.prepare('INSERT INTO question_tags (question_id, tag_name, position) VALUES (?, ?, ?)');
+    tagNames.forEach((tag, position) => link.run(id, tag, position));
+    return get(id)!;
+  })();
+
+  // Used by the seed to keep mock ids, counters and timestamps intact
+  const insert = (question: Omit<Question, 'author'>) => {
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO questions
+          (id, title, description, author_id, created_at, updated_at, views, votes, answer_count, accepted_answer_id)
+        VALUES
+          (@id, @title, @description, @authorId, @createdAt, @updatedAt, @views, @votes, @answerCount, @acceptedAnswerId)
+      `).run({ ...question, acceptedAnswerId: question.acceptedAnswerId ?? null });
+
+      tags.ensure(question.tags);
+      const link = db.prepare('INSERT INTO question_tags (question_id, tag_name, position) VALUES (?, ?, ?)');
+      question.tags.forEach((tag, position) => link.run(question.id, tag, position));
+    })();
+  };
+
+  return {
+    list: () =>
+      hydrate(db.prepare('SELECT * FROM questions WHERE deleted_at IS NULL ORDER BY created_at DESC')
+        .all() as QuestionRow[]),
+
+    listDeleted: () =>
+      hydrate(db.prepare('SELECT * FROM questions WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC')
+        .all() as QuestionRow[]),
+
+    get,
+
+    // A question that can still take answers, comments and votes
+    requireOpen: (id: string) => {
+      const row = findLive(id);
+      if (!row) throw notFound('Question');
+      if (row.locked_at) throw forbidden(LOCKED_QUESTION);
+      return row;
+    },
+
+    insert,
+
+    create: (input: NewQuestionInput) => {
+      users.requireActive(input.authorId);
+      const tagNames = tags.canonical(input.tags);
+      const problem = validatePostText(input.title, 'title') ?? validatePostText(input.description, 'description') ??
+        validateTags(tagNames);
+      if (problem) throw badRequest(problem);
+
+      const now = new Date().toISOString();
+      const id = createId('q');
+      db.transaction(() => {
+        insert({
+          id,
+          title: input.title,
+          description: input.description,
+          tags: tagNames,
+          authorId: input.authorId,
+          createdAt: now,
+          updatedAt: now,
+          views: 0,
+          votes: 0,
+          answerCount: 0
+        });
+        badges.evaluate(input.authorId);
+        mentions.notify(input.description, 'question', {
+          id,
+          authorId: input.authorId,
+          questionId: id,
+          questionTitle: input.title
+        }, []);
+      })();
+      return get(id)!;
+    },
+
+    // Accepting the already-accepted answer un-accepts it
+    acceptAnswer: ({ questionId, answerId, userId }: AcceptAnswerInput) => db.transaction(() => {
+      const question = findLive(questionId);
+      const answer = db.prepare(`
+        SELECT id, author_id FROM answers WHERE id = ? AND question_id = ? AND deleted_at IS NULL
+      `).get(answerId, questionId) as { id: string; author_id: string } | undefined;
+      if (!question || !answer) throw notFound('Answer');
+      if (question.author_id !== userId) throw forbidden('Only the question author can accept an answer');
+      users.requireActive(userId);
+
+      // A hidden answer that was accepted loses it for good once another answer is accepted
+      const previous = db.prepare('SELECT id, author_id FROM answers WHERE question_id = ? AND is_accepted = 1')
+        .get(questionId) as { id: string; author_id: string } | undefined;
+      if (previous) {
+        db.prepare('UPDATE answers SET is_accepted = 0 WHERE id = ?').run(previous.id);
+        reputation.reverseSource(previous.id);
+      }
+
+      if (previous?.id === answer.id) {
+        db.prepare('UPDATE questions SET accepted_answer_id = NULL WHERE id = ?').run(questionId);
+      } else {
+        db.prepare('UPDATE answers SET is_accepted = 1 WHERE id = ?').run(answer.id);
+        db.prepare('UPDATE questions SET accepted_answer_id = ? WHERE id = ?').run(answer.id, questionId);
+        reputation.record(acceptReputation(
+          { id: questionId, authorId: question.author_id },
+          { id: answer.id, authorId: answer.author_id }
+        ));
+        if (question.bounty && answer.author_id !== question.author_id) {
+          reputation.record([{
+            userId: answer.author_id,
+            reason: 'bounty_awarded',
+            amount: question.bounty,
+            postId: answer.id,
+            questionId,
+            sourceId: questionId
+          }]);
+          db.prepare('UPDATE questions SET bounty = NULL WHERE id = ?').run(questionId);
+        }
+        badges.evaluate(answer.author_id);
+        if (answer.author_id !== userId) {
+          notifications.create({
+            userId: answer.author_id,
+            type: 'accept',
+            message: acceptedMessage(question.title),
+            relatedId: answer.id,
+            questionId,
+            read: false
+          });
+        }
+      }
+      return get(questionId)!;
+    })(),
+
+    offerBounty: ({ questionId, amount, userId }: OfferBountyInput) => db.transaction(() => {
+      const question = findLive(questionId);
+      if (!question) throw notFound('Question');
+      if (question.author_id !== userId) throw forbidden('Only the question author can offer a bounty');
+      if (question.bounty) throw badRequest('This question already has an open bounty');
+      const problem = validateBounty(amount, users.requireActive(userId).reputation);
+      if (problem) throw badRequest(problem);
+
+      reputation.record([{
+        userId,
+        reason: 'bounty_offered',
+        amount: -amount,
+        postId: questionId,
+        questionId,
+        sourceId: questionId
+      }]);
+      db.prepare('UPDATE questions SET bounty = ? WHERE id = ?').run(amount, questionId);
+      return get(questionId)!;
+    })(),
+
+    update,
+
+    listRevisions: (id: string) => revisions.listByPost('question', requireLive(id)),
+
+    // Restores an earlier revision's title, tags and description as a new revision
+    rollback: ({ id, revisionId, userId }: RollbackInput) => {
+      const revision = revisions.get(id, revisionId);
+      return update({
+        id,
+        title: revision.title ?? '',
+        description: revision.body,
+        tags: revision.tags ?? [],
+        summary: rollbackSummary(revision),
+        userId
+      });
+    },
+
+    // Once views past the window are pruned, a view counts if the viewer has none left on record
+    recordView: (input: RecordViewInput) => db.transaction(() => {
+      const question = findLive(input.questionId);
+      if (!question) throw notFound('Question');
+
+      const now = Date.now();
+      db.prepare('DELETE FROM question_views WHERE viewed_at <= ?').run(new Date(now - VIEW_WINDOW).toISOString());
+      const { changes } = db.prepare(`
+        INSERT OR IGNORE INTO question_views (question_id, viewer, viewed_at) VALUES (?, ?, ?)
+      `).run(question.id, viewerKey(input), new Date(now).toISOString());
+      if (!changes) return;
+
+      db.prepare('UPDATE questions SET views = views + 1 WHERE id = ?').run(question.id);
+      badges.evaluate(question.author_id);
+    })()
+  };
+};
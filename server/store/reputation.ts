@@ -0,0 +1,85 @@
+import type { Database } from 'better-sqlite3';
+import { ReputationEvent, User } from '../../src/types';
+import {
+  PendingReputationEvent,
+  recordReputation,
+  restorePostReputation,
+  reversePostReputation,
+  reverseReputation,
+  startingBalance
+} from '../../src/data/reputation';
+
+interface ReputationRow {
+  id: string;
+  user_id: string;
+  reason: ReputationEvent['reason'];
+  amount: number;
+  post_id: string;
+  question_id: string;
+  source_id: string;
+  created_at: string;
+  reverses: string | null;
+}
+
+const toEvent = (row: ReputationRow): ReputationEvent => ({
+  id: row.id,
+  userId: row.user_id,
+  reason: row.reason,
+  amount: row.amount,
+  postId: row.post_id,
+  questionId: row.question_id,
+  sourceId: row.source_id,
+  createdAt: row.created_at,
+  reverses: row.reverses ?? undefined
+});
+
+// Callers run these inside their own transaction, next to the change that earned the reputation
+export const createReputationStore = (db: Database) => {
+  const select = (where: string, ...values: string[]) =>
+    (db.prepare(`SELECT * FROM reputation_events WHERE ${where} ORDER BY created_at, rowid`)
+      .all(...values) as ReputationRow[]).map(toEvent);
+
+  // Appends ledger entries and recomputes the totals of everyone they touch
+  const apply = (entries: ReputationEvent[]) => {
+    const insert = db.prepare(`
+      INSERT INTO reputation_events
+        (id, user_id, reason, amount, post_id, question_id, source_id, created_at, reverses)
+      VALUES
+        (@id, @userId, @reason, @amount, @postId, @questionId, @sourceId, @createdAt, @reverses)
+    `);
+    entries.forEach(entry => insert.run({ ...entry, reverses: entry.reverses ?? null }));
+
+    const recompute = db.prepare(`
+      UPDATE users SET reputation = (SELECT COALESCE(SUM(amount), 0) FROM reputation_events WHERE user_id = users.id)
+      WHERE id = ?
+    `);
+    new Set(entries.map(entry => entry.userId)).forEach(userId => recompute.run(userId));
+  };
+
+  return {
+    listByUser: (userId: string) => select('user_id = ?', userId),
+
+    record: (pending: PendingReputationEvent[]) => {
+      const now = new Date().toISOString();
+      // Only today's entries can count towards the daily cap
+      const today = Array.from(new Set(pending.map(entry => entry.userId)))
+        .flatMap(userId => select('user_id = ? AND created_at >= ?', userId, now.slice(0, 10)));
+      apply(recordReputation(today, pending, now));
+    },
+
+    // Reverses what a vote, accept or bounty earned
+    reverseSource: (sourceId: string) =>
+      apply(reverseReputation(select('source_id = ?', sourceId), entry => entry.sourceId === sourceId)),
+
+    // now is shared with the deletion so restorePost can find these reversals again
+    reversePost: (postId: string, now?: string) =>
+      apply(reversePostReputation(select('post_id = ?', postId), postId, now)),
+
+    restorePost: (postId: string, deletedAt: string) =>
+      apply(restorePostReputation(select('post_id = ?', postId), postId, deletedAt)),
+
+    recordStartingBalance: (user: User) => {
+      if (user.reputation !== 0) apply([startingBalance(user)]);
+    }
+  };
+};
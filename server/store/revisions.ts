@@ -0,0 +1,98 @@
+import type { Database } from 'better-sqlite3';
+import { Answer, Question, Revision } from '../../src/types';
+import { createId } from '../../src/data/repository';
+import {
+  NO_CHANGES,
+  RevisionContent,
+  editProblem,
+  editRevisions,
+  initialRevision,
+  isUnchanged,
+  validateEditSummary
+} from '../../src/data/revisions';
+import { badRequest, forbidden, notFound } from '../errors';
+import { UserRow, createUserStore, toUser } from './users';
+
+interface RevisionRow {
+  id: string;
+  post_id: string;
+  post_type: Revision['postType'];
+  number: number;
+  title: string | null;
+  tags: string | null;
+  body: string;
+  author_id: string;
+  summary: string;
+  created_at: string;
+}
+
+export const createRevisionStore = (db: Database) => {
+  const users = createUserStore(db);
+
+  const hydrate = (rows: RevisionRow[]): Revision[] => {
+    const author = db.prepare('SELECT * FROM users WHERE id = ?');
+
+    return rows.map(row => ({
+      id: row.id,
+      postId: row.post_id,
+      postType: row.post_type,
+      number: row.number,
+      title: row.title ?? undefined,
+      tags: row.tags ? JSON.parse(row.tags) as string[] : undefined,
+      body: row.body,
+      authorId: row.author_id,
+      author: toUser(author.get(row.author_id) as UserRow),
+      summary: row.summary,
+      createdAt: row.created_at
+    }));
+  };
+
+  const history = (postId: string) =>
+    hydrate(db.prepare('SELECT * FROM revisions WHERE post_id = ? ORDER BY number').all(postId) as RevisionRow[]);
+
+  return {
+    // Oldest first; posts never edited get their first revision made up from the post itself
+    listByPost: (postType: Revision['postType'], post: Question | Answer): Revision[] => {
+      const revisions = history(post.id);
+      return revisions.length > 0
+        ? revisions
+        : [{ ...initialRevision(postType, post), id: createId('rv'), author: post.author }];
+    },
+
+    get: (postId: string, revisionId: string) => {
+      const revision = history(postId).find(r => r.id === revisionId);
+      if (!revision) throw notFound('Revision');
+      return revision;
+    },
+
+    // Checks the user may make the edit and records it; the caller applies it to the post
+    record: (
+      postType: Revision['postType'],
+      post: Question | Answer,
+      question: Pick<Question, 'lockedAt'>,
+      edit: RevisionContent & { summary: string; userId: string },
+      now: string
+    ) => {
+      const user = users.get(edit.userId);
+      if (!user) throw notFound('User');
+      const problem = editProblem(user, post, question);
+      if (problem) throw forbidden(problem);
+      const summaryProblem = validateEditSummary(edit.summary);
+      if (summaryProblem) throw badRequest(summaryProblem);
+      if (isUnchanged(post, edit)) throw badRequest(NO_CHANGES);
+
+      const insert = db.prepare(`
+        INSERT INTO revisions (id, post_id, post_type, number, title, tags, body, author_id, summary, created_at)
+        VALUES (@id, @postId, @postType, @number, @title, @tags, @body, @authorId, @summary, @createdAt)
+      `);
+      editRevisions(postType, post, history(post.id), { ...edit, authorId: edit.userId }, now).forEach(pending => {
+        insert.run({
+          ...pending,
+          id: createId('rv'),
+          title: pending.title ?? null,
+          tags: pending.tags ? JSON.stringify(pending.tags) : null
+        });
+      });
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import type { Database } from 'better-sqlite3';
+import { SearchIndex, createSearchIndex, searchQuestions, toSearchDocuments } from '../../src/utils/searchIndex';
+import { QuestionDraft, findSimilarQuestions } from '../../src/utils/similarity';
+import { createQuestionStore } from './questions';
+
+export const createSearchStore = (db: Database) => {
+  const questions = createQuestionStore(db);
+  let cached: { version: number; index: SearchIndex } | null = null;
+
+  // Triggers bump this whenever a question, its tags or an answer is added, edited, deleted or restored,
+  // so the index can be reused until then
+  const textVersion = () =>
+    (db.prepare('SELECT version FROM search_version').get() as { version: number }).version;
+
+  return {
+    // Counters and acceptance are always read fresh; only the text index is cached
+    questions: (query: string) => {
+      const all = questions.list();
+      const version = textVersion();
+      if (cached?.version !== version) {
+        const answers = db.prepare('SELECT question_id AS questionId, content FROM answers WHERE deleted_at IS NULL')
+          .all() as { questionId: string; content: string }[];
+        cached = { version, index: createSearchIndex(toSearchDocuments(all, answers)) };
+      }
+      return searchQuestions(cached.index, all, query);
+    },
+
+    similar: (draft: QuestionDraft) => findSimilarQuestions(draft, questions.list())
+  };
+};
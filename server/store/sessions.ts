@@ -0,0 +1,50 @@
+import type { Database } from 'better-sqlite3';
+import { StoredSession } from '../../src/data/auth';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  access_token_hash: string;
+  refresh_token_hash: string;
+  access_expires_at: string;
+  refresh_expires_at: string;
+  created_at: string;
+}
+
+const toSession = (row: SessionRow): StoredSession => ({
+  id: row.id,
+  userId: row.user_id,
+  accessTokenHash: row.access_token_hash,
+  refreshTokenHash: row.refresh_token_hash,
+  accessExpiresAt: row.access_expires_at,
+  refreshExpiresAt: row.refresh_expires_at,
+  createdAt: row.created_at
+});
+
+export const createSessionStore = (db: Database) => {
+  const findOne = (column: string, value: string) => {
+    const row = db.prepare(`SELECT * FROM sessions WHERE ${column} = ?`).get(value) as SessionRow | undefined;
+    return row ? toSession(row) : null;
+  };
+
+  return {
+    findByAccessHash: (hash: string) => findOne('access_token_hash', hash),
+
+    findByRefreshHash: (hash: string) => findOne('refresh_token_hash', hash),
+
+    create: (session: StoredSession) => {
+      // Drop sessions that can no longer be refreshed while we're here
+      db.prepare('DELETE FROM sessions WHERE refresh_expires_at <= ?').run(new Date().toISOString());
+      db.prepare(`
+        INSERT INTO sessions
+          (id, user_id, access_token_hash, refresh_token_hash, access_expires_at, refresh_expires_at, created_at)
+        VALUES
+          (@id, @userId, @accessTokenHash, @refreshTokenHash, @accessExpiresAt, @refreshExpiresAt, @createdAt)
+      `).run(session);
+    },
+
+    remove: (id: string) => {
+      db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+    }
+  };
+};
@@ -0,0 +1,96 @@
+import type { Database } from 'better-sqlite3';
+import { Tag } from '../../src/types';
+import { TagRecord, createId } from '../../src/data/repository';
+import { canonicalTagName, canonicalTagNames, tagColor } from '../../src/utils/tags';
+
+interface TagRow {
+  id: string;
+  name: string;
+  description: string | null;
+  count: number;
+}
+
+export const createTagStore = (db: Database) => {
+  const insert = db.prepare('INSERT OR IGNORE INTO tags (id, name, description, color) VALUES (?, ?, ?, ?)');
+
+  const synonymsByTag = () => {
+    const rows = db.prepare('SELECT synonym, tag_name FROM tag_synonyms ORDER BY synonym')
+      .all() as { synonym: string; tag_name: string }[];
+    const byTag = new Map<string, string[]>();
+    rows.forEach(row => byTag.set(row.tag_name, [...(byTag.get(row.tag_name) ?? []), row.synonym]));
+    return byTag;
+  };
+
+  // Colours are derived from the name, so they match the client even for rows stored before that
+  const hydrate = (rows: TagRow[]): Tag[] => {
+    const synonyms = synonymsByTag();
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      synonyms: synonyms.get(row.name) ?? [],
+      count: row.count,
+      color: tagColor(row.name)
+    }));
+  };
+
+  const records = () => {
+    const synonyms = synonymsByTag();
+    return (db.prepare('SELECT name FROM tags').all() as { name: string }[])
+      .map(({ name }) => ({ name, synonyms: synonyms.get(name) ?? [] }));
+  };
+
+  // Deleted questions keep their tags but aren't counted
+  const selectWithCount = `
+    SELECT t.id, t.name, t.description, COUNT(q.id) AS count
+    FROM tags t
+    LEFT JOIN question_tags qt ON qt.tag_name = t.name
+    LEFT JOIN questions q ON q.id = qt.question_id AND q.deleted_at IS NULL
+  `;
+
+  return {
+    list: () =>
+      hydrate(db.prepare(`${selectWithCount} GROUP BY t.id ORDER BY count DESC, t.name`).all() as TagRow[]),
+
+    // Looks the name up as a tag or as one of its synonyms
+    get: (name: string) => {
+      const row = db.prepare(`${selectWithCount} WHERE t.name = ? GROUP BY t.id`)
+        .get(canonicalTagName(name, records())) as TagRow | undefined;
+      return row ? hydrate([row])[0] : null;
+    },
+
+    records,
+
+    // Normalised names with synonyms replaced by their canonical tag
+    canonical: (names: string[]) => canonicalTagNames(names, records()),
+
+    // Registers any tag names not seen before
+    ensure: (names: string[]) => {
+      names.forEach(name => insert.run(createId('t'), name, null, tagColor(name)));
+    },
+
+    // Sets the description and replaces the synonyms, registering the tag if it's new
+    save: (name: string, description: string | undefined, synonyms: string[]) => {
+      insert.run(createId('t'), name, null, tagColor(name));
+      db.prepare('UPDATE tags SET description = ? WHERE name = ?').run(description ?? null, name);
+      db.prepare('DELETE FROM tag_synonyms WHERE tag_name = ?').run(name);
+      const link = db.prepare('INSERT INTO tag_synonyms (synonym, tag_name) VALUES (?, ?)');
+      synonyms.forEach(synonym => link.run(synonym, name));
+    },
+
+    // Counts questions using the tag, deleted ones included
+    uses: (name: string) =>
+      (db.prepare('SELECT COUNT(*) AS uses FROM question_tags WHERE tag_name = ?').get(name) as { uses: number }).uses,
+
+    remove: (name: string) => {
+      db.prepare('DELETE FROM tags WHERE name = ?').run(name);
+    },
+
+    // Used by the seed to load the registry with descriptions and synonyms
+    define: (tag: TagRecord) => {
+      insert.run(tag.id, tag.name, tag.description ?? null, tagColor(tag.name));
+      const link = db.prepare('INSERT OR IGNORE INTO tag_synonyms (synonym, tag_name) VALUES (?, ?)');
+      tag.synonyms.forEach(synonym => link.run(synonym, tag.name));
+    }
+  };
+};
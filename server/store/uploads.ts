@@ -0,0 +1,58 @@
+import type { Database } from 'better-sqlite3';
+import sharp from 'sharp';
+import { createId } from '../../src/data/repository';
+import { MAX_IMAGE_DIMENSION, THUMBNAIL_DIMENSION, validateImage } from '../../src/data/uploads';
+import { badRequest } from '../errors';
+import { createUserStore } from './users';
+
+export interface StoredImage {
+  id: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageFile {
+  contentType: string;
+  data: Buffer;
+}
+
+// Fits the image inside a square of the given size, turned upright; GIFs keep their frames
+const scaleDown = (data: Buffer, contentType: string, size: number) =>
+  sharp(data, { animated: contentType === 'image/gif' })
+    .rotate()
+    .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+    .toBuffer();
+
+export const createUploadStore = (db: Database) => {
+  const users = createUserStore(db);
+
+  return {
+    // Checks the bytes really are the image type claimed before scaling it down and making its thumbnail
+    saveImage: async (userId: string, { contentType, data }: ImageFile): Promise<StoredImage> => {
+      users.requireActive(userId);
+      const problem = validateImage({ type: contentType, size: data.length });
+      if (problem) throw badRequest(problem);
+
+      const format = await sharp(data).metadata().then(metadata => metadata.format, () => undefined);
+      if (`image/${format}` !== contentType) throw badRequest('That file is not an image we can read');
+
+      const image = await scaleDown(data, contentType, MAX_IMAGE_DIMENSION);
+      const thumbnail = await scaleDown(data, contentType, THUMBNAIL_DIMENSION);
+      // The height of one frame, for animated GIFs
+      const { width = 0, pageHeight, height = 0 } = await sharp(image).metadata();
+
+      const stored = { id: createId('img'), width, height: pageHeight ?? height };
+      db.prepare(`
+        INSERT INTO uploads (id, user_id, content_type, width, height, data, thumbnail, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(stored.id, userId, contentType, stored.width, stored.height, image, thumbnail, new Date().toISOString());
+      return stored;
+    },
+
+    get: (id: string, variant: 'image' | 'thumbnail' = 'image'): ImageFile | null => {
+      const row = db.prepare(`SELECT content_type, ${variant === 'image' ? 'data' : 'thumbnail'} AS data FROM uploads WHERE id = ?`)
+        .get(id) as { content_type: string; data: Buffer } | undefined;
+      return row ? { contentType: row.content_type, data: row.data } : null;
+    }
+  };
+};
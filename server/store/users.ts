@@ -0,0 +1,95 @@
+import type { Database } from 'better-sqlite3';
+import { User } from '../../src/types';
+import { ADMIN_ONLY, isAdmin, isSuspended, suspendedMessage } from '../../src/data/moderation';
+import { forbidden, notFound } from '../errors';
+
+export interface UserRow {
+  id: string;
+  username: string;
+  email: string;
+  role: User['role'];
+  avatar: string | null;
+  join_date: string;
+  reputation: number;
+  gold_badges: number;
+  silver_badges: number;
+  bronze_badges: number;
+  suspended_until: string | null;
+}
+
+export const toUser = (row: UserRow): User => ({
+  id: row.id,
+  username: row.username,
+  role: row.role,
+  avatar: row.avatar ?? undefined,
+  joinDate: row.join_date,
+  reputation: row.reputation,
+  badgeCounts: { gold: row.gold_badges, silver: row.silver_badges, bronze: row.bronze_badges },
+  suspendedUntil: row.suspended_until ?? undefined
+});
+
+// Only the signed-in user's own account carries their email
+export const toAccount = (row: UserRow): User => ({ ...toUser(row), email: row.email });
+
+export const createUserStore = (db: Database) => {
+  const findOne = (where: string, value: string, map = toUser) => {
+    const row = db.prepare(`SELECT * FROM users WHERE ${where} = ?`).get(value) as UserRow | undefined;
+    return row ? map(row) : null;
+  };
+
+  const requireUser = (id: string) => {
+    const user = findOne('id', id);
+    if (!user) throw notFound('User');
+    return user;
+  };
+
+  return {
+    list: () => (db.prepare('SELECT * FROM users ORDER BY join_date').all() as UserRow[]).map(toUser),
+
+    get: (id: string) => findOne('id', id),
+
+    getAccount: (id: string) => findOne('id', id, toAccount),
+
+    getByUsername: (username: string) => findOne('username', username),
+
+    getByEmail: (email: string) => findOne('email', email),
+
+    create: (user: User, passwordHash: string) => {
+      db.prepare(`
+        INSERT INTO users (id, username, email, role, avatar, join_date, reputation, password_hash)
+        VALUES (@id, @username, @email, @role, @avatar, @joinDate, @reputation, @passwordHash)
+      `).run({ ...user, avatar: user.avatar ?? null, passwordHash });
+      return user;
+    },
+
+    // Suspended users can read but not post or vote
+    requireActive: (id: string) => {
+      const user = requireUser(id);
+      if (isSuspended(user)) throw forbidden(suspendedMessage(user));
+      return user;
+    },
+
+    requireAdmin: (id: string) => {
+      const user = requireUser(id);
+      if (!isAdmin(user)) throw forbidden(ADMIN_ONLY);
+      return user;
+    },
+
+    setRole: (id: string, role: User['role']) => {
+      db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+      return requireUser(id);
+    },
+
+    // null lifts the suspension
+    suspend: (id: string, until: string | null) => {
+      db.prepare('UPDATE users SET suspended_until = ? WHERE id = ?').run(until, id);
+      return requireUser(id);
+    },
+
+    getPasswordHash: (userId: string) => {
+      const row = db.prepare('SELECT password_hash FROM users WHERE id = ?').get(userId) as
+        { password_hash: string | null } | undefined;
+      return row?.password_hash ?? null;
+    }
+  };
+};
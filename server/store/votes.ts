@@ -0,0 +1,86 @@
+import type { Database } from 'better-sqlite3';
+import { Vote } from '../../src/types';
+import { CastVoteInput, CastVoteResult, createId, voteValue } from '../../src/data/repository';
+import { voteReputation } from '../../src/data/reputation';
+import { badRequest, forbidden, notFound } from '../errors';
+import { createReputationStore } from './reputation';
+import { createBadgeStore } from './badges';
+import { createQuestionStore } from './questions';
+import { createUserStore } from './users';
+
+interface VoteRow {
+  id: string;
+  user_id: string;
+  target_id: string;
+  target_type: Vote['targetType'];
+  type: Vote['type'];
+}
+
+const toVote = (row: VoteRow): Vote => ({
+  id: row.id,
+  userId: row.user_id,
+  targetId: row.target_id,
+  targetType: row.target_type,
+  type: row.type
+});
+
+const targetTables = { question: 'questions', answer: 'answers', comment: 'comments' } as const;
+const targetNames = { question: 'Question', answer: 'Answer', comment: 'Comment' } as const;
+
+export const createVoteStore = (db: Database) => {
+  const users = createUserStore(db);
+  const questions = createQuestionStore(db);
+  const reputation = createReputationStore(db);
+  const badges = createBadgeStore(db);
+
+  const find = (userId: string, targetId: string) => {
+    const row = db.prepare('SELECT * FROM votes WHERE user_id = ? AND target_id = ?')
+      .get(userId, targetId) as VoteRow | undefined;
+    return row ? toVote(row) : null;
+  };
+
+  return {
+    listByUser: (userId: string) =>
+      (db.prepare('SELECT * FROM votes WHERE user_id = ?').all(userId) as VoteRow[]).map(toVote),
+
+    // Keeps the target's vote total in step with the votes table
+    cast: (input: CastVoteInput): CastVoteResult => db.transaction(() => {
+      const table = targetTables[input.targetType];
+      const target = db.prepare(`SELECT * FROM ${table} WHERE id = ?`)
+        .get(input.targetId) as { author_id: string; question_id?: string; deleted_at?: string | null } | undefined;
+      if (!target || target.deleted_at) throw notFound(targetNames[input.targetType]);
+      questions.requireOpen(target.question_id ?? input.targetId);
+      users.requireActive(input.userId);
+      if (target.author_id === input.userId) throw forbidden("You can't vote on your own post");
+      if (input.targetType === 'comment' && input.type === 'down') throw badRequest('Comments can only be upvoted');
+
+      const existing = find(input.userId, input.targetId);
+      const delta = voteValue(input.type) - voteValue(existing?.type);
+      db.prepare(`UPDATE ${table} SET votes = votes + ? WHERE id = ?`).run(delta, input.targetId);
+
+      if (input.type === null) {
+        db.prepare('DELETE FROM votes WHERE user_id = ? AND target_id = ?').run(input.userId, input.targetId);
+      } else {
+        db.prepare(`
+          INSERT INTO votes (id, user_id, target_id, target_type, type)
+          VALUES (@id, @userId, @targetId, @targetType, @type)
+          ON CONFLICT (user_id, target_id) DO UPDATE SET type = excluded.type
+        `).run({ ...input, id: createId('v') });
+      }
+
+      if (existing) reputation.reverseSource(existing.id);
+      const vote = find(input.userId, input.targetId);
+      if (vote) {
+        reputation.record(voteReputation(vote, {
+          authorId: target.author_id,
+          questionId: target.question_id ?? input.targetId
+        }));
+      }
+
+      badges.evaluate(target.author_id);
+
+      const { votes } = db.prepare(`SELECT votes FROM ${table} WHERE id = ?`).get(input.targetId) as { votes: number };
+      return { vote, votes };
+    })()
+  };
+};
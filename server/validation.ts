@@ -0,0 +1,43 @@
+import { badRequest } from './errors';
+
+type Body = Record<string, unknown>;
+
+export const requireString = (body: Body, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw badRequest(`${field} is required`);
+  }
+  return value.trim();
+};
+
+export const requireNumber = (body: Body, field: string): number => {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw badRequest(`${field} must be a number`);
+  }
+  return value;
+};
+
+export const requireStringArray = (body: Body, field: string): string[] => {
+  const value = body[field];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw badRequest(`${field} must be a list of strings`);
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+};
+
+export const requireOneOf = <T extends string>(body: Body, field: string, allowed: readonly T[]): T => {
+  const value = body[field];
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw badRequest(`${field} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const requireBoolean = (body: Body, field: string): boolean => {
+  const value = body[field];
+  if (typeof value !== 'boolean') {
+    throw badRequest(`${field} must be true or false`);
+  }
+  return value;
+};
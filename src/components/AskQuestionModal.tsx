@@ -1,9 +1,17 @@
-import React, { useState } from 'react';
-import { X, Plus } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Check, MessageSquare, ArrowUp, AlertTriangle } from 'lucide-react';
+import { DraftPrompt } from './DraftPrompt';
 import { RichTextEditor } from './RichTextEditor';
 import { useAuth } from '../contexts/AuthContext';
-import { useNotifications } from '../hooks/useNotifications';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useDraft } from '../hooks/useDraft';
+import { useMentionSuggestions } from '../hooks/useMentionSuggestions';
+import { useSimilarQuestions } from '../hooks/useSimilarQuestions';
+import { useTags } from '../hooks/useTags';
 import { Question } from '../types';
+import { MAX_TAGS, canonicalTagName, suggestTags, tagColor, validateTags } from '../utils/tags';
+import { SimilarQuestion, isLikelyDuplicate } from '../utils/similarity';
+import { questionPath } from '../utils/routes';
 
 interface AskQuestionModalProps {
   isOpen: boolean;
@@ -17,18 +25,48 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
   onQuestionSubmitted 
 }) => {
   const { user } = useAuth();
-  const { processMentions } = useNotifications();
+  const repository = useRepository();
+  const { suggestMentions, checkMentions } = useMentionSuggestions();
+  const tags = useTags();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     tags: [] as string[]
   });
   const [newTag, setNewTag] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  // Shown when a typed synonym was swapped for its canonical tag
+  const [tagHint, setTagHint] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  // The likely duplicate shown for confirmation before posting
+  const [duplicate, setDuplicate] = useState<SimilarQuestion | null>(null);
+  const similar = useSimilarQuestions(formData, isOpen);
+  const draft = useDraft(
+    { type: 'question' },
+    { title: formData.title, body: formData.description, tags: formData.tags },
+    isOpen
+  );
+
+  // Start each visit with an empty form; whatever was left is offered back as a draft
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({ title: '', description: '', tags: [] });
+    setNewTag('');
+    setTagHint('');
+    setError('');
+    setDuplicate(null);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  const restoreDraft = () => {
+    const saved = draft.restore();
+    if (saved) {
+      setFormData({ title: saved.title ?? '', description: saved.body, tags: saved.tags ?? [] });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -42,61 +80,69 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
       setError('Please provide a description for your question');
       return;
     }
-    if (formData.tags.length === 0) {
-      setError('Please add at least one tag');
+    const tagError = validateTags(formData.tags);
+    if (tagError) {
+      setError(tagError);
       return;
     }
 
     setError('');
+    const likelyDuplicate = similar.find(isLikelyDuplicate);
+    if (likelyDuplicate) {
+      setDuplicate(likelyDuplicate);
+      return;
+    }
+
+    await postQuestion();
+  };
+
+  const postQuestion = async () => {
+    if (!user) return;
+
+    setDuplicate(null);
     setIsSubmitting(true);
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Create new question object
-      const newQuestion: Question = {
-        id: `q${Date.now()}`,
+      const newQuestion = await repository.questions.create({
         title: formData.title.trim(),
         description: formData.description.trim(),
         tags: formData.tags,
-        authorId: user.id,
-        author: user,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        views: 0,
-        votes: 0,
-        answerCount: 0
-      };
-      
-      // Process mentions in the question description
-      processMentions(formData.description, newQuestion.id, 'answer');
+        authorId: user.id
+      });
       
       // Add question to the list
       onQuestionSubmitted(newQuestion);
+      draft.clear();
       
       // Reset form and close modal
       setFormData({ title: '', description: '', tags: [] });
       setNewTag('');
+      setTagHint('');
       onClose();
       
       console.log('Question submitted successfully:', newQuestion);
     } catch (error) {
       console.error('Error submitting question:', error);
-      setError('Failed to submit question. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to submit question. Please try again.');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const addTag = () => {
-    if (newTag.trim() && !formData.tags.includes(newTag.trim()) && formData.tags.length < 5) {
+  const suggestions = suggestTags(newTag, tags).filter(tag => !formData.tags.includes(tag.name));
+
+  const addTag = (name = newTag) => {
+    const canonical = canonicalTagName(name, tags);
+    if (canonical && !formData.tags.includes(canonical) && formData.tags.length < MAX_TAGS) {
       setFormData(prev => ({
         ...prev,
-        tags: [...prev.tags, newTag.trim()]
+        tags: [...prev.tags, canonical]
       }));
-      setNewTag('');
     }
+    const typed = name.trim().toLowerCase();
+    setTagHint(canonical && typed !== canonical ? `"${typed}" is a synonym of "${canonical}"` : '');
+    setNewTag('');
+    setHighlighted(0);
   };
 
   const removeTag = (tagToRemove: string) => {
@@ -106,10 +152,18 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
     }));
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+  const handleTagKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
       e.preventDefault();
-      addTag();
+      addTag(suggestions[highlighted]?.name ?? newTag);
+    } else if (e.key === 'Escape') {
+      setNewTag('');
     }
   };
 
@@ -132,6 +186,10 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {draft.pending && (
+            <DraftPrompt draft={draft.pending} onRestore={restoreDraft} onDiscard={draft.discard} />
+          )}
+
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -141,13 +199,53 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
               type="text"
               required
               value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, title: e.target.value }));
+                setDuplicate(null);
+              }}
               placeholder="What's your programming question? Be specific."
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <p className="text-xs text-gray-500 mt-1">
               A good title summarizes the specific problem in one sentence
             </p>
+            {similar.length > 0 && (
+              <div className="mt-3 border border-gray-200 rounded-lg">
+                <p className="px-3 py-2 text-sm font-medium text-gray-700 border-b border-gray-200">
+                  Similar questions — yours may already have an answer
+                </p>
+                <ul className="divide-y divide-gray-100">
+                  {similar.map(({ question, similarity }) => (
+                    <li key={question.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <a
+                        href={questionPath(question.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="min-w-0 truncate text-blue-600 hover:text-blue-800"
+                      >
+                        {question.title}
+                      </a>
+                      <div className="flex items-center space-x-3 ml-4 text-gray-500 flex-shrink-0">
+                        <span title="Similarity">{Math.round(similarity * 100)}% match</span>
+                        <span className="flex items-center space-x-1" title="Votes">
+                          <ArrowUp className="w-4 h-4" />
+                          <span>{question.votes}</span>
+                        </span>
+                        <span
+                          className={`flex items-center space-x-1 ${
+                            question.acceptedAnswerId ? 'px-1.5 rounded bg-green-100 text-green-700 font-medium' : ''
+                          }`}
+                          title={question.acceptedAnswerId ? 'Has an accepted answer' : 'Answers'}
+                        >
+                          {question.acceptedAnswerId ? <Check className="w-4 h-4" /> : <MessageSquare className="w-4 h-4" />}
+                          <span>{question.answerCount}</span>
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Description */}
@@ -160,6 +258,8 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
               onChange={(value) => setFormData(prev => ({ ...prev, description: value }))}
               placeholder="Provide detailed information about your problem. Include what you've tried and any error messages."
               className="min-h-[300px]"
+              mentionSuggestions={suggestMentions}
+              checkMentions={checkMentions}
             />
             <p className="text-xs text-gray-500 mt-1">
               Include all the information someone would need to answer your question
@@ -172,16 +272,16 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
               Tags *
             </label>
             <div className="flex flex-wrap gap-2 mb-2">
-              {formData.tags.map((tag, index) => (
+              {formData.tags.map(tag => (
                 <span
-                  key={index}
-                  className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800"
+                  key={tag}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${tagColor(tag)}`}
                 >
                   {tag}
                   <button
                     type="button"
                     onClick={() => removeTag(tag)}
-                    className="ml-2 text-blue-600 hover:text-blue-800"
+                    className="ml-2 opacity-70 hover:opacity-100"
                   >
                     <X className="w-4 h-4" />
                   </button>
@@ -189,26 +289,56 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
               ))}
             </div>
             <div className="flex space-x-2">
-              <input
-                type="text"
-                value={newTag}
-                onChange={(e) => setNewTag(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="Add a tag (e.g., javascript, react, css)"
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                disabled={formData.tags.length >= 5}
-              />
+              <div className="relative flex-1">
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={(e) => {
+                    setNewTag(e.target.value);
+                    setHighlighted(0);
+                  }}
+                  onKeyDown={handleTagKeyDown}
+                  placeholder="Add a tag (e.g., javascript, react, css)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  disabled={formData.tags.length >= MAX_TAGS}
+                />
+                {suggestions.length > 0 && (
+                  <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                    {suggestions.map((tag, index) => (
+                      <li key={tag.id}>
+                        <button
+                          type="button"
+                          // Keep focus in the input so the list doesn't close before the click lands
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => addTag(tag.name)}
+                          onMouseEnter={() => setHighlighted(index)}
+                          className={`w-full text-left px-3 py-2 ${index === highlighted ? 'bg-blue-50' : ''}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${tag.color}`}>{tag.name}</span>
+                            <span className="text-xs text-gray-500">{tag.count}</span>
+                          </div>
+                          {tag.description && (
+                            <p className="text-xs text-gray-500 mt-1 truncate">{tag.description}</p>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
               <button
                 type="button"
-                onClick={addTag}
-                disabled={!newTag.trim() || formData.tags.length >= 5}
+                onClick={() => addTag()}
+                disabled={!newTag.trim() || formData.tags.length >= MAX_TAGS}
                 className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 <Plus className="w-4 h-4" />
               </button>
             </div>
+            {tagHint && <p className="text-xs text-blue-600 mt-1">{tagHint}</p>}
             <p className="text-xs text-gray-500 mt-1">
-              Add up to 5 tags to describe what your question is about
+              Add up to {MAX_TAGS} tags to describe what your question is about
             </p>
           </div>
 
@@ -219,6 +349,44 @@ export const AskQuestionModal: React.FC<AskQuestionModalProps> = ({
             </div>
           )}
 
+          {/* Duplicate confirmation */}
+          {duplicate && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <p>
+                  This looks like a duplicate of{' '}
+                  <a
+                    href={questionPath(duplicate.question.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium underline"
+                  >
+                    {duplicate.question.title}
+                  </a>
+                  {duplicate.question.acceptedAnswerId ? ', which has an accepted answer' : ''}. Post yours anyway?
+                </p>
+              </div>
+              <div className="flex justify-end space-x-3 mt-3">
+                <button
+                  type="button"
+                  onClick={() => setDuplicate(null)}
+                  className="px-4 py-1.5 text-gray-600 hover:text-gray-800"
+                >
+                  Keep editing
+                </button>
+                <button
+                  type="button"
+                  onClick={postQuestion}
+                  disabled={isSubmitting}
+                  className="px-4 py-1.5 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-50 transition-colors"
+                >
+                  Post anyway
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex justify-between items-center pt-4 border-t border-gray-200">
             <button
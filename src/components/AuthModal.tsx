@@ -30,22 +30,22 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose }) => {
 
     try {
       if (isLogin) {
-        const success = await login(formData.email, formData.password);
-        if (success) {
+        const result = await login(formData.email, formData.password);
+        if (result.success) {
           onClose();
         } else {
-          setError('Invalid credentials. Try email: demo@stackit.com, password: demo123');
+          setError(result.error ?? 'Invalid credentials');
         }
       } else {
         if (formData.password !== formData.confirmPassword) {
           setError('Passwords do not match');
           return;
         }
-        const success = await register(formData.username, formData.email, formData.password);
-        if (success) {
+        const result = await register(formData.username, formData.email, formData.password);
+        if (result.success) {
           onClose();
         } else {
-          setError('Registration failed. Please try again.');
+          setError(result.error ?? 'Registration failed. Please try again.');
         }
       }
     } finally {
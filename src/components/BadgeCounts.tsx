@@ -0,0 +1,19 @@
+import React from 'react';
+import { Badge } from '../types';
+import { BADGE_TIERS, BADGE_TIER_COLORS } from '../data/badges';
+
+interface BadgeCountsProps {
+  counts: Record<Badge['tier'], number>;
+}
+
+// A dot and count per tier the user holds, e.g. on author chips
+export const BadgeCounts: React.FC<BadgeCountsProps> = ({ counts }) => (
+  <span className="inline-flex items-center space-x-2">
+    {BADGE_TIERS.filter(tier => counts[tier] > 0).map(tier => (
+      <span key={tier} className="inline-flex items-center" title={`${counts[tier]} ${tier} badge${counts[tier] !== 1 ? 's' : ''}`}>
+        <span className={`w-2 h-2 rounded-full mr-1 ${BADGE_TIER_COLORS[tier]}`} />
+        {counts[tier]}
+      </span>
+    ))}
+  </span>
+);
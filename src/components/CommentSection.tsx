@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { ArrowUp } from 'lucide-react';
+import { Comment, Flag } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { UserVotes } from '../hooks/useVotes';
+import { UserFlags } from '../hooks/useFlags';
+import {
+  COMMENT_DELETE_WINDOW,
+  COMMENT_EDIT_WINDOW,
+  COMMENT_MAX_LENGTH,
+  withinCommentWindow
+} from '../data/repository';
+import { userPath } from '../utils/routes';
+import { MarkdownContent } from './MarkdownContent';
+import { Link } from './Link';
+import { FlagButton } from './FlagButton';
+
+// Threads shown before the rest are tucked behind "Show more"
+const COLLAPSED_THREADS = 3;
+
+interface CommentSectionProps {
+  targetId: string;
+  targetType: Comment['targetType'];
+  // This post's comments, oldest first
+  comments: Comment[];
+  userVotes: UserVotes;
+  onUpvote: (comment: Comment) => void;
+  userFlags: UserFlags;
+  onFlag: (comment: Comment, reason: Flag['reason'], text: string) => Promise<void>;
+  // Set when the question is locked or the user can't post, e.g. "This question is locked"
+  closedReason?: string;
+}
+
+// What the open form is for: a new comment, a reply to a thread, or an edit
+type Draft =
+  | { mode: 'new' }
+  | { mode: 'reply'; parent: Comment; replyingTo: string }
+  | { mode: 'edit'; comment: Comment };
+
+export const CommentSection: React.FC<CommentSectionProps> = ({
+  targetId,
+  targetType,
+  comments,
+  userVotes,
+  onUpvote,
+  userFlags,
+  onFlag,
+  closedReason
+}) => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const formatTimeAgo = (dateString: string) => {
+    const now = new Date();
+    const date = new Date(dateString);
+    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+    return `${Math.floor(diffInMinutes / 1440)}d ago`;
+  };
+
+  const threads = comments.filter(comment => !comment.parentId);
+  const visibleThreads = expanded ? threads : threads.slice(0, COLLAPSED_THREADS);
+  const hiddenCount = comments.length - visibleThreads.reduce(
+    (count, thread) => count + 1 + comments.filter(c => c.parentId === thread.id).length,
+    0
+  );
+
+  const openDraft = (next: Draft) => {
+    setDraft(next);
+    setError('');
+    setText(
+      next.mode === 'edit' ? next.comment.content
+        : next.mode === 'reply' ? `@${next.replyingTo} `
+        : ''
+    );
+  };
+
+  const closeDraft = () => {
+    setDraft(null);
+    setText('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !draft || !text.trim()) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      if (draft.mode === 'edit') {
+        await repository.comments.update({ id: draft.comment.id, content: text, userId: user.id });
+      } else {
+        await repository.comments.create({
+          targetId,
+          targetType,
+          parentId: draft.mode === 'reply' ? draft.parent.id : undefined,
+          content: text,
+          authorId: user.id
+        });
+      }
+      closeDraft();
+    } catch (error) {
+      console.error('Error saving comment:', error);
+      setError(error instanceof Error ? error.message : 'Could not save your comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!user || !window.confirm('Delete this comment?')) return;
+
+    setError('');
+    try {
+      await repository.comments.remove({ id: comment.id, userId: user.id });
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      setError(error instanceof Error ? error.message : 'Could not delete this comment');
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="mt-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        maxLength={COMMENT_MAX_LENGTH}
+        autoFocus
+        placeholder={draft?.mode === 'reply' ? 'Write a reply...' : 'Add a comment...'}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-xs text-gray-500">{COMMENT_MAX_LENGTH - text.length} characters left</span>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={closeDraft}
+            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!text.trim() || isSubmitting}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Saving...' : draft?.mode === 'edit' ? 'Save' : 'Post'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+
+  const renderComment = (comment: Comment, thread: Comment) => {
+    const isOwn = user?.id === comment.authorId;
+    const upvoted = userVotes[comment.id] === 'up';
+
+    if (draft?.mode === 'edit' && draft.comment.id === comment.id) {
+      return <div key={comment.id} className="py-2">{renderForm()}</div>;
+    }
+
+    return (
+      <div key={comment.id} className="flex items-start py-2 text-sm">
+        <div className="w-10 flex-shrink-0 flex items-center space-x-1 text-gray-500">
+          <button
+            type="button"
+            onClick={() => onUpvote(comment)}
+            disabled={!user || isOwn || !!closedReason}
+            title={!user ? 'Sign in to vote' : isOwn ? "You can't vote on your own post" : closedReason ?? (upvoted ? 'Remove your upvote' : 'This comment is useful')}
+            className={`disabled:opacity-50 disabled:cursor-not-allowed ${upvoted ? 'text-green-600' : 'hover:text-gray-900'}`}
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          {comment.votes > 0 && <span className="text-xs">{comment.votes}</span>}
+        </div>
+        <div className="flex-1 min-w-0">
+          <MarkdownContent content={comment.content} className="text-gray-800" />
+          <div className="flex items-center flex-wrap gap-x-2 text-xs text-gray-500 mt-1">
+            <Link href={userPath(comment.author.username)} className="text-blue-600 hover:text-blue-800">
+              {comment.author.username}
+            </Link>
+            <span>{formatTimeAgo(comment.createdAt)}</span>
+            {comment.updatedAt !== comment.createdAt && <span>(edited)</span>}
+            {user && !closedReason && (
+              <button type="button" onClick={() => openDraft({ mode: 'reply', parent: thread, replyingTo: comment.author.username })} className="hover:text-gray-900">
+                Reply
+              </button>
+            )}
+            {isOwn && withinCommentWindow(comment, COMMENT_EDIT_WINDOW) && (
+              <button type="button" onClick={() => openDraft({ mode: 'edit', comment })} className="hover:text-gray-900">
+                Edit
+              </button>
+            )}
+            {isOwn && withinCommentWindow(comment, COMMENT_DELETE_WINDOW) && (
+              <button type="button" onClick={() => handleDelete(comment)} className="hover:text-red-600">
+                Delete
+              </button>
+            )}
+            {user && !isOwn && (
+              <FlagButton flag={userFlags[comment.id]} onFlag={(reason, text) => onFlag(comment, reason, text)} />
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-100">
+      <div className="divide-y divide-gray-100">
+        {visibleThreads.map(thread => (
+          <div key={thread.id}>
+            {renderComment(thread, thread)}
+            <div className="ml-10 pl-3 border-l-2 border-gray-100">
+              {comments.filter(c => c.parentId === thread.id).map(reply => renderComment(reply, thread))}
+              {draft?.mode === 'reply' && draft.parent.id === thread.id && renderForm()}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-red-600 text-xs mt-2">{error}</p>}
+
+      <div className="flex items-center space-x-4 mt-2 text-sm">
+        {hiddenCount > 0 && (
+          <button type="button" onClick={() => setExpanded(true)} className="text-blue-600 hover:text-blue-800">
+            Show {hiddenCount} more comment{hiddenCount !== 1 ? 's' : ''}
+          </button>
+        )}
+        {user && !draft && !closedReason && (
+          <button type="button" onClick={() => openDraft({ mode: 'new' })} className="text-gray-500 hover:text-gray-900">
+            Add a comment
+          </button>
+        )}
+      </div>
+      {draft?.mode === 'new' && renderForm()}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { Draft } from '../data/drafts';
+
+interface DraftPromptProps {
+  draft: Draft;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const DraftPrompt: React.FC<DraftPromptProps> = ({ draft, onRestore, onDiscard }) => {
+  const formatTimeAgo = (dateString: string) => {
+    const now = new Date();
+    const date = new Date(dateString);
+    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+
+    if (diffInMinutes < 1) return 'just now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+    return `${Math.floor(diffInMinutes / 1440)}d ago`;
+  };
+
+  return (
+    <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm">
+      <div className="flex items-center space-x-2 text-blue-800">
+        <FileText className="w-4 h-4 flex-shrink-0" />
+        <span>You have a draft from {formatTimeAgo(draft.savedAt)}. Restore it?</span>
+      </div>
+      <div className="flex items-center space-x-3 ml-4">
+        <button type="button" onClick={onDiscard} className="text-gray-600 hover:text-gray-800">
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onRestore}
+          className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Restore
+        </button>
+      </div>
+    </div>
+  );
+};
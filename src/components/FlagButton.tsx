@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Flag as FlagIcon } from 'lucide-react';
+import { Flag } from '../types';
+import { FLAG_REASONS, FLAG_TEXT_MAX_LENGTH, flagReasonLabel } from '../data/flags';
+
+interface FlagButtonProps {
+  // The user's flag on this post, once they flagged it
+  flag?: Flag;
+  onFlag: (reason: Flag['reason'], text: string) => Promise<void>;
+}
+
+// A "Flag" link opening a small form for the reason and an optional note
+export const FlagButton: React.FC<FlagButtonProps> = ({ flag, onFlag }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<Flag['reason']>(FLAG_REASONS[0].value);
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (flag) {
+    return (
+      <span className="inline-flex items-center space-x-1 text-red-600" title={`You flagged this as ${flagReasonLabel(flag.reason).toLowerCase()}`}>
+        <FlagIcon className="w-3.5 h-3.5" />
+        <span>Flagged</span>
+      </span>
+    );
+  }
+
+  const close = () => {
+    setIsOpen(false);
+    setText('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onFlag(reason, text);
+      close();
+    } catch (error) {
+      console.error('Error flagging post:', error);
+      setError(error instanceof Error ? error.message : 'Could not flag this post');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <span className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center space-x-1 hover:text-red-600"
+        title="Flag this for an admin to review"
+      >
+        <FlagIcon className="w-3.5 h-3.5" />
+        <span>Flag</span>
+      </button>
+
+      {isOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute left-0 top-full mt-2 z-10 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-4 text-sm text-left"
+        >
+          <p className="font-semibold text-gray-900 mb-2">Why should an admin look at this?</p>
+          <div className="space-y-2 mb-3">
+            {FLAG_REASONS.map(option => (
+              <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="flag-reason"
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={2}
+            maxLength={FLAG_TEXT_MAX_LENGTH}
+            placeholder="Anything else an admin should know (optional)"
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && <p className="text-red-600 text-xs mt-1">{error}</p>}
+          <div className="flex justify-end space-x-2 mt-2">
+            <button type="button" onClick={close} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Flagging...' : 'Flag'}
+            </button>
+          </div>
+        </form>
+      )}
+    </span>
+  );
+};
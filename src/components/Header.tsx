@@ -1,21 +1,42 @@
 import React, { useState } from 'react';
-import { Search, Bell, User, LogOut, Settings, HelpCircle, Menu, X } from 'lucide-react';
+import { Search, Bell, User, LogOut, Settings, HelpCircle, Menu, X, Award, Shield, FileText } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useNotifications } from '../hooks/useNotifications';
+import { useNotifications } from '../contexts/NotificationsContext';
+import { useDrafts } from '../hooks/useDrafts';
 import { Link } from './Link';
+import { ADMIN_PATH, NOTIFICATIONS_PATH, questionPath, userPath } from '../utils/routes';
+import { isAdmin } from '../data/moderation';
+import { groupNotifications, groupSummary } from '../data/notifications';
+import { Draft, draftLabel } from '../data/drafts';
+
+// Groups shown in the dropdown; the rest are on the notifications page
+const RECENT_GROUPS = 8;
+
+// Operators understood by parseSearchQuery
+const SEARCH_HINT = 'Filter with [tag], user:name, is:answered, is:accepted, score:>5 or "an exact phrase"';
 
 interface HeaderProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
   onLoginClick: () => void;
+  onAskQuestion: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onLoginClick }) => {
+export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onLoginClick, onAskQuestion }) => {
   const { user, logout } = useAuth();
-  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const { notifications, unreadCount, announcement, dismissAnnouncement, markAsRead, markAllAsRead } = useNotifications();
   const [showNotifications, setShowNotifications] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
+  const { drafts, discardDraft } = useDrafts();
+  const recentGroups = React.useMemo(() => groupNotifications(notifications).slice(0, RECENT_GROUPS), [notifications]);
+
+  // Badge announcements fade on their own
+  React.useEffect(() => {
+    if (!announcement) return;
+    const timeout = setTimeout(dismissAnnouncement, 6000);
+    return () => clearTimeout(timeout);
+  }, [announcement, dismissAnnouncement]);
 
   // Close dropdowns when clicking outside
   React.useEffect(() => {
@@ -43,6 +64,18 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
+  const draftClassName = 'flex-1 min-w-0 flex items-start space-x-2 px-3 py-2 text-left text-sm text-gray-700';
+
+  const draftContent = (draft: Draft) => (
+    <>
+      <FileText className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <span className="min-w-0">
+        <span className="block truncate">{draftLabel(draft)}</span>
+        <span className="block text-xs text-gray-500">Saved {formatTimeAgo(draft.savedAt)}</span>
+      </span>
+    </>
+  );
+
   return (
     <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -64,6 +97,7 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
               <input
                 type="text"
                 placeholder="Search questions..."
+                title={SEARCH_HINT}
                 value={searchQuery}
                 onChange={(e) => onSearchChange(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -73,6 +107,9 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
 
           {/* Desktop Navigation */}
           <div className="hidden md:flex items-center space-x-4">
+            <Link href="/tags" className="text-gray-600 hover:text-gray-900 transition-colors">
+              Tags
+            </Link>
             {user ? (
               <>
                 {/* Notifications */}
@@ -103,27 +140,38 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
                         )}
                       </div>
                       <div className="max-h-96 overflow-y-auto">
-                        {notifications.length === 0 ? (
+                        {recentGroups.length === 0 ? (
                           <div className="p-4 text-center text-gray-500">
                             No notifications yet
                           </div>
                         ) : (
-                          notifications.map((notification) => (
-                            <div
-                              key={notification.id}
-                              className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
-                                !notification.read ? 'bg-blue-50' : ''
+                          recentGroups.map((group) => (
+                            <Link
+                              key={group.key}
+                              href={group.questionId ? questionPath(group.questionId) : NOTIFICATIONS_PATH}
+                              className={`block p-4 border-b border-gray-100 hover:bg-gray-50 ${
+                                !group.read ? 'bg-blue-50' : ''
                               }`}
-                              onClick={() => markAsRead(notification.id)}
+                              onClick={() => {
+                                markAsRead(group.notifications.map(n => n.id));
+                                setShowNotifications(false);
+                              }}
                             >
-                              <p className="text-sm text-gray-900">{notification.message}</p>
+                              <p className="text-sm text-gray-900">{groupSummary(group)}</p>
                               <p className="text-xs text-gray-500 mt-1">
-                                {formatTimeAgo(notification.createdAt)}
+                                {formatTimeAgo(group.notifications[0].createdAt)}
                               </p>
-                            </div>
+                            </Link>
                           ))
                         )}
                       </div>
+                      <Link
+                        href={NOTIFICATIONS_PATH}
+                        onClick={() => setShowNotifications(false)}
+                        className="block p-3 text-center text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                      >
+                        See all notifications
+                      </Link>
                     </div>
                   )}
                 </div>
@@ -149,10 +197,11 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
                   </button>
 
                   {showUserMenu && (
-                    <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-50 user-menu-dropdown">
+                    <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-50 user-menu-dropdown">
                       <div className="p-2">
                         <Link
-                          href="/profile"
+                          href={userPath(user.username)}
+                          onClick={() => setShowUserMenu(false)}
                           className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded transition-colors"
                         >
                           <User className="w-4 h-4" />
@@ -165,6 +214,51 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
                           <Settings className="w-4 h-4" />
                           <span>Settings</span>
                         </Link>
+                        {isAdmin(user) && (
+                          <Link
+                            href={ADMIN_PATH}
+                            onClick={() => setShowUserMenu(false)}
+                            className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            <Shield className="w-4 h-4" />
+                            <span>Admin</span>
+                          </Link>
+                        )}
+                        {drafts.length > 0 && (
+                          <div className="border-t border-gray-100 mt-2 pt-2">
+                            <p className="px-3 py-1 text-xs font-medium text-gray-500 uppercase">Drafts</p>
+                            {drafts.map(draft => (
+                              <div key={draft.key} className="flex items-center hover:bg-gray-100 rounded transition-colors">
+                                {draft.target.type === 'answer' ? (
+                                  <Link
+                                    href={questionPath(draft.target.questionId)}
+                                    onClick={() => setShowUserMenu(false)}
+                                    className={draftClassName}
+                                  >
+                                    {draftContent(draft)}
+                                  </Link>
+                                ) : (
+                                  <button
+                                    onClick={() => {
+                                      setShowUserMenu(false);
+                                      onAskQuestion();
+                                    }}
+                                    className={draftClassName}
+                                  >
+                                    {draftContent(draft)}
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => discardDraft(draft.key)}
+                                  className="p-2 text-gray-400 hover:text-gray-600"
+                                  title="Discard draft"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         <button
                           onClick={logout}
                           className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded transition-colors"
@@ -208,6 +302,7 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
                 <input
                   type="text"
                   placeholder="Search questions..."
+                  title={SEARCH_HINT}
                   value={searchQuery}
                   onChange={(e) => onSearchChange(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -216,6 +311,13 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
             </div>
 
             {/* Mobile Navigation */}
+            <Link
+              href="/tags"
+              onClick={() => setShowMobileMenu(false)}
+              className="block px-3 py-2 mb-2 text-gray-700 hover:bg-gray-100 rounded"
+            >
+              Tags
+            </Link>
             {user ? (
               <div className="space-y-2">
                 <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
@@ -235,12 +337,32 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
                     <p className="text-sm text-gray-500">{user.reputation} reputation</p>
                   </div>
                 </div>
-                <Link href="/profile" className="block px-3 py-2 text-gray-700 hover:bg-gray-100 rounded">
+                <Link
+                  href={userPath(user.username)}
+                  onClick={() => setShowMobileMenu(false)}
+                  className="block px-3 py-2 text-gray-700 hover:bg-gray-100 rounded"
+                >
                   Profile
                 </Link>
+                <Link
+                  href={NOTIFICATIONS_PATH}
+                  onClick={() => setShowMobileMenu(false)}
+                  className="block px-3 py-2 text-gray-700 hover:bg-gray-100 rounded"
+                >
+                  Notifications{unreadCount > 0 && ` (${unreadCount})`}
+                </Link>
                 <Link href="/settings" className="block px-3 py-2 text-gray-700 hover:bg-gray-100 rounded">
                   Settings
                 </Link>
+                {isAdmin(user) && (
+                  <Link
+                    href={ADMIN_PATH}
+                    onClick={() => setShowMobileMenu(false)}
+                    className="block px-3 py-2 text-gray-700 hover:bg-gray-100 rounded"
+                  >
+                    Admin
+                  </Link>
+                )}
                 <button
                   onClick={logout}
                   className="w-full text-left px-3 py-2 text-gray-700 hover:bg-gray-100 rounded"
@@ -259,6 +381,23 @@ export const Header: React.FC<HeaderProps> = ({ searchQuery, onSearchChange, onL
           </div>
         )}
       </div>
+
+      {announcement && (
+        <div className="fixed bottom-4 right-4 z-50 flex items-center space-x-3 bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3">
+          <Award className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+          <p className="text-sm">{announcement.message}</p>
+          <button
+            onClick={() => {
+              markAsRead(announcement.id);
+              dismissAnnouncement();
+            }}
+            className="text-gray-400 hover:text-white"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </header>
   );
 };
\ No newline at end of file
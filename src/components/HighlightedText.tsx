@@ -0,0 +1,20 @@
+import React from 'react';
+import { findMatches } from '../utils/searchText';
+
+interface HighlightedTextProps {
+  text: string;
+  // Index terms from a search result
+  terms?: string[];
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms = [] }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  findMatches(text, terms).forEach(({ start, end }) => {
+    parts.push(text.slice(last, start), <mark key={start} className="search-match">{text.slice(start, end)}</mark>);
+    last = end;
+  });
+  parts.push(text.slice(last));
+
+  return <>{parts}</>;
+};
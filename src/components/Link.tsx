@@ -1,25 +1,16 @@
 import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 
 interface LinkProps {
   href: string;
   children: React.ReactNode;
   className?: string;
-  onClick?: () => void;
+  title?: string;
+  onClick?: (e: React.MouseEvent) => void;
 }
 
-export const Link: React.FC<LinkProps> = ({ href, children, className = '', onClick }) => {
-  const handleClick = (e: React.MouseEvent) => {
-    e.preventDefault();
-    if (onClick) {
-      onClick();
-    }
-    // In a real app, this would use React Router
-    console.log(`Navigate to: ${href}`);
-  };
-
-  return (
-    <a href={href} onClick={handleClick} className={className}>
-      {children}
-    </a>
-  );
-};
\ No newline at end of file
+export const Link: React.FC<LinkProps> = ({ href, children, className = '', title, onClick }) => (
+  <RouterLink to={href} onClick={onClick} className={className} title={title}>
+    {children}
+  </RouterLink>
+);
@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import { highlightHtml, renderExcerpt, renderMarkdown } from '../utils/markdown';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownContentProps {
+  content: string;
+  // 'excerpt' keeps inline formatting only, for question cards
+  variant?: 'full' | 'excerpt';
+  // Index terms from a search result to mark in the text
+  highlightTerms?: string[];
+  className?: string;
+}
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  variant = 'full',
+  highlightTerms,
+  className = ''
+}) => {
+  // Both renderers sanitise their output against a strict allowlist
+  const html = useMemo(
+    () => highlightHtml(variant === 'excerpt' ? renderExcerpt(content) : renderMarkdown(content), highlightTerms ?? []),
+    [content, variant, highlightTerms]
+  );
+
+  // Code blocks are plain HTML, so their copy buttons are handled by delegation
+  const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    const button = (e.target as Element).closest('.code-copy');
+    const code = button?.closest('.code-block')?.querySelector('code');
+    if (!button || !code) return;
+
+    try {
+      await navigator.clipboard.writeText(code.textContent ?? '');
+      button.textContent = 'Copied!';
+    } catch (error) {
+      console.error('Error copying code:', error);
+      button.textContent = 'Copy failed';
+    }
+    setTimeout(() => {
+      button.textContent = 'Copy';
+    }, 2000);
+  };
+
+  if (variant === 'excerpt') {
+    return <p className={`markdown-excerpt ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
@@ -1,13 +1,22 @@
 import React from 'react';
-import { MessageSquare, Eye, ArrowUp, Clock, Tag } from 'lucide-react';
-import { Question } from '../types';
+import { MessageSquare, Eye, ArrowUp, ArrowDown, Clock, Check, Award } from 'lucide-react';
+import { Question, Vote } from '../types';
+import { MarkdownContent } from './MarkdownContent';
+import { HighlightedText } from './HighlightedText';
+import { TagBadge } from './TagBadge';
+import { Link } from './Link';
+import { userPath } from '../utils/routes';
 
 interface QuestionCardProps {
   question: Question;
+  // The signed-in user's vote on this question, if any
+  userVote?: Vote['type'];
+  // Search terms this question matched, highlighted in the title and excerpt
+  matchedTerms?: string[];
   onClick: () => void;
 }
 
-export const QuestionCard: React.FC<QuestionCardProps> = ({ question, onClick }) => {
+export const QuestionCard: React.FC<QuestionCardProps> = ({ question, userVote, matchedTerms, onClick }) => {
   const formatTimeAgo = (dateString: string) => {
     const now = new Date();
     const date = new Date(dateString);
@@ -18,18 +27,6 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({ question, onClick })
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
-  const getTagColor = (tag: string) => {
-    const colors = [
-      'bg-blue-100 text-blue-800',
-      'bg-green-100 text-green-800',
-      'bg-purple-100 text-purple-800',
-      'bg-yellow-100 text-yellow-800',
-      'bg-pink-100 text-pink-800',
-      'bg-indigo-100 text-indigo-800'
-    ];
-    return colors[tag.length % colors.length];
-  };
-
   return (
     <div
       onClick={onClick}
@@ -37,46 +34,66 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({ question, onClick })
     >
       <div className="flex justify-between items-start mb-3">
         <h3 className="text-lg font-semibold text-gray-900 hover:text-blue-600 transition-colors line-clamp-2">
-          {question.title}
+          <HighlightedText text={question.title} terms={matchedTerms} />
         </h3>
         {question.acceptedAnswerId && (
           <div className="flex items-center space-x-1 text-green-600 text-sm font-medium">
-            <div className="w-2 h-2 bg-green-600 rounded-full"></div>
-            <span>Solved</span>
+            <Check className="w-4 h-4" />
+            <span>Accepted</span>
           </div>
         )}
       </div>
 
-      <p className="text-gray-600 text-sm mb-4 line-clamp-3">{question.description}</p>
+      <MarkdownContent
+        content={question.description}
+        variant="excerpt"
+        highlightTerms={matchedTerms}
+        className="text-gray-600 text-sm mb-4 line-clamp-3"
+      />
 
       {/* Tags */}
       <div className="flex flex-wrap gap-2 mb-4">
         {question.tags.map((tag, index) => (
-          <span
+          <TagBadge
             key={index}
-            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTagColor(tag)}`}
-          >
-            <Tag className="w-3 h-3 mr-1" />
-            {tag}
-          </span>
+            name={tag}
+            // Keep the card's own click from opening the question as well
+            onClick={(e) => e.stopPropagation()}
+          />
         ))}
       </div>
 
       {/* Stats */}
       <div className="flex items-center justify-between text-sm text-gray-500">
         <div className="flex items-center space-x-4">
-          <div className="flex items-center space-x-1">
-            <ArrowUp className="w-4 h-4" />
+          <div
+            className={`flex items-center space-x-1 ${
+              userVote === 'up' ? 'text-green-600 font-medium' : userVote === 'down' ? 'text-red-600 font-medium' : ''
+            }`}
+            title={userVote ? `You voted this ${userVote}` : undefined}
+          >
+            {userVote === 'down' ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
             <span>{question.votes}</span>
           </div>
-          <div className="flex items-center space-x-1">
-            <MessageSquare className="w-4 h-4" />
+          <div
+            className={`flex items-center space-x-1 ${
+              question.acceptedAnswerId ? 'px-1.5 rounded bg-green-100 text-green-700 font-medium' : ''
+            }`}
+            title={question.acceptedAnswerId ? 'Has an accepted answer' : undefined}
+          >
+            {question.acceptedAnswerId ? <Check className="w-4 h-4" /> : <MessageSquare className="w-4 h-4" />}
             <span>{question.answerCount}</span>
           </div>
           <div className="flex items-center space-x-1">
             <Eye className="w-4 h-4" />
             <span>{question.views}</span>
           </div>
+          {question.bounty && (
+            <div className="flex items-center space-x-1 px-1.5 rounded bg-blue-600 text-white font-medium" title="Open bounty">
+              <Award className="w-4 h-4" />
+              <span>+{question.bounty}</span>
+            </div>
+          )}
         </div>
         
         <div className="flex items-center space-x-3">
@@ -84,7 +101,12 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({ question, onClick })
             <Clock className="w-4 h-4" />
             <span>{formatTimeAgo(question.createdAt)}</span>
           </div>
-          <div className="flex items-center space-x-2">
+          <Link
+            href={userPath(question.author.username)}
+            onClick={(e) => e.stopPropagation()}
+            title={`${question.author.reputation} reputation`}
+            className="flex items-center space-x-2 group"
+          >
             {question.author.avatar ? (
               <img
                 src={question.author.avatar}
@@ -94,8 +116,8 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({ question, onClick })
             ) : (
               <div className="w-6 h-6 bg-gray-300 rounded-full"></div>
             )}
-            <span className="text-gray-700 font-medium">{question.author.username}</span>
-          </div>
+            <span className="text-gray-700 font-medium group-hover:text-blue-600">{question.author.username}</span>
+          </Link>
         </div>
       </div>
     </div>
@@ -1,9 +1,43 @@
 import React, { useState } from 'react';
-import { X, ArrowUp, ArrowDown, Check, Clock, Eye, MessageSquare, User, Tag } from 'lucide-react';
-import { Question, Answer } from '../types';
+import { useLocation } from 'react-router-dom';
+import { X, Check, Clock, Eye, MessageSquare, User, Link2, Award, Lock, Pencil, Trash2 } from 'lucide-react';
+import { Question, Answer, Comment } from '../types';
 import { useAuth } from '../contexts/AuthContext';
-import { useNotifications } from '../hooks/useNotifications';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useAnswerOrder } from '../hooks/useAnswerOrder';
+import { useDraft } from '../hooks/useDraft';
+import { useMentionSuggestions } from '../hooks/useMentionSuggestions';
+import { useQuestionView } from '../hooks/useQuestionView';
+import { useVotes } from '../hooks/useVotes';
+import { useFlags } from '../hooks/useFlags';
+import { DraftPrompt } from './DraftPrompt';
 import { RichTextEditor } from './RichTextEditor';
+import { VoteControls } from './VoteControls';
+import { MarkdownContent } from './MarkdownContent';
+import { CommentSection } from './CommentSection';
+import { TagBadge } from './TagBadge';
+import { Link } from './Link';
+import { BadgeCounts } from './BadgeCounts';
+import { FlagButton } from './FlagButton';
+import { RevisionHistory } from './RevisionHistory';
+import { ANSWERS_PER_PAGE, ANSWER_SORTS, AnswerSort, sortAnswers } from '../data/answerOrder';
+import { BOUNTY_AMOUNTS } from '../data/reputation';
+import { LOCKED_QUESTION, isAdmin, isSuspended, suspendedMessage } from '../data/moderation';
+import { EDIT_SUMMARY_MAX_LENGTH, editProblem } from '../data/revisions';
+import {
+  absoluteUrl,
+  answerAnchor,
+  answerPath,
+  parseAnswerAnchor,
+  questionPath,
+  userPath
+} from '../utils/routes';
+
+// The post being edited, with the unsaved text
+type PostEdit = { summary: string } & (
+  | { postType: 'question'; title: string; description: string; tags: string }
+  | { postType: 'answer'; id: string; content: string }
+);
 
 interface QuestionDetailModalProps {
   question: Question;
@@ -11,118 +45,92 @@ interface QuestionDetailModalProps {
   onClose: () => void;
 }
 
-// Mock answers data
-const mockAnswers: Answer[] = [
-  {
-    id: 'a1',
-    questionId: 'q1',
-    content: `You can use the **useState** hook for local component state and **useEffect** for side effects. Here's a basic example:
-
-\`\`\`javascript
-import React, { useState, useEffect } from 'react';
-
-function MyComponent() {
-  const [count, setCount] = useState(0);
-  
-  useEffect(() => {
-    document.title = \`Count: \${count}\`;
-  }, [count]);
-  
-  return (
-    <div>
-      <p>Count: {count}</p>
-      <button onClick={() => setCount(count + 1)}>
-        Increment
-      </button>
-    </div>
-  );
-}
-\`\`\`
-
-The **useState** hook returns an array with the current state value and a setter function. The **useEffect** hook runs after every render and can be used for cleanup by returning a function.`,
-    authorId: '2',
-    author: {
-      id: '2',
-      username: 'react_expert',
-      email: 'expert@example.com',
-      role: 'user',
-      avatar: 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
-      joinDate: '2023-05-10',
-      reputation: 2840
-    },
-    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
-    votes: 15,
-    isAccepted: true
-  },
-  {
-    id: 'a2',
-    questionId: 'q1',
-    content: `Another approach is to use **custom hooks** to encapsulate reusable logic:
-
-\`\`\`javascript
-// Custom hook
-function useCounter(initialValue = 0) {
-  const [count, setCount] = useState(initialValue);
-  
-  const increment = () => setCount(count + 1);
-  const decrement = () => setCount(count - 1);
-  const reset = () => setCount(initialValue);
-  
-  return { count, increment, decrement, reset };
-}
-
-// Using the custom hook
-function Counter() {
-  const { count, increment, decrement, reset } = useCounter(0);
-  
-  return (
-    <div>
-      <p>Count: {count}</p>
-      <button onClick={increment}>+</button>
-      <button onClick={decrement}>-</button>
-      <button onClick={reset}>Reset</button>
-    </div>
-  );
-}
-\`\`\`
-
-This keeps your components clean and makes the logic reusable across different components.`,
-    authorId: '3',
-    author: {
-      id: '3',
-      username: 'hooks_master',
-      email: 'hooks@example.com',
-      role: 'user',
-      avatar: 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
-      joinDate: '2023-08-22',
-      reputation: 1650
-    },
-    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 1).toISOString(),
-    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 1).toISOString(),
-    votes: 8,
-    isAccepted: false
-  }
-];
-
 export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ question, isOpen, onClose }) => {
   const { user } = useAuth();
-  const { processMentions } = useNotifications();
-  const [answers, setAnswers] = useState<Answer[]>(mockAnswers.filter(a => a.questionId === question.id));
+  const repository = useRepository();
+  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [comments, setComments] = useState<Comment[]>([]);
   const [newAnswer, setNewAnswer] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [votes, setVotes] = useState<Record<string, { type: 'up' | 'down' | null, count: number }>>({
-    [question.id]: { type: null, count: question.votes },
-    ...answers.reduce((acc, answer) => ({
-      ...acc,
-      [answer.id]: { type: null, count: answer.votes }
-    }), {})
-  });
-
-  // Update answers when question changes
+  const { userVotes, castVote } = useVotes();
+  const { userFlags, flagPost } = useFlags();
+  const [voteCounts, setVoteCounts] = useState<Record<string, number>>({ [question.id]: question.votes });
+  const [actionError, setActionError] = useState('');
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  const [bountyAmount, setBountyAmount] = useState(BOUNTY_AMOUNTS[0]);
+  const [editing, setEditing] = useState<PostEdit | null>(null);
+  // The post whose revisions are open
+  const [history, setHistory] = useState<Question | Answer | null>(null);
+  const { hash } = useLocation();
+  const linkedAnswerId = parseAnswerAnchor(hash);
+  const { order, updateOrder } = useAnswerOrder();
+  useQuestionView(question.id, isOpen);
+  // How many answers are shown; long threads reveal more a page at a time
+  const [visibleCount, setVisibleCount] = useState(ANSWERS_PER_PAGE);
+  const draft = useDraft(
+    { type: 'answer', questionId: question.id, questionTitle: question.title },
+    { body: newAnswer },
+    isOpen
+  );
+
+  // Load answers when question changes
   React.useEffect(() => {
-    setAnswers(mockAnswers.filter(a => a.questionId === question.id));
-  }, [question.id]);
+    let cancelled = false;
+    const loadAnswers = async () => {
+      try {
+        const loaded = await repository.answers.listByQuestion(question.id);
+        if (cancelled) return;
+        setAnswers(loaded);
+        setVoteCounts(prev => ({
+          ...prev,
+          ...Object.fromEntries(loaded.map(answer => [answer.id, answer.votes]))
+        }));
+      } catch (error) {
+        console.error('Error loading answers:', error);
+      }
+    };
+
+    loadAnswers();
+    const unsubscribe = repository.subscribe(loadAnswers);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, question.id]);
+
+  // Comments on the question and its answers, reloaded as they change
+  React.useEffect(() => {
+    let cancelled = false;
+    const loadComments = async () => {
+      try {
+        const loaded = await repository.comments.listByQuestion(question.id);
+        if (!cancelled) setComments(loaded);
+      } catch (error) {
+        console.error('Error loading comments:', error);
+      }
+    };
+
+    loadComments();
+    const unsubscribe = repository.subscribe(loadComments);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, question.id]);
+
+  // People already in the thread come first when mentioning someone
+  const { suggestMentions, checkMentions } = useMentionSuggestions([
+    question.authorId,
+    ...answers.map(answer => answer.authorId),
+    ...comments.map(comment => comment.authorId)
+  ]);
+
+  // Bring an answer linked with #answer-:id into view once it has loaded
+  const linkedAnswerLoaded = answers.some(answer => answer.id === linkedAnswerId);
+  React.useEffect(() => {
+    if (!linkedAnswerId || !linkedAnswerLoaded) return;
+    document.getElementById(answerAnchor(linkedAnswerId))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [linkedAnswerId, linkedAnswerLoaded]);
 
   if (!isOpen) return null;
 
@@ -136,97 +144,297 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
-  const handleVote = (targetId: string, voteType: 'up' | 'down') => {
+  // Why the user can't answer, comment or vote here, if they can't; the data layer refuses these too
+  const closedReason = question.lockedAt
+    ? LOCKED_QUESTION
+    : user && isSuspended(user) ? suspendedMessage(user) : undefined;
+  const canModerate = isAdmin(user);
+
+  const voteDisabledReason = (target: Question | Answer) => {
+    if (!user) return 'Sign in to vote';
+    if (target.authorId === user.id) return "You can't vote on your own post";
+    return closedReason;
+  };
+
+  const handleVote = async (target: Question | Answer, voteType: 'up' | 'down') => {
+    if (!user || target.authorId === user.id) return;
+
+    setActionError('');
+    try {
+      const total = await castVote(target.id, 'questionId' in target ? 'answer' : 'question', voteType);
+      setVoteCounts(prev => ({ ...prev, [target.id]: total }));
+    } catch (error) {
+      console.error('Error voting:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not record your vote');
+    }
+  };
+
+  const handleCommentUpvote = async (comment: Comment) => {
+    if (!user || comment.authorId === user.id) return;
+
+    setActionError('');
+    try {
+      await castVote(comment.id, 'comment', 'up');
+    } catch (error) {
+      console.error('Error voting on comment:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not record your vote');
+    }
+  };
+
+  const commentSection = (target: Question | Answer) => (
+    <CommentSection
+      targetId={target.id}
+      targetType={'questionId' in target ? 'answer' : 'question'}
+      comments={comments.filter(comment => comment.targetId === target.id)}
+      userVotes={userVotes}
+      onUpvote={handleCommentUpvote}
+      userFlags={userFlags}
+      onFlag={(comment, reason, text) => flagPost(comment.id, 'comment', reason, text)}
+      closedReason={closedReason}
+    />
+  );
+
+  // For anyone signed in but the author; the data layer refuses flags on your own posts too
+  const flagControl = (target: Question | Answer) => {
+    if (!user || target.authorId === user.id) return null;
+    return (
+      <span className="text-sm text-gray-500">
+        <FlagButton
+          flag={userFlags[target.id]}
+          onFlag={(reason, text) => flagPost(target.id, 'questionId' in target ? 'answer' : 'question', reason, text)}
+        />
+      </span>
+    );
+  };
+
+  const handleDeletePost = async (postType: 'question' | 'answer', postId: string) => {
+    if (!user || !window.confirm(`Delete this ${postType}? The reputation it earned is reversed until it's restored.`)) {
+      return;
+    }
+
+    setActionError('');
+    try {
+      await repository.moderation.deletePost({ postType, postId, adminId: user.id });
+      if (postType === 'question') {
+        onClose();
+      } else {
+        setAnswers(prev => prev.filter(answer => answer.id !== postId));
+      }
+    } catch (error) {
+      console.error('Error deleting post:', error);
+      setActionError(error instanceof Error ? error.message : `Could not delete this ${postType}`);
+    }
+  };
+
+  const handleToggleLock = async () => {
     if (!user) return;
 
-    setVotes(prev => {
-      const current = prev[targetId];
-      const isChangingVote = current.type !== null && current.type !== voteType;
-      const isRemovingVote = current.type === voteType;
-      
-      let newCount = current.count;
-      let newType: 'up' | 'down' | null = voteType;
-
-      if (isRemovingVote) {
-        newCount += voteType === 'up' ? -1 : 1;
-        newType = null;
-      } else if (isChangingVote) {
-        newCount += voteType === 'up' ? 2 : -2;
+    setActionError('');
+    try {
+      await repository.moderation.lockQuestion({ questionId: question.id, locked: !question.lockedAt, adminId: user.id });
+    } catch (error) {
+      console.error('Error locking question:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not lock this question');
+    }
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editing) return;
+
+    setActionError('');
+    try {
+      if (editing.postType === 'question') {
+        // The question reloads through the page's subscription
+        await repository.questions.update({
+          id: question.id,
+          title: editing.title,
+          description: editing.description,
+          tags: editing.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+          summary: editing.summary,
+          userId: user.id
+        });
       } else {
-        newCount += voteType === 'up' ? 1 : -1;
+        const updated = await repository.answers.update({
+          id: editing.id,
+          content: editing.content,
+          summary: editing.summary,
+          userId: user.id
+        });
+        setAnswers(prev => prev.map(answer => (answer.id === updated.id ? updated : answer)));
       }
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving edit:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not save your edit');
+    }
+  };
+
+  const editFooter = editing && (
+    <div className="flex items-center space-x-2">
+      <input
+        value={editing.summary}
+        onChange={(e) => setEditing({ ...editing, summary: e.target.value })}
+        maxLength={EDIT_SUMMARY_MAX_LENGTH}
+        placeholder="Edit summary, e.g. fixed a typo"
+        className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="button"
+        onClick={() => setEditing(null)}
+        className="px-4 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+      >
+        Cancel
+      </button>
+      <button type="submit" className="px-4 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+        Save edit
+      </button>
+    </div>
+  );
+
+  // For the author and admins; see editProblem
+  const editControl = (target: Question | Answer) => {
+    if (editProblem(user, target, question)) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => setEditing('questionId' in target
+          ? { postType: 'answer', id: target.id, content: target.content, summary: '' }
+          : { postType: 'question', title: question.title, description: question.description, tags: question.tags.join(', '), summary: '' }
+        )}
+        className="inline-flex items-center space-x-1 text-sm text-gray-500 hover:text-blue-600"
+      >
+        <Pencil className="w-4 h-4" />
+        <span>Edit</span>
+      </button>
+    );
+  };
+
+  // Links to the post's revisions once it has been edited
+  const editedLink = (target: Question | Answer) => target.updatedAt !== target.createdAt && (
+    <button type="button" onClick={() => setHistory(target)} className="text-blue-600 hover:text-blue-800 ml-1">
+      · edited {formatTimeAgo(target.updatedAt)}
+    </button>
+  );
 
-      return {
-        ...prev,
-        [targetId]: { type: newType, count: newCount }
-      };
-    });
+  // Lock and delete, for admins
+  const moderationControls = (target: Question | Answer) => {
+    if (!canModerate) return null;
+    const isAnswer = 'questionId' in target;
+    return (
+      <div className="flex items-center space-x-3 text-sm text-gray-500">
+        {!isAnswer && (
+          <button type="button" onClick={handleToggleLock} className="inline-flex items-center space-x-1 hover:text-blue-600">
+            <Lock className="w-4 h-4" />
+            <span>{question.lockedAt ? 'Unlock' : 'Lock'}</span>
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => handleDeletePost(isAnswer ? 'answer' : 'question', target.id)}
+          className="inline-flex items-center space-x-1 hover:text-red-600"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Delete</span>
+        </button>
+      </div>
+    );
   };
 
-  const handleAcceptAnswer = (answerId: string) => {
+  const handleAcceptAnswer = async (answerId: string) => {
     if (!user || user.id !== question.authorId) return;
-    // Handle accept answer logic
-    console.log('Accepting answer:', answerId);
+
+    setActionError('');
+    try {
+      const updated = await repository.questions.acceptAnswer({
+        questionId: question.id,
+        answerId,
+        userId: user.id
+      });
+      setAnswers(prev => prev.map(answer => ({
+        ...answer,
+        isAccepted: answer.id === updated.acceptedAnswerId
+      })));
+    } catch (error) {
+      console.error('Error accepting answer:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not accept this answer');
+    }
   };
 
+  const handleOfferBounty = async () => {
+    if (!user || user.id !== question.authorId) return;
+    if (!window.confirm(`Offer ${bountyAmount} of your reputation to the answer you accept?`)) return;
+
+    setActionError('');
+    try {
+      await repository.questions.offerBounty({ questionId: question.id, amount: bountyAmount, userId: user.id });
+    } catch (error) {
+      console.error('Error offering bounty:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not offer a bounty');
+    }
+  };
+
+  const copyLink = async (linkId: string, path: string) => {
+    setActionError('');
+    try {
+      await navigator.clipboard.writeText(absoluteUrl(path));
+      setCopiedLinkId(linkId);
+      setTimeout(() => setCopiedLinkId(current => (current === linkId ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+      setActionError('Could not copy the link');
+    }
+  };
+
+  const shareButton = (linkId: string, path: string) => (
+    <button
+      type="button"
+      onClick={() => copyLink(linkId, path)}
+      className="inline-flex items-center space-x-1 text-sm text-gray-500 hover:text-blue-600 transition-colors"
+      title="Copy a link to this post"
+    >
+      <Link2 className="w-4 h-4" />
+      <span>{copiedLinkId === linkId ? 'Link copied' : 'Share'}</span>
+    </button>
+  );
+
   const handleSubmitAnswer = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !newAnswer.trim()) return;
 
     setIsSubmitting(true);
+    setActionError('');
     
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Create new answer
-      const newAnswerObj: Answer = {
-        id: Date.now().toString(),
+      const newAnswerObj = await repository.answers.create({
         questionId: question.id,
         content: newAnswer,
-        authorId: user.id,
-        author: user,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        votes: 0,
-        isAccepted: false
-      };
+        authorId: user.id
+      });
       
       // Add to answers list
       setAnswers(prev => [...prev, newAnswerObj]);
+      setVoteCounts(prev => ({ ...prev, [newAnswerObj.id]: 0 }));
       
-      // Initialize vote state for new answer
-      setVotes(prev => ({
-        ...prev,
-        [newAnswerObj.id]: { type: null, count: 0 }
-      }));
-      
-      // Process mentions in the answer
-      processMentions(newAnswer, question.id, 'answer');
-      
-      // Reset form
+      // Reset form, and make sure the new answer is on show
+      draft.clear();
       setNewAnswer('');
+      setVisibleCount(count => Math.max(count, answers.length + 1));
       
       console.log('Answer submitted successfully:', newAnswerObj);
     } catch (error) {
       console.error('Error submitting answer:', error);
+      setActionError(error instanceof Error ? error.message : 'Could not post your answer');
     } finally {
       setIsSubmitting(false);
     }
   };
     
 
-  const getTagColor = (tag: string) => {
-    const colors = [
-      'bg-blue-100 text-blue-800',
-      'bg-green-100 text-green-800',
-      'bg-purple-100 text-purple-800',
-      'bg-yellow-100 text-yellow-800',
-      'bg-pink-100 text-pink-800',
-      'bg-indigo-100 text-indigo-800'
-    ];
-    return colors[tag.length % colors.length];
-  };
+  const orderedAnswers = sortAnswers(answers, order, comments);
+  // A linked answer is shown however far down the order it is
+  const shownCount = Math.max(visibleCount, orderedAnswers.findIndex(answer => answer.id === linkedAnswerId) + 1);
+  const visibleAnswers = orderedAnswers.slice(0, shownCount);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -249,6 +457,15 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
                   <MessageSquare className="w-4 h-4" />
                   <span>{answers.length} answers</span>
                 </div>
+                {question.bounty && (
+                  <div
+                    className="flex items-center space-x-1 px-2 py-0.5 rounded bg-blue-600 text-white font-medium"
+                    title="Paid to the answer the author accepts"
+                  >
+                    <Award className="w-4 h-4" />
+                    <span>+{question.bounty} bounty</span>
+                  </div>
+                )}
               </div>
             </div>
             <button
@@ -261,61 +478,99 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
         </div>
 
         <div className="p-6">
+          {actionError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+              <p className="text-red-600 text-sm">{actionError}</p>
+            </div>
+          )}
+
+          {question.lockedAt && (
+            <div className="flex items-center space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+              <Lock className="w-4 h-4 flex-shrink-0" />
+              <span>
+                An admin locked this question on {new Date(question.lockedAt).toLocaleDateString()}. It takes no new
+                answers, comments or votes.
+              </span>
+            </div>
+          )}
+
           {/* Question Content */}
           <div className="bg-gray-50 rounded-lg p-6 mb-6">
             <div className="flex">
               {/* Voting */}
-              <div className="flex flex-col items-center space-y-2 mr-6">
-                <button
-                  onClick={() => handleVote(question.id, 'up')}
-                  disabled={!user}
-                  className={`p-2 rounded-full transition-colors ${
-                    votes[question.id]?.type === 'up'
-                      ? 'bg-green-100 text-green-600'
-                      : 'hover:bg-gray-200 text-gray-600'
-                  } ${!user ? 'opacity-50 cursor-not-allowed' : ''}`}
-                >
-                  <ArrowUp className="w-6 h-6" />
-                </button>
-                <span className="text-lg font-semibold text-gray-900">
-                  {votes[question.id]?.count || question.votes}
-                </span>
-                <button
-                  onClick={() => handleVote(question.id, 'down')}
-                  disabled={!user}
-                  className={`p-2 rounded-full transition-colors ${
-                    votes[question.id]?.type === 'down'
-                      ? 'bg-red-100 text-red-600'
-                      : 'hover:bg-gray-200 text-gray-600'
-                  } ${!user ? 'opacity-50 cursor-not-allowed' : ''}`}
-                >
-                  <ArrowDown className="w-6 h-6" />
-                </button>
-              </div>
+              <VoteControls
+                size="lg"
+                count={voteCounts[question.id] ?? question.votes}
+                userVote={userVotes[question.id]}
+                disabledReason={voteDisabledReason(question)}
+                onVote={(type) => handleVote(question, type)}
+              />
 
               {/* Content */}
               <div className="flex-1">
-                <div className="prose max-w-none text-gray-900 mb-4">
-                  {question.description}
-                </div>
+                {editing?.postType === 'question' ? (
+                  <form onSubmit={handleSaveEdit} className="space-y-3 mb-4">
+                    <input
+                      value={editing.title}
+                      onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <RichTextEditor
+                      value={editing.description}
+                      onChange={(description) => setEditing({ ...editing, description })}
+                      mentionSuggestions={suggestMentions}
+                      checkMentions={checkMentions}
+                    />
+                    <input
+                      value={editing.tags}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                      placeholder="Tags, comma separated"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {editFooter}
+                  </form>
+                ) : (
+                  <>
+                    <MarkdownContent content={question.description} className="text-gray-900 mb-4" />
 
-                {/* Tags */}
-                <div className="flex flex-wrap gap-2 mb-4">
-                  {question.tags.map((tag, index) => (
-                    <span
-                      key={index}
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTagColor(tag)}`}
-                    >
-                      <Tag className="w-3 h-3 mr-1" />
-                      {tag}
-                    </span>
-                  ))}
-                </div>
+                    {/* Tags */}
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {question.tags.map((tag, index) => (
+                        <TagBadge key={index} name={tag} />
+                      ))}
+                    </div>
+                  </>
+                )}
 
                 {/* Author */}
-                <div className="flex items-center justify-end">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    {shareButton(question.id, questionPath(question.id))}
+                    {editControl(question)}
+                    {flagControl(question)}
+                    {moderationControls(question)}
+                    {user?.id === question.authorId && !question.bounty && (
+                      <div className="flex items-center space-x-2 text-sm">
+                        <select
+                          value={bountyAmount}
+                          onChange={(e) => setBountyAmount(Number(e.target.value))}
+                          className="border border-gray-300 rounded px-1 py-0.5 text-gray-700"
+                        >
+                          {BOUNTY_AMOUNTS.map(amount => (
+                            <option key={amount} value={amount} disabled={amount > user.reputation}>{amount}</option>
+                          ))}
+                        </select>
+                        <button onClick={handleOfferBounty} className="text-gray-500 hover:text-gray-900">
+                          Offer bounty
+                        </button>
+                      </div>
+                    )}
+                  </div>
                   <div className="bg-blue-50 rounded-lg p-3">
-                    <div className="text-xs text-gray-500 mb-1">asked {formatTimeAgo(question.createdAt)}</div>
+                    <div className="text-xs text-gray-500 mb-1">
+                      asked {formatTimeAgo(question.createdAt)}
+                      {editedLink(question)}
+                    </div>
                     <div className="flex items-center space-x-2">
                       {question.author.avatar ? (
                         <img
@@ -329,53 +584,75 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
                         </div>
                       )}
                       <div>
-                        <div className="font-medium text-blue-600">{question.author.username}</div>
-                        <div className="text-xs text-gray-500">{question.author.reputation} reputation</div>
+                        <Link href={userPath(question.author.username)} className="font-medium text-blue-600 hover:text-blue-800">
+                          {question.author.username}
+                        </Link>
+                        <div className="text-xs text-gray-500 flex items-center space-x-2">
+                          <span>{question.author.reputation} reputation</span>
+                          <BadgeCounts counts={question.author.badgeCounts} />
+                        </div>
                       </div>
                     </div>
                   </div>
                 </div>
+
+                {/* Comments */}
+                {commentSection(question)}
               </div>
             </div>
           </div>
 
           {/* Answers */}
           <div className="space-y-6">
-            <h3 className="text-xl font-semibold text-gray-900">
-              {answers.length} Answer{answers.length !== 1 ? 's' : ''}
-            </h3>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-xl font-semibold text-gray-900">
+                {answers.length} Answer{answers.length !== 1 ? 's' : ''}
+              </h3>
+              {answers.length > 1 && (
+                <div className="flex items-center space-x-4 text-sm text-gray-600">
+                  <label className="flex items-center space-x-2">
+                    <span>Sorted by</span>
+                    <select
+                      value={order.sort}
+                      onChange={(e) => updateOrder({ sort: e.target.value as AnswerSort })}
+                      className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {ANSWER_SORTS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {question.acceptedAnswerId && (
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={order.pinAccepted}
+                        onChange={(e) => updateOrder({ pinAccepted: e.target.checked })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>Accepted first</span>
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
 
-            {answers.map((answer) => (
-              <div key={answer.id} className="border-b border-gray-200 pb-6 last:border-b-0">
+            {visibleAnswers.map((answer) => (
+              <div
+                key={answer.id}
+                id={answerAnchor(answer.id)}
+                className={`border-b border-gray-200 pb-6 last:border-b-0 ${
+                  answer.isAccepted ? 'border-l-4 border-l-green-500 pl-4' : ''
+                } ${answer.id === linkedAnswerId ? 'bg-yellow-50 rounded-lg pt-4 pr-4' : ''}`}
+              >
                 <div className="flex">
                   {/* Voting */}
-                  <div className="flex flex-col items-center space-y-2 mr-6">
-                    <button
-                      onClick={() => handleVote(answer.id, 'up')}
-                      disabled={!user}
-                      className={`p-2 rounded-full transition-colors ${
-                        votes[answer.id]?.type === 'up'
-                          ? 'bg-green-100 text-green-600'
-                          : 'hover:bg-gray-200 text-gray-600'
-                      } ${!user ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      <ArrowUp className="w-5 h-5" />
-                    </button>
-                    <span className="text-lg font-semibold text-gray-900">
-                      {votes[answer.id]?.count || answer.votes}
-                    </span>
-                    <button
-                      onClick={() => handleVote(answer.id, 'down')}
-                      disabled={!user}
-                      className={`p-2 rounded-full transition-colors ${
-                        votes[answer.id]?.type === 'down'
-                          ? 'bg-red-100 text-red-600'
-                          : 'hover:bg-gray-200 text-gray-600'
-                      } ${!user ? 'opacity-50 cursor-not-allowed' : ''}`}
-                    >
-                      <ArrowDown className="w-5 h-5" />
-                    </button>
-                    
+                  <VoteControls
+                    count={voteCounts[answer.id] ?? answer.votes}
+                    userVote={userVotes[answer.id]}
+                    disabledReason={voteDisabledReason(answer)}
+                    onVote={(type) => handleVote(answer, type)}
+                  >
                     {/* Accept Answer */}
                     {user && user.id === question.authorId && (
                       <button
@@ -385,7 +662,7 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
                             ? 'bg-green-100 text-green-600'
                             : 'hover:bg-gray-200 text-gray-600'
                         }`}
-                        title={answer.isAccepted ? 'Accepted answer' : 'Accept this answer'}
+                        title={answer.isAccepted ? 'Un-accept this answer' : 'Accept this answer'}
                       >
                         <Check className="w-5 h-5" />
                       </button>
@@ -396,20 +673,43 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
                         <Check className="w-5 h-5" />
                       </div>
                     )}
-                  </div>
+                  </VoteControls>
 
                   {/* Content */}
                   <div className="flex-1">
-                    <div className="prose max-w-none text-gray-900 mb-4">
-                      {answer.content.split('\n').map((paragraph, index) => (
-                        <p key={index} className="mb-3">{paragraph}</p>
-                      ))}
-                    </div>
+                    {answer.isAccepted && (
+                      <div className="inline-flex items-center space-x-1 text-green-600 text-sm font-medium mb-2">
+                        <Check className="w-4 h-4" />
+                        <span>Accepted answer</span>
+                      </div>
+                    )}
+                    {editing?.postType === 'answer' && editing.id === answer.id ? (
+                      <form onSubmit={handleSaveEdit} className="space-y-3 mb-4">
+                        <RichTextEditor
+                          value={editing.content}
+                          onChange={(content) => setEditing({ ...editing, content })}
+                          mentionSuggestions={suggestMentions}
+                          checkMentions={checkMentions}
+                        />
+                        {editFooter}
+                      </form>
+                    ) : (
+                      <MarkdownContent content={answer.content} className="text-gray-900 mb-4" />
+                    )}
 
                     {/* Author */}
-                    <div className="flex items-center justify-end">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        {shareButton(answer.id, answerPath(question.id, answer.id))}
+                        {editControl(answer)}
+                        {flagControl(answer)}
+                        {moderationControls(answer)}
+                      </div>
                       <div className="bg-gray-50 rounded-lg p-3">
-                        <div className="text-xs text-gray-500 mb-1">answered {formatTimeAgo(answer.createdAt)}</div>
+                        <div className="text-xs text-gray-500 mb-1">
+                          answered {formatTimeAgo(answer.createdAt)}
+                          {editedLink(answer)}
+                        </div>
                         <div className="flex items-center space-x-2">
                           {answer.author.avatar ? (
                             <img
@@ -423,28 +723,60 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
                             </div>
                           )}
                           <div>
-                            <div className="font-medium text-gray-900">{answer.author.username}</div>
-                            <div className="text-xs text-gray-500">{answer.author.reputation} reputation</div>
+                            <Link href={userPath(answer.author.username)} className="font-medium text-gray-900 hover:text-blue-600">
+                              {answer.author.username}
+                            </Link>
+                            <div className="text-xs text-gray-500 flex items-center space-x-2">
+                              <span>{answer.author.reputation} reputation</span>
+                              <BadgeCounts counts={answer.author.badgeCounts} />
+                            </div>
                           </div>
                         </div>
                       </div>
                     </div>
+
+                    {/* Comments */}
+                    {commentSection(answer)}
                   </div>
                 </div>
               </div>
             ))}
+
+            {orderedAnswers.length > shownCount && (
+              <button
+                onClick={() => setVisibleCount(shownCount + ANSWERS_PER_PAGE)}
+                className="w-full py-2 text-sm font-medium text-blue-600 hover:text-blue-800 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Show more answers ({orderedAnswers.length - shownCount} remaining)
+              </button>
+            )}
           </div>
 
           {/* Submit Answer */}
-          {user ? (
+          {user && closedReason ? (
+            <div className="mt-8 border-t border-gray-200 pt-6">
+              <p className="bg-gray-50 rounded-lg p-6 text-center text-gray-600">{closedReason}</p>
+            </div>
+          ) : user ? (
             <div className="mt-8 border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Answer</h3>
+              {draft.pending && (
+                <div className="mb-4">
+                  <DraftPrompt
+                    draft={draft.pending}
+                    onRestore={() => setNewAnswer(draft.restore()?.body ?? newAnswer)}
+                    onDiscard={draft.discard}
+                  />
+                </div>
+              )}
               <form onSubmit={handleSubmitAnswer}>
                 <RichTextEditor
                   value={newAnswer}
                   onChange={setNewAnswer}
                   placeholder="Write your answer here..."
                   className="mb-4"
+                  mentionSuggestions={suggestMentions}
+                  checkMentions={checkMentions}
                 />
                 <div className="flex justify-end">
                   <button
@@ -472,6 +804,15 @@ export const QuestionDetailModal: React.FC<QuestionDetailModalProps> = ({ questi
           )}
         </div>
       </div>
+
+      {history && (
+        <RevisionHistory
+          postType={'questionId' in history ? 'answer' : 'question'}
+          postId={history.id}
+          canRollback={!editProblem(user, history, question)}
+          onClose={() => setHistory(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ReputationPoint } from '../utils/profile';
+
+interface ReputationGraphProps {
+  // Oldest first
+  points: ReputationPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+// A step chart of reputation over time, drawn to today
+export const ReputationGraph: React.FC<ReputationGraphProps> = ({ points }) => {
+  if (points.length === 0) return null;
+
+  const times = points.map(point => new Date(point.date).getTime());
+  const start = Math.min(...times);
+  const end = Math.max(Date.now(), times[times.length - 1]);
+  const values = points.map(point => point.reputation);
+  const min = Math.min(0, ...values);
+  const max = Math.max(1, ...values);
+
+  const x = (time: number) => PADDING + ((time - start) / (end - start || 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+
+  // Reputation holds until the next change, so each point steps across before it steps up or down
+  const path = points
+    .slice(1)
+    .reduce(
+      (d, point, index) => `${d} H ${x(times[index + 1])} V ${y(point.reputation)}`,
+      `M ${x(times[0])} ${y(points[0].reputation)}`
+    ) + ` H ${x(end)}`;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        <title>Reputation over time</title>
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(0)} y2={y(0)} className="stroke-gray-200" strokeWidth={1} />
+        <path d={path} fill="none" className="stroke-blue-600" strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle key={index} cx={x(times[index])} cy={y(point.reputation)} r={3} className="fill-blue-600">
+            <title>{`${point.reputation} on ${new Date(point.date).toLocaleDateString()}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{new Date(start).toLocaleDateString()}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
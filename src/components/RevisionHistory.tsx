@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Revision } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { DiffPart, diffWords } from '../utils/diff';
+import { userPath } from '../utils/routes';
+import { Link } from './Link';
+
+type DiffMode = 'inline' | 'side-by-side';
+
+const PART_CLASSES: Record<DiffPart['type'], string> = {
+  same: '',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-900 line-through'
+};
+
+interface FieldDiffProps {
+  label: string;
+  // Missing for the first revision, which is shown as it was written
+  before?: string;
+  after: string;
+  mode: DiffMode;
+  // Leaves the field out when the revision didn't change it
+  hideUnchanged?: boolean;
+}
+
+// One field of a revision against the one before it
+const FieldDiff: React.FC<FieldDiffProps> = ({ label, before, after, mode, hideUnchanged }) => {
+  if (hideUnchanged && before === after) return null;
+
+  const parts = before === undefined ? [{ type: 'same' as const, text: after }] : diffWords(before, after);
+  const render = (types: DiffPart['type'][]) => parts
+    .filter(part => types.includes(part.type))
+    .map((part, index) => <span key={index} className={PART_CLASSES[part.type]}>{part.text}</span>);
+  const textClass = 'font-mono text-sm whitespace-pre-wrap break-words bg-gray-50 rounded p-3';
+
+  return (
+    <div className="mb-3">
+      <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{label}</div>
+      {mode === 'inline' || before === undefined ? (
+        <div className={textClass}>{render(['same', 'removed', 'added'])}</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div className={textClass}>{render(['same', 'removed'])}</div>
+          <div className={textClass}>{render(['same', 'added'])}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface RevisionHistoryProps {
+  postType: Revision['postType'];
+  postId: string;
+  // Whether the user may edit the post, and so roll it back
+  canRollback: boolean;
+  onClose: () => void;
+}
+
+// Every revision of a post, newest first, each diffed against the one before
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ postType, postId, canRollback, onClose }) => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadRevisions = async () => {
+      try {
+        const loaded = postType === 'question'
+          ? await repository.questions.listRevisions(postId)
+          : await repository.answers.listRevisions(postId);
+        if (!cancelled) setRevisions(loaded);
+      } catch (error) {
+        console.error('Error loading revisions:', error);
+      }
+    };
+
+    loadRevisions();
+    const unsubscribe = repository.subscribe(loadRevisions);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, postType, postId]);
+
+  const handleRollback = async (revision: Revision) => {
+    if (!user || !window.confirm(`Roll back to revision ${revision.number}?`)) return;
+
+    setError('');
+    try {
+      const input = { id: postId, revisionId: revision.id, userId: user.id };
+      await (postType === 'question' ? repository.questions.rollback(input) : repository.answers.rollback(input));
+    } catch (error) {
+      console.error('Error rolling back:', error);
+      setError(error instanceof Error ? error.message : 'Could not roll back to that revision');
+    }
+  };
+
+  const current = revisions[revisions.length - 1];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 p-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {revisions.length} revision{revisions.length !== 1 ? 's' : ''}
+          </h2>
+          <div className="flex items-center space-x-4">
+            <div className="flex text-sm border border-gray-300 rounded-lg overflow-hidden">
+              {(['inline', 'side-by-side'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-1 capitalize ${mode === option ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {option.replace(/-/g, ' ')}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {[...revisions].reverse().map(revision => {
+            const previous = revisions.find(r => r.number === revision.number - 1);
+            return (
+              <section key={revision.id} className="border-b border-gray-200 pb-6 last:border-b-0">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="text-sm text-gray-600">
+                    <span className="font-semibold text-gray-900 mr-2">Revision {revision.number}</span>
+                    {revision.summary || (revision.number === 1 ? 'Original post' : 'No edit summary')}
+                  </div>
+                  <div className="flex items-center space-x-3 text-sm text-gray-500">
+                    <Link href={userPath(revision.author.username)} className="text-blue-600 hover:text-blue-800">
+                      {revision.author.username}
+                    </Link>
+                    <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                    {revision === current ? (
+                      <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">Current</span>
+                    ) : canRollback && (
+                      <button onClick={() => handleRollback(revision)} className="text-blue-600 hover:text-blue-800">
+                        Roll back
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {revision.title !== undefined && (
+                  <FieldDiff label="Title" before={previous?.title} after={revision.title} mode={mode} hideUnchanged />
+                )}
+                {revision.tags && (
+                  <FieldDiff
+                    label="Tags"
+                    before={previous?.tags?.join(' ')}
+                    after={revision.tags.join(' ')}
+                    mode={mode}
+                    hideUnchanged
+                  />
+                )}
+                <FieldDiff label="Body" before={previous?.body} after={revision.body} mode={mode} />
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
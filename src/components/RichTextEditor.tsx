@@ -13,25 +13,53 @@ import {
   AlignRight,
   Code
 } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { User } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { activeMention } from '../data/mentions';
+import { createId } from '../data/repository';
+import { IMAGE_TYPES, imageAlt, replacePlaceholder, uploadPlaceholder, validateImage } from '../data/uploads';
 
 interface RichTextEditorProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
   className?: string;
+  // Users to offer while an @mention is typed; no picker without it
+  mentionSuggestions?: (query: string) => User[];
+  // A warning about @handles that don't name anyone, or null
+  checkMentions?: (text: string) => string | null;
 }
 
 export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   value,
   onChange,
   placeholder = "Write your content here...",
-  className = ""
+  className = "",
+  mentionSuggestions,
+  checkMentions
 }) => {
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [showLinkDialog, setShowLinkDialog] = useState(false);
   const [linkUrl, setLinkUrl] = useState('');
   const [linkText, setLinkText] = useState('');
+  // The @mention being typed at the cursor, and which suggestion is highlighted
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadError, setUploadError] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Uploads finish after later edits, so they change the latest text rather than the text they started with
+  const latestValue = useRef(value);
+  latestValue.current = value;
+  const { user } = useAuth();
+  const repository = useRepository();
+
+  const suggestions = mention && mentionSuggestions ? mentionSuggestions(mention.query) : [];
+  // Not while a handle is still being typed
+  const mentionWarning = mention ? null : checkMentions?.(value);
 
   const emojis = ['😀', '😊', '😍', '🤔', '😅', '👍', '👎', '❤️', '🎉', '🔥', '💡', '✅', '❌', '⚡', '🚀', '💻'];
 
@@ -68,12 +96,75 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     }
   };
 
-  const insertImage = () => {
-    const url = prompt('Enter image URL:');
-    if (url) {
-      const alt = prompt('Enter image alt text (optional):') || 'Image';
-      insertText(`![${alt}](${url})`);
+  const updateText = (update: (text: string) => string) => {
+    latestValue.current = update(latestValue.current);
+    onChange(latestValue.current);
+  };
+
+  // Each image gets a placeholder at the cursor showing its progress, swapped for the image once uploaded
+  const uploadImages = (files: File[]) => {
+    if (!user || files.length === 0) return;
+
+    const problem = files.map(validateImage).find(Boolean);
+    if (problem) {
+      setUploadError(problem);
+      return;
     }
+    setUploadError('');
+
+    const uploads = files.map(file => ({ id: createId('upload'), file }));
+    const cursor = textareaRef.current?.selectionEnd ?? latestValue.current.length;
+    const placeholders = uploads.map(({ id, file }) => uploadPlaceholder(id, file.name, 0)).join('\n');
+    updateText(text => text.substring(0, cursor) + placeholders + text.substring(cursor));
+
+    uploads.forEach(async ({ id, file }) => {
+      let shown = 0;
+      try {
+        const image = await repository.uploads.uploadImage({
+          file,
+          userId: user.id,
+          onProgress: (progress) => {
+            if (Math.round(progress * 100) === Math.round(shown * 100)) return;
+            shown = progress;
+            updateText(text => replacePlaceholder(text, id, uploadPlaceholder(id, file.name, progress)));
+          }
+        });
+        updateText(text => replacePlaceholder(text, id, `![${imageAlt(file.name)}](${image.url})`));
+      } catch (error) {
+        console.error('Error uploading image:', error);
+        updateText(text => replacePlaceholder(text, id, ''));
+        setUploadError(error instanceof Error ? error.message : 'Could not upload the image');
+      }
+    });
+  };
+
+  const imageFiles = (files: FileList | null) =>
+    Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = imageFiles(e.clipboardData.files);
+    if (!user || images.length === 0) return;
+    e.preventDefault();
+    uploadImages(images);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!user || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  // Any dropped file is kept from the browser, which would otherwise open it in place of the page
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDragging(false);
+    if (!user || e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    const images = imageFiles(e.dataTransfer.files);
+    if (images.length === 0) {
+      setUploadError("That file type isn't supported; only PNG, JPEG, GIF or WebP images can be added");
+      return;
+    }
+    uploadImages(images);
   };
 
   const insertCodeBlock = () => {
@@ -98,7 +189,55 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     insertText(`<div style="text-align: ${alignment}">`, '</div>');
   };
 
+  const updateMention = (textarea: HTMLTextAreaElement) => {
+    const next = mentionSuggestions ? activeMention(textarea.value, textarea.selectionStart) : null;
+    if (next?.start !== mention?.start || next?.query !== mention?.query) {
+      setMention(next);
+      setHighlighted(0);
+    }
+  };
+
+  // Swaps the partly typed @mention for the chosen username
+  const pickMention = (user: User) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mention) return;
+
+    const inserted = `@${user.username} `;
+    const cursor = mention.start + inserted.length;
+    onChange(value.substring(0, mention.start) + inserted + value.substring(textarea.selectionStart));
+    setMention(null);
+
+    setTimeout(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+    }, 10);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The mention picker takes the arrow keys, Enter, Tab and Escape while it's open
+    if (suggestions.length > 0) {
+      switch (e.key) {
+        case 'ArrowDown':
+          e.preventDefault();
+          setHighlighted((highlighted + 1) % suggestions.length);
+          return;
+        case 'ArrowUp':
+          e.preventDefault();
+          setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+          return;
+        case 'Enter':
+        case 'Tab':
+          e.preventDefault();
+          pickMention(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+          return;
+        case 'Escape':
+          e.preventDefault();
+          e.stopPropagation();
+          setMention(null);
+          return;
+      }
+    }
+
     // Handle keyboard shortcuts
     if (e.ctrlKey || e.metaKey) {
       switch (e.key) {
@@ -116,12 +255,6 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           break;
       }
     }
-
-    // Handle @ mentions
-    if (e.key === '@') {
-      // This could be enhanced to show a user picker dropdown
-      console.log('Mention triggered');
-    }
   };
 
   return (
@@ -225,12 +358,24 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         </button>
         <button
           type="button"
-          onClick={insertImage}
-          className="p-2 hover:bg-gray-200 rounded transition-colors"
-          title="Insert Image"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!user}
+          className="p-2 hover:bg-gray-200 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={user ? 'Insert Image (or paste or drop one)' : 'Sign in to upload images'}
         >
           <Image size={16} />
         </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMAGE_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            uploadImages(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
         
         <div className="w-px bg-gray-300 mx-1" />
         
@@ -291,50 +436,76 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       </div>
       
       {/* Editor */}
-      <textarea
-        ref={textareaRef}
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder={placeholder}
-        className="w-full h-64 p-4 resize-none focus:outline-none font-mono text-sm"
-      />
+      <div
+        className={`relative ${isDragging ? 'ring-2 ring-inset ring-blue-400 bg-blue-50' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateMention(e.target);
+          }}
+          onSelect={(e) => updateMention(e.currentTarget)}
+          onBlur={() => setMention(null)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={placeholder}
+          className="w-full h-64 p-4 resize-none focus:outline-none font-mono text-sm bg-transparent"
+          aria-autocomplete={mentionSuggestions ? 'list' : undefined}
+        />
+
+        {/* Mention picker */}
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            aria-label="Mention a user"
+            className="absolute left-4 bottom-4 w-64 max-h-48 overflow-y-auto bg-white border border-gray-300 rounded-lg shadow-lg z-10"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.id}
+                role="option"
+                aria-selected={index === highlighted}
+                // Picked on mouse down so the textarea keeps its cursor
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pickMention(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center space-x-2 px-3 py-2 cursor-pointer text-sm ${
+                  index === highlighted ? 'bg-blue-50' : ''
+                }`}
+              >
+                {suggestion.avatar ? (
+                  <img src={suggestion.avatar} alt="" className="w-5 h-5 rounded-full object-cover" />
+                ) : (
+                  <span className="w-5 h-5 rounded-full bg-gray-300" />
+                )}
+                <span className="font-medium text-gray-900">{suggestion.username}</span>
+                <span className="text-xs text-gray-500">{suggestion.reputation}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
       
+      {uploadError && (
+        <p className="border-t border-gray-300 px-4 py-2 text-sm text-red-600">{uploadError}</p>
+      )}
+
+      {mentionWarning && (
+        <p className="border-t border-gray-300 px-4 py-2 text-sm text-amber-700">{mentionWarning}</p>
+      )}
+
       {/* Preview */}
       {value && (
         <div className="border-t border-gray-300 bg-gray-50 p-4">
           <div className="text-xs text-gray-500 mb-2 font-semibold">Preview:</div>
-          <div className="prose prose-sm max-w-none bg-white p-3 rounded border">
-            {value.split('\n').map((line, index) => {
-              // Basic markdown rendering for preview
-              let processedLine = line
-                .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                .replace(/\*(.*?)\*/g, '<em>$1</em>')
-                .replace(/~~(.*?)~~/g, '<del>$1</del>')
-                .replace(/`(.*?)`/g, '<code class="bg-gray-100 px-1 rounded">$1</code>')
-                .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" class="text-blue-600 hover:underline">$1</a>')
-                .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" class="max-w-full h-auto" />')
-                .replace(/@(\w+)/g, '<span class="text-blue-600 font-medium">@$1</span>');
-
-              if (line.startsWith('# ')) {
-                return <h1 key={index} className="text-xl font-bold mb-2" dangerouslySetInnerHTML={{ __html: processedLine.substring(2) }} />;
-              } else if (line.startsWith('## ')) {
-                return <h2 key={index} className="text-lg font-bold mb-2" dangerouslySetInnerHTML={{ __html: processedLine.substring(3) }} />;
-              } else if (line.startsWith('### ')) {
-                return <h3 key={index} className="text-base font-bold mb-2" dangerouslySetInnerHTML={{ __html: processedLine.substring(4) }} />;
-              } else if (line.startsWith('- ')) {
-                return <li key={index} className="ml-4" dangerouslySetInnerHTML={{ __html: processedLine.substring(2) }} />;
-              } else if (line.match(/^\d+\. /)) {
-                return <li key={index} className="ml-4 list-decimal" dangerouslySetInnerHTML={{ __html: processedLine.replace(/^\d+\. /, '') }} />;
-              } else if (line.startsWith('```')) {
-                return <div key={index} className="bg-gray-100 p-2 rounded font-mono text-sm">Code block</div>;
-              } else if (line.trim() === '') {
-                return <br key={index} />;
-              } else {
-                return <p key={index} className="mb-2" dangerouslySetInnerHTML={{ __html: processedLine }} />;
-              }
-            })}
-          </div>
+          <MarkdownContent content={value} className="text-sm bg-white p-3 rounded border" />
         </div>
       )}
       
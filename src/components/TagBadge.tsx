@@ -0,0 +1,25 @@
+import React from 'react';
+import { Tag as TagIcon } from 'lucide-react';
+import { Link } from './Link';
+import { tagColor } from '../utils/tags';
+import { tagPath } from '../utils/routes';
+
+interface TagBadgeProps {
+  name: string;
+  // Shown as a tooltip, e.g. the tag's description
+  title?: string;
+  onClick?: (e: React.MouseEvent) => void;
+}
+
+// A tag chip linking to the tag's questions
+export const TagBadge: React.FC<TagBadgeProps> = ({ name, title, onClick }) => (
+  <Link
+    href={tagPath(name)}
+    title={title}
+    onClick={onClick}
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 ${tagColor(name)}`}
+  >
+    <TagIcon className="w-3 h-3 mr-1" />
+    {name}
+  </Link>
+);
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { Vote } from '../types';
+
+interface VoteControlsProps {
+  count: number;
+  userVote?: Vote['type'];
+  // Disables voting and explains why in the button tooltip
+  disabledReason?: string;
+  size?: 'md' | 'lg';
+  onVote: (type: Vote['type']) => void;
+  children?: React.ReactNode;
+}
+
+export const VoteControls: React.FC<VoteControlsProps> = ({
+  count,
+  userVote,
+  disabledReason,
+  size = 'md',
+  onVote,
+  children
+}) => {
+  const iconClass = size === 'lg' ? 'w-6 h-6' : 'w-5 h-5';
+  const disabledClass = disabledReason ? 'opacity-50 cursor-not-allowed' : '';
+
+  return (
+    <div className="flex flex-col items-center space-y-2 mr-6">
+      <button
+        onClick={() => onVote('up')}
+        disabled={!!disabledReason}
+        title={disabledReason ?? (userVote === 'up' ? 'Remove your upvote' : 'This is useful')}
+        className={`p-2 rounded-full transition-colors ${
+          userVote === 'up'
+            ? 'bg-green-100 text-green-600'
+            : 'hover:bg-gray-200 text-gray-600'
+        } ${disabledClass}`}
+      >
+        <ArrowUp className={iconClass} />
+      </button>
+      <span className="text-lg font-semibold text-gray-900">
+        {count}
+      </span>
+      <button
+        onClick={() => onVote('down')}
+        disabled={!!disabledReason}
+        title={disabledReason ?? (userVote === 'down' ? 'Remove your downvote' : 'This is not useful')}
+        className={`p-2 rounded-full transition-colors ${
+          userVote === 'down'
+            ? 'bg-red-100 text-red-600'
+            : 'hover:bg-gray-200 text-gray-600'
+        } ${disabledClass}`}
+      >
+        <ArrowDown className={iconClass} />
+      </button>
+      {children}
+    </div>
+  );
+};
@@ -1,11 +1,17 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User } from '../types';
+import { useRepository } from './RepositoryContext';
+
+interface AuthResult {
+  success: boolean;
+  error?: string;
+}
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
-  register: (username: string, email: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<AuthResult>;
+  register: (username: string, email: string, password: string) => Promise<AuthResult>;
+  logout: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -20,61 +26,93 @@ export const useAuth = () => {
 };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const repository = useRepository();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Simulate loading user from localStorage or API
-    const savedUser = localStorage.getItem('stackit_user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
-    }
-    setIsLoading(false);
-  }, []);
+    let cancelled = false;
+    // Older builds trusted a serialised user here; sessions are validated instead now
+    localStorage.removeItem('stackit_user');
+
+    const restoreSession = async () => {
+      try {
+        const restored = await repository.auth.restoreSession();
+        if (!cancelled) setUser(restored);
+      } catch (error) {
+        console.error('Error restoring session:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    restoreSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  // Reputation and other details change as people vote, so keep the signed-in user current
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
 
-  const login = async (email: string, password: string): Promise<boolean> => {
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Demo user for testing
-    if (email === 'demo@stackit.com' && password === 'demo123') {
-      const demoUser: User = {
-        id: '1',
-        username: 'demo_user',
-        email: 'demo@stackit.com',
-        role: 'user',
-        avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
-        joinDate: '2024-01-15',
-        reputation: 1250
+    let cancelled = false;
+    const refreshUser = async () => {
+      try {
+        const latest = await repository.users.get(userId);
+        // The public record leaves out the email, so keep the one the account signed in with
+        if (!cancelled && latest) setUser(current => current && { ...latest, email: current.email });
+      } catch (error) {
+        console.error('Error refreshing user:', error);
+      }
+    };
+
+    const unsubscribe = repository.subscribe(refreshUser);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, userId]);
+
+  const login = async (email: string, password: string): Promise<AuthResult> => {
+    try {
+      const loggedIn = await repository.auth.login(email, password);
+      if (!loggedIn) {
+        return { success: false, error: 'Invalid email or password' };
+      }
+      setUser(loggedIn);
+      return { success: true };
+    } catch (error) {
+      console.error('Login failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Login failed. Please try again.'
       };
-      setUser(demoUser);
-      localStorage.setItem('stackit_user', JSON.stringify(demoUser));
-      return true;
     }
-    return false;
   };
 
-  const register = async (username: string, email: string, password: string): Promise<boolean> => {
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const newUser: User = {
-      id: Date.now().toString(),
-      username,
-      email,
-      role: 'user',
-      joinDate: new Date().toISOString().split('T')[0],
-      reputation: 0
-    };
-    
-    setUser(newUser);
-    localStorage.setItem('stackit_user', JSON.stringify(newUser));
-    return true;
+  const register = async (username: string, email: string, password: string): Promise<AuthResult> => {
+    try {
+      const newUser = await repository.auth.register({ username, email, password });
+      setUser(newUser);
+      return { success: true };
+    } catch (error) {
+      console.error('Registration failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Registration failed. Please try again.'
+      };
+    }
   };
 
-  const logout = () => {
+  const logout = async () => {
     setUser(null);
-    localStorage.removeItem('stackit_user');
+    try {
+      await repository.auth.logout();
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
   };
 
   return (
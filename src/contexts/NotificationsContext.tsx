@@ -0,0 +1,105 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Notification } from '../types';
+import { useAuth } from './AuthContext';
+import { useRepository } from './RepositoryContext';
+
+interface NotificationsContextType {
+  notifications: Notification[];
+  unreadCount: number;
+  // A badge award that arrived while the page was open
+  announcement: Notification | null;
+  dismissAnnouncement: () => void;
+  // Takes one id or a whole group's; ones already read are left alone
+  markAsRead: (notificationIds: string | string[]) => void;
+  markAllAsRead: () => void;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+};
+
+// Shared by the header and the notifications page, so there is one list, one unread count and one stream
+export const NotificationsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const unreadCount = useMemo(() => notifications.filter(n => !n.read).length, [notifications]);
+  const [announcement, setAnnouncement] = useState<Notification | null>(null);
+  // Ids already shown, so a pushed notification the first load also returned isn't added twice
+  const seenIds = useRef<Set<string>>(new Set());
+
+  // The user object is replaced after every write; reopening the stream then would drop the announcement
+  const userId = user?.id;
+  useEffect(() => {
+    seenIds.current = new Set();
+    setAnnouncement(null);
+    if (!userId) {
+      setNotifications([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadNotifications = async () => {
+      try {
+        const loaded = await repository.notifications.listByUser(userId);
+        if (cancelled) return;
+        setNotifications(loaded);
+        loaded.forEach(n => seenIds.current.add(n.id));
+      } catch (error) {
+        console.error('Error loading notifications:', error);
+      }
+    };
+
+    const receive = (notification: Notification) => {
+      if (seenIds.current.has(notification.id)) return;
+      seenIds.current.add(notification.id);
+      setNotifications(prev => [notification, ...prev]);
+      if (notification.type === 'badge') setAnnouncement(notification);
+    };
+
+    // Watch first so nothing created while the list loads is missed
+    const unwatch = repository.notifications.watch(userId, receive);
+    loadNotifications();
+
+    return () => {
+      cancelled = true;
+      unwatch();
+    };
+  }, [userId, repository]);
+
+  const markAsRead = (notificationIds: string | string[]) => {
+    const ids = new Set(typeof notificationIds === 'string' ? [notificationIds] : notificationIds);
+    const unread = notifications.filter(n => ids.has(n.id) && !n.read);
+    if (unread.length === 0) return;
+
+    setNotifications(prev => prev.map(n => ids.has(n.id) ? { ...n, read: true } : n));
+    unread.forEach(n => {
+      repository.notifications.markRead(n.id)
+        .catch(error => console.error('Error marking notification as read:', error));
+    });
+  };
+
+  const markAllAsRead = () => {
+    if (!user) return;
+
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    repository.notifications.markAllRead(user.id)
+      .catch(error => console.error('Error marking notifications as read:', error));
+  };
+
+  const dismissAnnouncement = useCallback(() => setAnnouncement(null), []);
+
+  return (
+    <NotificationsContext.Provider
+      value={{ notifications, unreadCount, announcement, dismissAnnouncement, markAsRead, markAllAsRead }}
+    >
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
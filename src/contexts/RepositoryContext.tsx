@@ -0,0 +1,29 @@
+import React, { createContext, useContext, useState } from 'react';
+import { createRepository } from '../data';
+import { DataRepository } from '../data/repository';
+
+const RepositoryContext = createContext<DataRepository | undefined>(undefined);
+
+export const useRepository = () => {
+  const context = useContext(RepositoryContext);
+  if (context === undefined) {
+    throw new Error('useRepository must be used within a RepositoryProvider');
+  }
+  return context;
+};
+
+interface RepositoryProviderProps {
+  children: React.ReactNode;
+  // Override the environment-selected store, e.g. with an in-memory one
+  repository?: DataRepository;
+}
+
+export const RepositoryProvider: React.FC<RepositoryProviderProps> = ({ children, repository }) => {
+  const [value] = useState(() => repository ?? createRepository());
+
+  return (
+    <RepositoryContext.Provider value={value}>
+      {children}
+    </RepositoryContext.Provider>
+  );
+};
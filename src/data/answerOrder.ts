@@ -0,0 +1,64 @@
+import { Answer, Comment } from '../types';
+
+export type AnswerSort = 'score' | 'newest' | 'oldest' | 'active';
+
+export const ANSWER_SORTS: { value: AnswerSort; label: string }[] = [
+  { value: 'score', label: 'Highest score' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'active', label: 'Recently active' }
+];
+
+export interface AnswerOrder {
+  sort: AnswerSort;
+  // Whether the accepted answer comes first whatever the sort
+  pinAccepted: boolean;
+}
+
+export const DEFAULT_ANSWER_ORDER: AnswerOrder = { sort: 'score', pinAccepted: true };
+
+// Long threads show this many answers, then more on request
+export const ANSWERS_PER_PAGE = 10;
+
+// When the answer was last edited or commented on
+export const lastActivity = (answer: Answer, comments: Comment[]) =>
+  comments
+    .filter(comment => comment.targetType === 'answer' && comment.targetId === answer.id)
+    .reduce((latest, comment) => (comment.updatedAt > latest ? comment.updatedAt : latest), answer.updatedAt);
+
+// comments are the thread's comments, for the recently active sort
+export const sortAnswers = (answers: Answer[], { sort, pinAccepted }: AnswerOrder, comments: Comment[]) => {
+  const compare = (a: Answer, b: Answer) => {
+    switch (sort) {
+      case 'score':
+        return b.votes - a.votes || a.createdAt.localeCompare(b.createdAt);
+      case 'newest':
+        return b.createdAt.localeCompare(a.createdAt);
+      case 'oldest':
+        return a.createdAt.localeCompare(b.createdAt);
+      case 'active':
+        return lastActivity(b, comments).localeCompare(lastActivity(a, comments));
+    }
+  };
+
+  return [...answers].sort((a, b) => (pinAccepted ? Number(b.isAccepted) - Number(a.isAccepted) : 0) || compare(a, b));
+};
+
+const storageKey = (userId?: string) => (userId ? `stackit_answer_order_${userId}` : 'stackit_answer_order');
+
+export const loadAnswerOrder = (userId?: string): AnswerOrder => {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return DEFAULT_ANSWER_ORDER;
+
+  try {
+    const order = { ...DEFAULT_ANSWER_ORDER, ...JSON.parse(saved) } as AnswerOrder;
+    return ANSWER_SORTS.some(({ value }) => value === order.sort) ? order : DEFAULT_ANSWER_ORDER;
+  } catch {
+    localStorage.removeItem(storageKey(userId));
+    return DEFAULT_ANSWER_ORDER;
+  }
+};
+
+export const saveAnswerOrder = (order: AnswerOrder, userId?: string) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(order));
+};
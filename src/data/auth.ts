@@ -0,0 +1,107 @@
+import { RegisterInput } from './repository';
+
+export const ACCESS_TOKEN_TTL = 1000 * 60 * 15; // 15 minutes
+export const REFRESH_TOKEN_TTL = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+const PASSWORD_SCHEME = 'pbkdf2-sha256';
+const PASSWORD_ITERATIONS = 100_000;
+
+// What the client holds on to; only hashes of the tokens are ever stored
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  accessExpiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface StoredSession {
+  id: string;
+  userId: string;
+  accessTokenHash: string;
+  refreshTokenHash: string;
+  accessExpiresAt: string;
+  refreshExpiresAt: string;
+  createdAt: string;
+}
+
+export interface Credential {
+  userId: string;
+  passwordHash: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+// Produces "scheme$iterations$salt$hash" so the parameters can change without breaking old hashes
+export const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, PASSWORD_ITERATIONS);
+  return [PASSWORD_SCHEME, PASSWORD_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== PASSWORD_SCHEME || !salt || !hash) return false;
+
+  const actual = await derive(password, fromBase64(salt), Number(iterations));
+  const expected = fromBase64(hash);
+
+  // Compare every byte so timing doesn't reveal where the first mismatch is
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+};
+
+export const createToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashToken = async (token: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(token))));
+
+export const issueSession = async (userId: string, id: string) => {
+  const now = Date.now();
+  const session: AuthSession = {
+    accessToken: createToken(),
+    refreshToken: createToken(),
+    accessExpiresAt: new Date(now + ACCESS_TOKEN_TTL).toISOString(),
+    refreshExpiresAt: new Date(now + REFRESH_TOKEN_TTL).toISOString()
+  };
+  const stored: StoredSession = {
+    id,
+    userId,
+    accessTokenHash: await hashToken(session.accessToken),
+    refreshTokenHash: await hashToken(session.refreshToken),
+    accessExpiresAt: session.accessExpiresAt,
+    refreshExpiresAt: session.refreshExpiresAt,
+    createdAt: new Date(now).toISOString()
+  };
+  return { session, stored };
+};
+
+export const isExpired = (timestamp: string) => new Date(timestamp).getTime() <= Date.now();
+
+// Shared by the client stores and the API so both reject the same input
+export const validateRegistration = ({ username, email, password }: RegisterInput): string | null => {
+  if (!/^\w{3,20}$/.test(username)) {
+    return 'Username must be 3-20 letters, numbers or underscores';
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return 'Please enter a valid email address';
+  }
+  if (password.length < 6) {
+    return 'Password must be at least 6 characters';
+  }
+  return null;
+};
@@ -0,0 +1,149 @@
+import { Answer, Badge, Question } from '../types';
+import { createId } from './repository';
+
+export interface BadgeDefinition {
+  // Stable key; tag badges use tag:<name>:<tier>
+  id: string;
+  name: string;
+  description: string;
+  tier: Badge['tier'];
+  tag?: string;
+}
+
+// Everything a user posted, as the badge rules see it
+export interface BadgeActivity {
+  questions: Pick<Question, 'id' | 'votes' | 'views'>[];
+  answers: (Pick<Answer, 'id' | 'questionId' | 'votes' | 'isAccepted'> & { tags: string[] })[];
+}
+
+interface BadgeRule extends BadgeDefinition {
+  // The post that earned the badge, or null while it hasn't been earned
+  earnedBy: (activity: BadgeActivity) => string | null;
+}
+
+const firstId = <T extends { id: string }>(posts: T[], matches: (post: T) => boolean) =>
+  posts.find(matches)?.id ?? null;
+
+const RULES: BadgeRule[] = [
+  {
+    id: 'student',
+    name: 'Student',
+    description: 'Asked a first question',
+    tier: 'bronze',
+    earnedBy: ({ questions }) => firstId(questions, () => true)
+  },
+  {
+    id: 'helper',
+    name: 'Helper',
+    description: 'Had a first answer accepted',
+    tier: 'bronze',
+    earnedBy: ({ answers }) => firstId(answers, answer => answer.isAccepted)
+  },
+  {
+    id: 'popular-question',
+    name: 'Popular Question',
+    description: 'Asked a question with 100 views',
+    tier: 'bronze',
+    earnedBy: ({ questions }) => firstId(questions, question => question.views >= 100)
+  },
+  {
+    id: 'good-question',
+    name: 'Good Question',
+    description: 'Asked a question with a score of 10',
+    tier: 'silver',
+    earnedBy: ({ questions }) => firstId(questions, question => question.votes >= 10)
+  },
+  {
+    id: 'good-answer',
+    name: 'Good Answer',
+    description: 'Posted an answer with a score of 10',
+    tier: 'silver',
+    earnedBy: ({ answers }) => firstId(answers, answer => answer.votes >= 10)
+  },
+  {
+    id: 'famous-question',
+    name: 'Famous Question',
+    description: 'Asked a question with 1,000 views',
+    tier: 'gold',
+    earnedBy: ({ questions }) => firstId(questions, question => question.views >= 1000)
+  },
+  {
+    id: 'great-question',
+    name: 'Great Question',
+    description: 'Asked a question with a score of 25',
+    tier: 'gold',
+    earnedBy: ({ questions }) => firstId(questions, question => question.votes >= 25)
+  }
+];
+
+// Total answer score needed in one tag for each tier
+export const TAG_BADGE_SCORES: Record<Badge['tier'], number> = { bronze: 10, silver: 50, gold: 200 };
+
+export const tagBadge = (tag: string, tier: Badge['tier']): BadgeDefinition => ({
+  id: `tag:${tag}:${tier}`,
+  name: tag,
+  description: `Earned a score of ${TAG_BADGE_SCORES[tier]} from answers tagged ${tag}`,
+  tier,
+  tag
+});
+
+// Badges the activity has earned, each with the post that earned it
+export const earnedBadges = (activity: BadgeActivity): (BadgeDefinition & { relatedId?: string })[] => {
+  const earned: (BadgeDefinition & { relatedId?: string })[] = RULES.flatMap(({ earnedBy, ...badge }) => {
+    const relatedId = earnedBy(activity);
+    return relatedId ? [{ ...badge, relatedId }] : [];
+  });
+
+  const tagScores = new Map<string, number>();
+  activity.answers.forEach(answer => answer.tags.forEach(tag => {
+    tagScores.set(tag, (tagScores.get(tag) ?? 0) + answer.votes);
+  }));
+  tagScores.forEach((score, tag) => {
+    (Object.keys(TAG_BADGE_SCORES) as Badge['tier'][])
+      .filter(tier => score >= TAG_BADGE_SCORES[tier])
+      .forEach(tier => earned.push(tagBadge(tag, tier)));
+  });
+
+  return earned;
+};
+
+// Badges earned but not held yet, ready to store; badges are never taken away
+export const awardBadges = (
+  userId: string,
+  activity: BadgeActivity,
+  held: Pick<Badge, 'badgeId'>[],
+  now = new Date().toISOString()
+): Badge[] => {
+  const owned = new Set(held.map(badge => badge.badgeId));
+  return earnedBadges(activity)
+    .filter(badge => !owned.has(badge.id))
+    .map(({ id, relatedId, ...badge }) => ({
+      ...badge,
+      id: createId('b'),
+      userId,
+      badgeId: id,
+      relatedId,
+      awardedAt: now
+    }));
+};
+
+export const badgeMessage = (badge: Pick<Badge, 'name' | 'tier' | 'tag'>) =>
+  `You earned the ${badge.tier} ${badge.tag ? 'tag badge' : 'badge'} "${badge.name}"`;
+
+export const NO_BADGES: Record<Badge['tier'], number> = { gold: 0, silver: 0, bronze: 0 };
+
+// Gold first, then silver, then bronze
+export const BADGE_TIERS: Badge['tier'][] = ['gold', 'silver', 'bronze'];
+
+// Tailwind background for each tier's dot
+export const BADGE_TIER_COLORS: Record<Badge['tier'], string> = {
+  gold: 'bg-yellow-400',
+  silver: 'bg-gray-400',
+  bronze: 'bg-amber-600'
+};
+
+export const countBadges = (badges: Pick<Badge, 'tier'>[]): Record<Badge['tier'], number> => ({
+  gold: badges.filter(badge => badge.tier === 'gold').length,
+  silver: badges.filter(badge => badge.tier === 'silver').length,
+  bronze: badges.filter(badge => badge.tier === 'bronze').length
+});
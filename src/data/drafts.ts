@@ -0,0 +1,83 @@
+// Drafts live in this browser only, so they survive a failed request or a lost connection
+
+export type DraftTarget =
+  | { type: 'question' }
+  | { type: 'answer'; questionId: string; questionTitle: string };
+
+export interface DraftContent {
+  title?: string;
+  body: string;
+  tags?: string[];
+}
+
+export interface Draft extends DraftContent {
+  key: string;
+  target: DraftTarget;
+  savedAt: string;
+}
+
+// How long typing has to pause before a draft is saved
+export const DRAFT_SAVE_DELAY = 1000;
+
+const storageKey = (userId: string) => `stackit_drafts_${userId}`;
+
+// One draft per target: the new question, or the answer to each question
+export const draftKey = (target: DraftTarget) =>
+  target.type === 'question' ? 'question' : `answer:${target.questionId}`;
+
+const listeners = new Set<() => void>();
+
+// Newest first
+export const loadDrafts = (userId: string): Draft[] => {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return [];
+
+  try {
+    return (JSON.parse(saved) as Draft[]).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } catch {
+    localStorage.removeItem(storageKey(userId));
+    return [];
+  }
+};
+
+const storeDrafts = (userId: string, drafts: Draft[]) => {
+  if (drafts.length > 0) {
+    localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  } else {
+    localStorage.removeItem(storageKey(userId));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const saveDraft = (userId: string, target: DraftTarget, content: DraftContent) => {
+  const key = draftKey(target);
+  storeDrafts(userId, [
+    ...loadDrafts(userId).filter(draft => draft.key !== key),
+    { ...content, key, target, savedAt: new Date().toISOString() }
+  ]);
+};
+
+export const removeDraft = (userId: string, key: string) => {
+  const drafts = loadDrafts(userId);
+  if (drafts.some(draft => draft.key === key)) {
+    storeDrafts(userId, drafts.filter(draft => draft.key !== key));
+  }
+};
+
+export const isEmptyDraft = (content: DraftContent) =>
+  !content.title?.trim() && !content.body.trim() && !content.tags?.length;
+
+// Called whenever drafts are saved or removed, here or in another tab
+export const subscribeDrafts = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+};
+
+export const draftLabel = (draft: Draft) =>
+  draft.target.type === 'question'
+    ? draft.title?.trim() || 'Untitled question'
+    : `Answer to "${draft.target.questionTitle}"`;
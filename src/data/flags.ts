@@ -0,0 +1,46 @@
+import { Flag } from '../types';
+import { FlaggedPost } from './repository';
+
+export const FLAG_REASONS: { value: Flag['reason']; label: string; description: string }[] = [
+  { value: 'spam', label: 'Spam', description: 'Exists only to promote a product or service' },
+  { value: 'rude', label: 'Rude or abusive', description: 'A reasonable person would find it offensive' },
+  { value: 'low_quality', label: 'Low quality', description: 'Too unclear or incomplete for an edit to fix' },
+  { value: 'needs_attention', label: 'Needs moderator attention', description: 'Something else an admin should look at' }
+];
+
+export const FLAG_TEXT_MAX_LENGTH = 500;
+
+// Pending spam flags from this many users hide a post until an admin reviews it
+export const SPAM_HIDE_THRESHOLD = 3;
+
+// What an admin can do with a flagged post: agree, agree and delete it, or disagree
+export const FLAG_REVIEW_ACTIONS = ['helpful', 'delete', 'decline'] as const;
+export type FlagReviewAction = typeof FLAG_REVIEW_ACTIONS[number];
+
+export const ALREADY_FLAGGED = "You've already flagged this";
+
+export const flagReasonLabel = (reason: Flag['reason']) =>
+  FLAG_REASONS.find(option => option.value === reason)?.label ?? reason;
+
+export const validateFlag = (reason: string, text?: string) => {
+  if (!FLAG_REASONS.some(option => option.value === reason)) {
+    return `Reason must be one of ${FLAG_REASONS.map(option => option.value).join(', ')}`;
+  }
+  if (text && text.trim().length > FLAG_TEXT_MAX_LENGTH) {
+    return `Flags are limited to ${FLAG_TEXT_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Whether a post's flags are enough to hide it pending review
+export const shouldHide = (flags: Pick<Flag, 'reason' | 'status'>[]) =>
+  flags.filter(flag => flag.status === 'pending' && flag.reason === 'spam').length >= SPAM_HIDE_THRESHOLD;
+
+export const reviewStatus = (action: FlagReviewAction): Flag['status'] =>
+  action === 'decline' ? 'declined' : 'helpful';
+
+// Hidden posts first, then the most flagged, then the longest waiting
+export const compareFlaggedPosts = (a: FlaggedPost, b: FlaggedPost) =>
+  Number(!!b.hiddenAt) - Number(!!a.hiddenAt) ||
+  b.flags.length - a.flags.length ||
+  a.flags[0].createdAt.localeCompare(b.flags[0].createdAt);
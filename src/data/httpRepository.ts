@@ -0,0 +1,352 @@
+import {
+  Answer,
+  Comment,
+  Flag,
+  Notification,
+  NotificationSettings,
+  Question,
+  Revision,
+  Tag,
+  UploadedImage,
+  User,
+  Vote
+} from '../types';
+import { CastVoteResult, DataRepository, DeletedPosts, FlaggedPost } from './repository';
+import { SearchResult } from '../utils/searchIndex';
+import { SimilarQuestion } from '../utils/similarity';
+import { readEventStream } from '../utils/eventStream';
+import { UserProfile } from '../utils/profile';
+import { AuthSession } from './auth';
+import { clearSavedSession, loadSavedSession, saveSession } from './savedSession';
+
+interface AuthResponse {
+  user: User;
+  session: AuthSession;
+}
+
+// A response the API turned down, keeping its status so callers can tell e.g. a 401 from an outage
+class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// Reconnect delays double from a second up to this after each dropped notification stream
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+export const createHttpRepository = (baseUrl: string): DataRepository => {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  let refreshing: Promise<boolean> | null = null;
+
+  // Trades the refresh token for a new session; concurrent callers share one attempt
+  const refreshSession = () => {
+    refreshing ??= (async () => {
+      const saved = loadSavedSession();
+      if (!saved) return false;
+
+      const response = await fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: saved.refreshToken })
+      });
+      if (!response.ok) {
+        clearSavedSession();
+        return false;
+      }
+      saveSession(((await response.json()) as AuthResponse).session);
+      return true;
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  const request = async <T>(path: string, init: RequestInit = {}, allowMissing = false, retry = true): Promise<T> => {
+    const session = loadSavedSession();
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+        ...init.headers
+      }
+    });
+
+    if (response.status === 401 && session && retry && await refreshSession()) {
+      return request<T>(path, init, allowMissing, false);
+    }
+    // Lookups resolve to null instead of throwing when the record is missing
+    if (allowMissing && response.status === 404) {
+      return null as T;
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new RequestError(response.status, body?.error || `Request failed: ${response.status} ${response.statusText}`);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  };
+
+  const find = <T>(path: string) => request<T | null>(path, {}, true);
+
+  // fetch can't report upload progress, so files go up with XMLHttpRequest
+  const upload = async <T>(path: string, file: File, onProgress?: (progress: number) => void, retry = true): Promise<T> => {
+    const session = loadSavedSession();
+    const xhr = new XMLHttpRequest();
+    const done = new Promise<void>((resolve, reject) => {
+      xhr.onload = () => resolve();
+      xhr.onerror = () => reject(new Error('Upload failed: the server could not be reached'));
+    });
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.open('POST', `${baseUrl}${path}`);
+    xhr.setRequestHeader('Content-Type', file.type);
+    if (session) xhr.setRequestHeader('Authorization', `Bearer ${session.accessToken}`);
+    xhr.send(file);
+    await done;
+
+    if (xhr.status === 401 && session && retry && await refreshSession()) {
+      return upload<T>(path, file, onProgress, false);
+    }
+    const body = (() => {
+      try {
+        return JSON.parse(xhr.responseText);
+      } catch {
+        return null;
+      }
+    })();
+    if (xhr.status < 200 || xhr.status >= 300) {
+      throw new Error(body?.error || `Upload failed: ${xhr.status} ${xhr.statusText}`);
+    }
+    return body as T;
+  };
+
+  const write = async <T>(path: string, method: string, body?: unknown): Promise<T> => {
+    const result = await request<T>(path, {
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    notify();
+    return result;
+  };
+
+  // Keeps the notification stream open, resuming after the last id seen so nothing is missed.
+  // Stops once the session can't be refreshed or the caller unsubscribes.
+  const followNotifications = (listener: (notification: Notification) => void) => {
+    const controller = new AbortController();
+    let lastId: string | null = null;
+    let failures = 0;
+
+    // Resolves false when there's no session to connect with
+    const connect = async () => {
+      const session = loadSavedSession();
+      if (!session) return false;
+
+      const response = await fetch(`${baseUrl}/notifications/stream`, {
+        signal: controller.signal,
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${session.accessToken}`,
+          ...(lastId ? { 'Last-Event-ID': lastId } : {})
+        }
+      });
+      if (response.status === 401) return refreshSession();
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed: ${response.status} ${response.statusText}`);
+      }
+
+      failures = 0;
+      await readEventStream(response.body, event => {
+        if (event.event !== 'notification') return;
+        if (event.id) lastId = event.id;
+        listener(JSON.parse(event.data));
+      });
+      return true;
+    };
+
+    (async () => {
+      while (!controller.signal.aborted) {
+        try {
+          if (!await connect()) return;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Notification stream dropped:', error);
+        }
+        const delay = Math.min(MAX_RECONNECT_DELAY, 1000 * 2 ** failures++);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    })();
+
+    return () => controller.abort();
+  };
+
+  return {
+    auth: {
+      login: async (email, password) => {
+        try {
+          const { user, session } = await request<AuthResponse>('/auth/login', {
+            method: 'POST',
+            body: JSON.stringify({ email, password })
+          }, false, false);
+          saveSession(session);
+          return user;
+        } catch (error) {
+          // Only wrong credentials mean "no such login"; network and server errors are passed on
+          if (error instanceof RequestError && error.status === 401) return null;
+          throw error;
+        }
+      },
+      register: async (input) => {
+        const { user, session } = await write<AuthResponse>('/auth/register', 'POST', input);
+        saveSession(session);
+        return user;
+      },
+      restoreSession: async () => {
+        if (!loadSavedSession()) return null;
+        try {
+          return await request<User>('/auth/me');
+        } catch (error) {
+          // A rejected refresh already dropped the saved session; keep it through network errors
+          console.error('Error restoring session:', error);
+          return null;
+        }
+      },
+      logout: async () => {
+        if (!loadSavedSession()) return;
+        try {
+          await request<void>('/auth/logout', { method: 'POST' }, false, false);
+        } finally {
+          clearSavedSession();
+        }
+      }
+    },
+
+    questions: {
+      list: () => request<Question[]>('/questions'),
+      get: (id) => find<Question>(`/questions/${encodeURIComponent(id)}`),
+      search: (query) => request<SearchResult[]>(`/questions/search?${new URLSearchParams({ q: query })}`),
+      // A POST only because a draft's body can be too long for a query string; nothing is written
+      similar: (draft) =>
+        request<SimilarQuestion[]>('/questions/similar', { method: 'POST', body: JSON.stringify(draft) }),
+      create: (input) => write<Question>('/questions', 'POST', input),
+      acceptAnswer: (input) =>
+        write<Question>(`/questions/${encodeURIComponent(input.questionId)}/accept`, 'POST', input),
+      offerBounty: (input) =>
+        write<Question>(`/questions/${encodeURIComponent(input.questionId)}/bounty`, 'POST', input),
+      update: (input) => write<Question>(`/questions/${encodeURIComponent(input.id)}`, 'PATCH', input),
+      listRevisions: (id) => request<Revision[]>(`/questions/${encodeURIComponent(id)}/revisions`),
+      rollback: ({ id, revisionId }) => write<Question>(
+        `/questions/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revisionId)}/rollback`,
+        'POST'
+      ),
+      // The server takes the viewer from the session when there is one
+      // A view changes nothing anyone is looking at, so it doesn't notify subscribers
+      recordView: ({ questionId, visitorId }) =>
+        request<void>(`/questions/${encodeURIComponent(questionId)}/views`, {
+          method: 'POST',
+          body: JSON.stringify({ visitorId })
+        })
+    },
+
+    answers: {
+      listByQuestion: (questionId) =>
+        request<Answer[]>(`/questions/${encodeURIComponent(questionId)}/answers`),
+      create: (input) =>
+        write<Answer>(`/questions/${encodeURIComponent(input.questionId)}/answers`, 'POST', input),
+      update: (input) => write<Answer>(`/answers/${encodeURIComponent(input.id)}`, 'PATCH', input),
+      listRevisions: (id) => request<Revision[]>(`/answers/${encodeURIComponent(id)}/revisions`),
+      rollback: ({ id, revisionId }) => write<Answer>(
+        `/answers/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revisionId)}/rollback`,
+        'POST'
+      )
+    },
+
+    comments: {
+      listByQuestion: (questionId) =>
+        request<Comment[]>(`/questions/${encodeURIComponent(questionId)}/comments`),
+      create: (input) => write<Comment>('/comments', 'POST', input),
+      update: (input) => write<Comment>(`/comments/${encodeURIComponent(input.id)}`, 'PATCH', input),
+      remove: ({ id }) => write<void>(`/comments/${encodeURIComponent(id)}`, 'DELETE')
+    },
+
+    tags: {
+      list: () => request<Tag[]>('/tags'),
+      get: (name) => find<Tag>(`/tags/${encodeURIComponent(name)}`)
+    },
+
+    votes: {
+      listByUser: (userId) => request<Vote[]>(`/users/${encodeURIComponent(userId)}/votes`),
+      cast: (input) => write<CastVoteResult>('/votes', 'PUT', input)
+    },
+
+    users: {
+      list: () => request<User[]>('/users'),
+      get: (id) => find<User>(`/users/${encodeURIComponent(id)}`),
+      getByUsername: (username) =>
+        find<User>(`/users/by-username/${encodeURIComponent(username)}`),
+      getProfile: (username) =>
+        find<UserProfile>(`/users/by-username/${encodeURIComponent(username)}/profile`)
+    },
+
+    notifications: {
+      listByUser: (userId) =>
+        request<Notification[]>(`/users/${encodeURIComponent(userId)}/notifications`),
+      markRead: (id) => write<void>(`/notifications/${encodeURIComponent(id)}/read`, 'POST'),
+      markAllRead: (userId) =>
+        write<void>(`/users/${encodeURIComponent(userId)}/notifications/read`, 'POST'),
+      getSettings: (userId) =>
+        request<NotificationSettings>(`/users/${encodeURIComponent(userId)}/notification-settings`),
+      saveSettings: (settings) => write<NotificationSettings>(
+        `/users/${encodeURIComponent(settings.userId)}/notification-settings`,
+        'PUT',
+        settings
+      ),
+      // The stream belongs to whoever the session is for
+      watch: (_userId, listener) => followNotifications(listener)
+    },
+
+    flags: {
+      listByUser: (userId) => request<Flag[]>(`/users/${encodeURIComponent(userId)}/flags`),
+      create: (input) => write<Flag>('/flags', 'POST', input)
+    },
+
+    // The server takes the admin from the session
+    moderation: {
+      listDeleted: () => request<DeletedPosts>('/admin/deleted'),
+      deletePost: ({ postType, postId }) =>
+        write<void>(`/admin/${postType}s/${encodeURIComponent(postId)}`, 'DELETE'),
+      restorePost: ({ postType, postId }) =>
+        write<void>(`/admin/${postType}s/${encodeURIComponent(postId)}/restore`, 'POST'),
+      listFlagged: () => request<FlaggedPost[]>('/admin/flags'),
+      reviewFlags: ({ targetType, targetId, action }) =>
+        write<void>(`/admin/flags/${targetType}/${encodeURIComponent(targetId)}`, 'PUT', { action }),
+      lockQuestion: ({ questionId, locked }) =>
+        write<Question>(`/admin/questions/${encodeURIComponent(questionId)}/lock`, 'PUT', { locked }),
+      suspendUser: ({ userId, until }) =>
+        write<User>(`/admin/users/${encodeURIComponent(userId)}/suspension`, 'PUT', { until }),
+      setRole: ({ userId, role }) =>
+        write<User>(`/admin/users/${encodeURIComponent(userId)}/role`, 'PUT', { role }),
+      saveTag: ({ name, description, synonyms }) =>
+        write<Tag>(`/admin/tags/${encodeURIComponent(name)}`, 'PUT', { description, synonyms }),
+      removeTag: ({ name }) => write<void>(`/admin/tags/${encodeURIComponent(name)}`, 'DELETE')
+    },
+
+    // The server takes the uploader from the session
+    uploads: {
+      uploadImage: ({ file, onProgress }) => upload<UploadedImage>('/uploads', file, onProgress)
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,17 @@
+import { createHttpRepository } from './httpRepository';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createMemoryRepository } from './memoryRepository';
+import { mockSeed } from './mockData';
+import { DataRepository } from './repository';
+
+// Picks the backing store from VITE_DATA_SOURCE: 'memory', 'local' (default) or 'http'
+export const createRepository = (): DataRepository => {
+  switch (import.meta.env.VITE_DATA_SOURCE) {
+    case 'memory':
+      return createMemoryRepository(mockSeed);
+    case 'http':
+      return createHttpRepository(import.meta.env.VITE_API_URL || '/api');
+    default:
+      return createLocalStorageRepository(mockSeed);
+  }
+};
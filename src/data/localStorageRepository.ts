@@ -0,0 +1,29 @@
+import { createMemoryRepository } from './memoryRepository';
+import { DataRepository, DataSnapshot } from './repository';
+
+const loadSnapshot = (key: string, seed: DataSnapshot): DataSnapshot => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return seed;
+
+  try {
+    return { ...seed, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Discarding unreadable saved data:', error);
+    return seed;
+  }
+};
+
+// Same behaviour as the in-memory repository, but survives a reload
+export const createLocalStorageRepository = (
+  seed: DataSnapshot,
+  key: string = 'stackit_data'
+): DataRepository =>
+  createMemoryRepository(loadSnapshot(key, seed), serialized => {
+    try {
+      localStorage.setItem(key, serialized);
+    } catch (error) {
+      // Nearly always the storage quota; the memory repository undoes the change
+      console.error('Error saving data:', error);
+      throw new Error("This browser's storage is full, so the change couldn't be saved");
+    }
+  });
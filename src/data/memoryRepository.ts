@@ -0,0 +1,1108 @@
+import { Answer, Comment, Flag, Notification, Question, ReputationEvent, Revision, Tag, User, Vote } from '../types';
+import {
+  COMMENT_DELETE_WINDOW,
+  COMMENT_EDIT_WINDOW,
+  DataRepository,
+  DataSnapshot,
+  DeletedPosts,
+  EditQuestionInput,
+  FlaggedPost,
+  NewNotificationInput,
+  TagRecord,
+  acceptedMessage,
+  answerMessage,
+  commentMessage,
+  createId,
+  replyMessage,
+  validateComment,
+  voteValue,
+  withinCommentWindow
+} from './repository';
+import {
+  hashPassword,
+  hashToken,
+  isExpired,
+  issueSession,
+  validateRegistration,
+  verifyPassword
+} from './auth';
+import {
+  PendingReputationEvent,
+  acceptReputation,
+  recordReputation,
+  reputationTotal,
+  restorePostReputation,
+  reversePostReputation,
+  reverseReputation,
+  startingBalance,
+  validateBounty,
+  voteReputation
+} from './reputation';
+import { NO_BADGES, awardBadges, badgeMessage, countBadges } from './badges';
+import {
+  ADMIN_ONLY,
+  ASSIGNABLE_ROLES,
+  LOCKED_QUESTION,
+  isAdmin,
+  isSuspended,
+  suspendedMessage,
+  validatePostText,
+  validateSuspension,
+  validateSynonyms,
+  validateUserAction
+} from './moderation';
+import { ALREADY_FLAGGED, compareFlaggedPosts, reviewStatus, shouldHide, validateFlag } from './flags';
+import { defaultSettings, isMuted, validateSettings } from './notifications';
+import { MentionPostType, extractMentions, mentionMessage } from './mentions';
+import { MAX_IMAGE_DIMENSION, THUMBNAIL_DIMENSION, validateImage } from './uploads';
+import { viewExpired, viewerKey } from './views';
+import {
+  NO_CHANGES,
+  RevisionContent,
+  editProblem,
+  editRevisions,
+  initialRevision,
+  isUnchanged,
+  rollbackSummary,
+  validateEditSummary
+} from './revisions';
+import { clearSavedSession, loadSavedSession, saveSession } from './savedSession';
+import { SearchIndex, createSearchIndex, searchQuestions, toSearchDocuments } from '../utils/searchIndex';
+import { findSimilarQuestions } from '../utils/similarity';
+import { buildUserProfile } from '../utils/profile';
+import { MAX_EMBEDDED_IMAGE_LENGTH, loadImage, readDataUrl, scaleImage, scaleImageToJpeg } from '../utils/images';
+import { canonicalTagName, canonicalTagNames, normaliseTagName, tagColor, validateTags } from '../utils/tags';
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+export const createMemoryRepository = (
+  seed: DataSnapshot,
+  onChange?: (serialized: string) => void
+): DataRepository => {
+  const state: DataSnapshot = clone(seed);
+  const listeners = new Set<() => void>();
+  // Built on the first search after a write
+  let searchIndex: SearchIndex | null = null;
+
+  // The state as last saved, so a change the saver turns down (e.g. over the storage quota) can be undone.
+  // Kept as the JSON the saver was given, which is only parsed again on a rollback
+  let saved = onChange ? JSON.stringify(state) : null;
+
+  const commit = () => {
+    searchIndex = null;
+    if (onChange && saved !== null) {
+      const serialized = JSON.stringify(state);
+      try {
+        onChange(serialized);
+      } catch (error) {
+        Object.assign(state, JSON.parse(saved));
+        throw error;
+      }
+      saved = serialized;
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  const findUser = (id: string) => state.users.find(u => u.id === id);
+  const findUserByName = (username: string) =>
+    state.users.find(u => u.username.toLowerCase() === username.toLowerCase());
+
+  const registerTag = (name: string) => {
+    if (!state.tags.some(t => t.name === name)) {
+      state.tags.push({ id: createId('t'), name, synonyms: [] });
+    }
+  };
+
+  // Saved data from before the registry existed may use tags it doesn't know yet
+  state.questions.forEach(question => question.tags.forEach(registerTag));
+
+  // Likewise, reputation from before the ledger becomes each user's starting balance
+  state.users
+    .filter(user => user.reputation !== 0 && !state.reputation.some(entry => entry.userId === user.id))
+    .forEach(user => state.reputation.push(startingBalance(user)));
+
+  // Deleted posts stay in the snapshot so admins can restore them
+  const isLive = (post: Question | Answer | Comment) => !post.deletedAt;
+
+  // A hidden comment takes its replies with it
+  const isShownComment = (comment: Comment) =>
+    isLive(comment) && (!comment.parentId || state.comments.some(c => c.id === comment.parentId && isLive(c)));
+
+  const toTag = (record: TagRecord): Tag => ({
+    ...clone(record),
+    count: state.questions.filter(q => isLive(q) && q.tags.includes(record.name)).length,
+    color: tagColor(record.name)
+  });
+
+  // Other users and post authors never carry an email; only the signed-in user's own account does
+  const publicUser = (user: User): User => {
+    const copy = clone(user);
+    delete copy.email;
+    return copy;
+  };
+
+  // Authors are stored as a snapshot on each post; prefer the live user record
+  const withAuthor = <T extends Question | Answer | Comment | Revision>(post: T): T =>
+    clone({ ...post, author: publicUser(findUser(post.authorId) ?? post.author) });
+
+  const settingsOf = (userId: string) => state.notificationSettings.find(s => s.userId === userId);
+
+  // Stores the notification unless the user muted its type or question
+  const storeNotification = (input: NewNotificationInput) => {
+    if (isMuted(settingsOf(input.userId), input)) return null;
+    const notification: Notification = { ...input, id: createId('n'), createdAt: new Date().toISOString() };
+    state.notifications.push(notification);
+    return notification;
+  };
+
+  const addNotification = (
+    userId: string,
+    type: Notification['type'],
+    message: string,
+    relatedId: string,
+    questionId?: string
+  ) => {
+    storeNotification({ userId, type, message, relatedId, questionId, read: false });
+  };
+
+  // Tells everyone the text mentions, except its author and whoever was already notified about the post
+  const notifyMentions = (
+    text: string,
+    postType: MentionPostType,
+    post: { id: string; authorId: string; author: User },
+    question: Question,
+    notified: string[]
+  ) => {
+    extractMentions(text).map(findUserByName).forEach(user => {
+      if (!user || user.id === post.authorId || notified.includes(user.id)) return;
+      addNotification(user.id, 'mention', mentionMessage(post.author.username, postType, question.title), post.id, question.id);
+    });
+  };
+
+  const withQuestionTitle = (notification: Notification): Notification => clone({
+    ...notification,
+    questionTitle: state.questions.find(q => q.id === notification.questionId)?.title
+  });
+
+  // Only the author may change a comment, and only for a while after posting it
+  const requireOwnComment = (id: string, userId: string, window: number, action: string) => {
+    const comment = state.comments.find(c => c.id === id);
+    if (!comment) {
+      throw new Error(`Unknown comment: ${id}`);
+    }
+    if (comment.authorId !== userId) {
+      throw new Error(`Only the author can ${action} a comment`);
+    }
+    if (!withinCommentWindow(comment, window)) {
+      throw new Error(`This comment can no longer be ${action === 'edit' ? 'edited' : 'deleted'}`);
+    }
+    return comment;
+  };
+
+  // Appends ledger entries and recomputes the totals of everyone they touch
+  const applyReputation = (entries: ReputationEvent[]) => {
+    state.reputation.push(...entries);
+    new Set(entries.map(entry => entry.userId)).forEach(userId => {
+      const user = findUser(userId);
+      if (user) user.reputation = reputationTotal(state.reputation, userId);
+    });
+  };
+
+  const recordEntries = (pending: PendingReputationEvent[]) =>
+    applyReputation(recordReputation(state.reputation, pending));
+
+  const reverseEntries = (matches: (entry: ReputationEvent) => boolean) =>
+    applyReputation(reverseReputation(state.reputation, matches));
+
+  // Awards whatever the user's posts have newly earned; badges are announced as notifications
+  const checkBadges = (userId: string, announce = true) => {
+    const user = findUser(userId);
+    if (!user) return;
+
+    const activity = {
+      questions: state.questions.filter(q => q.authorId === userId),
+      answers: state.answers
+        .filter(a => a.authorId === userId)
+        .map(a => ({ ...a, tags: state.questions.find(q => q.id === a.questionId)?.tags ?? [] }))
+    };
+    const awarded = awardBadges(userId, activity, state.badges.filter(b => b.userId === userId));
+    state.badges.push(...awarded);
+    user.badgeCounts = countBadges(state.badges.filter(b => b.userId === userId));
+    if (announce) {
+      awarded.forEach(badge => addNotification(userId, 'badge', badgeMessage(badge), badge.relatedId ?? badge.id));
+    }
+  };
+
+  const startSession = async (userId: string) => {
+    const { session, stored } = await issueSession(userId, createId('s'));
+    state.sessions = state.sessions.filter(s => !isExpired(s.refreshExpiresAt));
+    state.sessions.push(stored);
+    saveSession(session);
+    commit();
+  };
+
+  const requireUser = (id: string): User => {
+    const user = findUser(id);
+    if (!user) {
+      throw new Error(`Unknown user: ${id}`);
+    }
+    return user;
+  };
+
+  // Suspended users can read but not post or vote
+  const requireActiveUser = (id: string) => {
+    const user = requireUser(id);
+    if (isSuspended(user)) {
+      throw new Error(suspendedMessage(user));
+    }
+    return user;
+  };
+
+  const requireAdmin = (id: string) => {
+    const user = requireUser(id);
+    if (!isAdmin(user)) {
+      throw new Error(ADMIN_ONLY);
+    }
+    return user;
+  };
+
+  // A question that can still take answers, comments and votes
+  const requireOpenQuestion = (id: string) => {
+    const question = state.questions.find(q => q.id === id && isLive(q));
+    if (!question) {
+      throw new Error(`Unknown question: ${id}`);
+    }
+    if (question.lockedAt) {
+      throw new Error(LOCKED_QUESTION);
+    }
+    return question;
+  };
+
+  const findPost = (postType: Flag['targetType'], id: string) => {
+    const posts = { question: state.questions, answer: state.answers, comment: state.comments };
+    return (posts[postType] as (Question | Answer | Comment)[]).find(p => p.id === id);
+  };
+
+  // Deletes a post without checking who asks, for admins and for the flags that hide spam. The reversals
+  // share the deletion's timestamp so restorePost can find them
+  const hidePost = (postType: Flag['targetType'], post: Question | Answer | Comment) => {
+    const now = new Date().toISOString();
+    post.deletedAt = now;
+    applyReputation(reversePostReputation(state.reputation, post.id, now));
+    if (postType === 'answer') {
+      const question = state.questions.find(q => q.id === (post as Answer).questionId);
+      if (question) question.answerCount -= 1;
+      if (question?.acceptedAnswerId === post.id) delete question.acceptedAnswerId;
+    }
+  };
+
+  const unhidePost = (postType: Flag['targetType'], post: Question | Answer | Comment) => {
+    applyReputation(restorePostReputation(state.reputation, post.id, post.deletedAt ?? ''));
+    delete post.deletedAt;
+    if (postType === 'answer') {
+      const question = state.questions.find(q => q.id === (post as Answer).questionId);
+      if (question) question.answerCount += 1;
+      // A hidden answer keeps isAccepted, so restoring it makes it the accepted answer again
+      if (question && (post as Answer).isAccepted) {
+        question.acceptedAnswerId = post.id;
+      } else {
+        // Another answer was accepted meanwhile; take back the accept reputation the restore gave back
+        reverseEntries(entry => entry.sourceId === post.id);
+      }
+    }
+  };
+
+  const findLiveQuestion = (id: string) => {
+    const question = state.questions.find(q => q.id === id && isLive(q));
+    if (!question) {
+      throw new Error(`Unknown question: ${id}`);
+    }
+    return question;
+  };
+
+  const findLiveAnswer = (id: string) => {
+    const answer = state.answers.find(a => a.id === id && isLive(a));
+    if (!answer) {
+      throw new Error(`Unknown answer: ${id}`);
+    }
+    return answer;
+  };
+
+  // Oldest first; posts never edited get their first revision made up from the post itself
+  const revisionsOf = (postType: Revision['postType'], post: Question | Answer): Revision[] => {
+    const history = state.revisions.filter(r => r.postId === post.id).sort((a, b) => a.number - b.number);
+    return history.length > 0
+      ? history.map(withAuthor)
+      : [withAuthor({ ...initialRevision(postType, post), id: createId('rv'), author: post.author })];
+  };
+
+  // Checks the user may make the edit and records it as a revision; the caller applies it to the post
+  const recordEdit = (
+    postType: Revision['postType'],
+    post: Question | Answer,
+    edit: RevisionContent & { summary: string; userId: string },
+    now: string
+  ) => {
+    const question = 'questionId' in post ? state.questions.find(q => q.id === post.questionId) : post;
+    const problem = editProblem(requireUser(edit.userId), post, question ?? {}) ?? validateEditSummary(edit.summary);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (isUnchanged(post, edit)) {
+      throw new Error(NO_CHANGES);
+    }
+
+    const history = state.revisions.filter(r => r.postId === post.id).sort((a, b) => a.number - b.number);
+    editRevisions(postType, post, history, { ...edit, authorId: edit.userId }, now).forEach(pending => {
+      state.revisions.push({ ...pending, id: createId('rv'), author: findUser(pending.authorId) ?? post.author });
+    });
+  };
+
+  const editQuestion = ({ id, title, description, tags: names, summary, userId }: EditQuestionInput) => {
+    const question = findLiveQuestion(id);
+    const tags = canonicalTagNames(names, state.tags);
+    const problem = validatePostText(title, 'title') ?? validatePostText(description, 'description') ??
+      validateTags(tags);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const now = new Date().toISOString();
+    recordEdit('question', question, { title: title.trim(), tags, body: description, summary, userId }, now);
+    tags.forEach(registerTag);
+    question.title = title.trim();
+    question.description = description;
+    question.tags = tags;
+    question.updatedAt = now;
+    commit();
+    return withAuthor(question);
+  };
+
+  const editAnswer = (id: string, content: string, summary: string, userId: string) => {
+    const answer = findLiveAnswer(id);
+    const problem = validatePostText(content, 'answer');
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const now = new Date().toISOString();
+    recordEdit('answer', answer, { body: content, summary, userId }, now);
+    answer.content = content;
+    answer.updatedAt = now;
+    commit();
+    return withAuthor(answer);
+  };
+
+  const findRevision = (postId: string, revisionId: string) => {
+    const revision = state.revisions.find(r => r.id === revisionId && r.postId === postId);
+    if (!revision) {
+      throw new Error(`Unknown revision: ${revisionId}`);
+    }
+    return revision;
+  };
+
+  const resolveFlags = (targetId: string, status: Flag['status'], adminId: string) => {
+    const now = new Date().toISOString();
+    state.flags
+      .filter(flag => flag.targetId === targetId && flag.status === 'pending')
+      .forEach(flag => Object.assign(flag, { status, reviewedBy: adminId, reviewedAt: now }));
+  };
+
+  // Badges the existing posts already earned, without announcing them
+  state.users.forEach(user => checkBadges(user.id, false));
+
+  return {
+    auth: {
+      login: async (email, password) => {
+        const user = state.users.find(u => u.email?.toLowerCase() === email.toLowerCase());
+        const credential = user && state.credentials.find(c => c.userId === user.id);
+        if (!user || !credential || !(await verifyPassword(password, credential.passwordHash))) {
+          return null;
+        }
+
+        await startSession(user.id);
+        return clone(user);
+      },
+      register: async (input) => {
+        const problem = validateRegistration(input);
+        if (problem) {
+          throw new Error(problem);
+        }
+        if (state.users.some(u => u.email?.toLowerCase() === input.email.toLowerCase())) {
+          throw new Error('An account with that email already exists');
+        }
+        if (state.users.some(u => u.username.toLowerCase() === input.username.toLowerCase())) {
+          throw new Error('That username is already taken');
+        }
+
+        const user: User = {
+          id: createId('u'),
+          username: input.username,
+          email: input.email,
+          role: 'user',
+          joinDate: new Date().toISOString().split('T')[0],
+          reputation: 0,
+          badgeCounts: { ...NO_BADGES }
+        };
+        const passwordHash = await hashPassword(input.password);
+        state.users.push(user);
+        state.credentials.push({ userId: user.id, passwordHash });
+        await startSession(user.id);
+        return clone(user);
+      },
+      restoreSession: async () => {
+        const saved = loadSavedSession();
+        if (!saved) return null;
+
+        const accessTokenHash = await hashToken(saved.accessToken);
+        const refreshTokenHash = await hashToken(saved.refreshToken);
+        const stored = state.sessions.find(s => s.accessTokenHash === accessTokenHash);
+
+        if (stored && !isExpired(stored.accessExpiresAt)) {
+          return clone(findUser(stored.userId) ?? null);
+        }
+
+        // Access token expired or unknown: fall back to the refresh token, rotating both
+        const refreshable = state.sessions.find(s => s.refreshTokenHash === refreshTokenHash);
+        if (refreshable && !isExpired(refreshable.refreshExpiresAt)) {
+          state.sessions = state.sessions.filter(s => s.id !== refreshable.id);
+          await startSession(refreshable.userId);
+          return clone(findUser(refreshable.userId) ?? null);
+        }
+
+        clearSavedSession();
+        return null;
+      },
+      logout: async () => {
+        const saved = loadSavedSession();
+        clearSavedSession();
+        if (!saved) return;
+
+        const accessTokenHash = await hashToken(saved.accessToken);
+        state.sessions = state.sessions.filter(s => s.accessTokenHash !== accessTokenHash);
+        commit();
+      }
+    },
+
+    questions: {
+      list: async () => state.questions.filter(isLive).map(withAuthor),
+      get: async (id) => {
+        const question = state.questions.find(q => q.id === id && isLive(q));
+        return question ? withAuthor(question) : null;
+      },
+      search: async (query) => {
+        const questions = state.questions.filter(isLive);
+        searchIndex ??= createSearchIndex(toSearchDocuments(questions, state.answers.filter(isLive)));
+        return searchQuestions(searchIndex, questions.map(withAuthor), query);
+      },
+      similar: async (draft) => findSimilarQuestions(draft, state.questions.filter(isLive).map(withAuthor)),
+      create: async (input) => {
+        const tags = canonicalTagNames(input.tags, state.tags);
+        const problem = validatePostText(input.title, 'title') ??
+          validatePostText(input.description, 'description') ?? validateTags(tags);
+        if (problem) {
+          throw new Error(problem);
+        }
+        const author = requireActiveUser(input.authorId);
+        tags.forEach(registerTag);
+
+        const now = new Date().toISOString();
+        const question: Question = {
+          id: createId('q'),
+          title: input.title.trim(),
+          description: input.description,
+          tags,
+          authorId: input.authorId,
+          author,
+          createdAt: now,
+          updatedAt: now,
+          views: 0,
+          votes: 0,
+          answerCount: 0
+        };
+        state.questions.unshift(question);
+        checkBadges(question.authorId);
+        notifyMentions(question.description, 'question', question, question, []);
+        commit();
+        return withAuthor(question);
+      },
+      acceptAnswer: async ({ questionId, answerId, userId }) => {
+        const question = state.questions.find(q => q.id === questionId && isLive(q));
+        const answer = state.answers.find(a => a.id === answerId && a.questionId === questionId && isLive(a));
+        if (!question || !answer) {
+          throw new Error(`Unknown answer: ${answerId}`);
+        }
+        if (question.authorId !== userId) {
+          throw new Error('Only the question author can accept an answer');
+        }
+        requireActiveUser(userId);
+
+        // A hidden answer that was accepted loses it for good once another answer is accepted
+        const previous = state.answers.find(a => a.questionId === question.id && a.isAccepted);
+        if (previous) {
+          previous.isAccepted = false;
+          reverseEntries(entry => entry.sourceId === previous.id);
+        }
+
+        if (previous === answer) {
+          delete question.acceptedAnswerId;
+        } else {
+          answer.isAccepted = true;
+          question.acceptedAnswerId = answer.id;
+          recordEntries(acceptReputation(question, answer));
+          if (question.bounty && answer.authorId !== question.authorId) {
+            recordEntries([{
+              userId: answer.authorId,
+              reason: 'bounty_awarded',
+              amount: question.bounty,
+              postId: answer.id,
+              questionId: question.id,
+              sourceId: question.id
+            }]);
+            delete question.bounty;
+          }
+          checkBadges(answer.authorId);
+          if (answer.authorId !== userId) {
+            addNotification(answer.authorId, 'accept', acceptedMessage(question.title), answer.id, question.id);
+          }
+        }
+        commit();
+        return withAuthor(question);
+      },
+      offerBounty: async ({ questionId, amount, userId }) => {
+        const question = state.questions.find(q => q.id === questionId && isLive(q));
+        if (!question) {
+          throw new Error(`Unknown question: ${questionId}`);
+        }
+        if (question.authorId !== userId) {
+          throw new Error('Only the question author can offer a bounty');
+        }
+        if (question.bounty) {
+          throw new Error('This question already has an open bounty');
+        }
+        const problem = validateBounty(amount, requireActiveUser(userId).reputation);
+        if (problem) {
+          throw new Error(problem);
+        }
+
+        recordEntries([{
+          userId,
+          reason: 'bounty_offered',
+          amount: -amount,
+          postId: question.id,
+          questionId: question.id,
+          sourceId: question.id
+        }]);
+        question.bounty = amount;
+        commit();
+        return withAuthor(question);
+      },
+      update: async (input) => editQuestion(input),
+      listRevisions: async (id) => revisionsOf('question', findLiveQuestion(id)),
+      rollback: async ({ id, revisionId, userId }) => {
+        const revision = findRevision(id, revisionId);
+        return editQuestion({
+          id,
+          title: revision.title ?? '',
+          description: revision.body,
+          tags: revision.tags ?? [],
+          summary: rollbackSummary(revision),
+          userId
+        });
+      },
+      recordView: async (input) => {
+        const question = findLiveQuestion(input.questionId);
+        const viewer = viewerKey(input);
+        // Views older than the window no longer matter to anyone
+        state.questionViews = state.questionViews.filter(view => !viewExpired(view.viewedAt));
+        if (state.questionViews.some(view => view.questionId === question.id && view.viewer === viewer)) return;
+
+        state.questionViews.push({ questionId: question.id, viewer, viewedAt: new Date().toISOString() });
+        question.views += 1;
+        checkBadges(question.authorId);
+        commit();
+      }
+    },
+
+    answers: {
+      listByQuestion: async (questionId) =>
+        state.answers.filter(a => a.questionId === questionId && isLive(a)).map(withAuthor),
+      create: async (input) => {
+        const problem = validatePostText(input.content, 'answer');
+        if (problem) {
+          throw new Error(problem);
+        }
+        const question = requireOpenQuestion(input.questionId);
+        const author = requireActiveUser(input.authorId);
+        const now = new Date().toISOString();
+        const answer: Answer = {
+          id: createId('a'),
+          questionId: input.questionId,
+          content: input.content,
+          authorId: input.authorId,
+          author,
+          createdAt: now,
+          updatedAt: now,
+          votes: 0,
+          isAccepted: false
+        };
+        state.answers.push(answer);
+        question.answerCount += 1;
+        checkBadges(answer.authorId);
+        if (question.authorId !== answer.authorId) {
+          addNotification(
+            question.authorId,
+            'answer',
+            answerMessage(author.username, question.title),
+            answer.id,
+            question.id
+          );
+        }
+        notifyMentions(answer.content, 'answer', answer, question, [question.authorId]);
+        commit();
+        return withAuthor(answer);
+      },
+      update: async ({ id, content, summary, userId }) => editAnswer(id, content, summary, userId),
+      listRevisions: async (id) => revisionsOf('answer', findLiveAnswer(id)),
+      rollback: async ({ id, revisionId, userId }) => {
+        const revision = findRevision(id, revisionId);
+        return editAnswer(id, revision.body, rollbackSummary(revision), userId);
+      }
+    },
+
+    comments: {
+      listByQuestion: async (questionId) =>
+        state.comments
+          .filter(c => c.questionId === questionId && isShownComment(c))
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+          .map(withAuthor),
+      create: async (input) => {
+        const problem = validateComment(input.content);
+        if (problem) {
+          throw new Error(problem);
+        }
+        const post = findPost(input.targetType, input.targetId);
+        if (!post || !isLive(post)) {
+          throw new Error(`Unknown ${input.targetType}: ${input.targetId}`);
+        }
+        const questionId = 'questionId' in post ? post.questionId : post.id;
+        const question = requireOpenQuestion(questionId);
+
+        let parent = input.parentId
+          ? state.comments.find(c => c.id === input.parentId && c.targetId === input.targetId && isShownComment(c))
+          : undefined;
+        if (input.parentId && !parent) {
+          throw new Error(`Unknown comment: ${input.parentId}`);
+        }
+        // Threads are one level deep, so a reply to a reply joins its parent's thread
+        if (parent?.parentId) {
+          parent = state.comments.find(c => c.id === parent?.parentId);
+        }
+
+        const author = requireActiveUser(input.authorId);
+        const now = new Date().toISOString();
+        const comment: Comment = {
+          id: createId('c'),
+          questionId,
+          targetId: input.targetId,
+          targetType: input.targetType,
+          parentId: parent?.id,
+          content: input.content.trim(),
+          authorId: author.id,
+          author,
+          createdAt: now,
+          updatedAt: now,
+          votes: 0
+        };
+        state.comments.push(comment);
+
+        const title = question.title;
+        if (post.authorId !== author.id) {
+          addNotification(
+            post.authorId,
+            'comment',
+            commentMessage(author.username, input.targetType, title),
+            comment.id,
+            question.id
+          );
+        }
+        if (parent && parent.authorId !== author.id && parent.authorId !== post.authorId) {
+          addNotification(parent.authorId, 'comment', replyMessage(author.username, title), comment.id, question.id);
+        }
+        notifyMentions(comment.content, 'comment', comment, question, [post.authorId, ...(parent ? [parent.authorId] : [])]);
+        commit();
+        return withAuthor(comment);
+      },
+      update: async ({ id, content, userId }) => {
+        const comment = requireOwnComment(id, userId, COMMENT_EDIT_WINDOW, 'edit');
+        requireActiveUser(userId);
+        const problem = validateComment(content);
+        if (problem) {
+          throw new Error(problem);
+        }
+        comment.content = content.trim();
+        comment.updatedAt = new Date().toISOString();
+        commit();
+        return withAuthor(comment);
+      },
+      remove: async ({ id, userId }) => {
+        requireOwnComment(id, userId, COMMENT_DELETE_WINDOW, 'delete');
+        const removed = new Set(state.comments.filter(c => c.id === id || c.parentId === id).map(c => c.id));
+        state.comments = state.comments.filter(c => !removed.has(c.id));
+        state.votes = state.votes.filter(v => !removed.has(v.targetId));
+        state.flags = state.flags.filter(f => !removed.has(f.targetId));
+        commit();
+      }
+    },
+
+    tags: {
+      list: async () =>
+        state.tags.map(toTag).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+      get: async (name) => {
+        const record = state.tags.find(t => t.name === canonicalTagName(name, state.tags));
+        return record ? toTag(record) : null;
+      }
+    },
+
+    votes: {
+      listByUser: async (userId) => clone(state.votes.filter(v => v.userId === userId)),
+      cast: async (input) => {
+        const target = findPost(input.targetType, input.targetId);
+        if (!target || !isLive(target)) {
+          throw new Error(`Unknown ${input.targetType}: ${input.targetId}`);
+        }
+        requireOpenQuestion('questionId' in target ? target.questionId : target.id);
+        requireActiveUser(input.userId);
+        if (target.authorId === input.userId) {
+          throw new Error("You can't vote on your own post");
+        }
+        if (input.targetType === 'comment' && input.type === 'down') {
+          throw new Error('Comments can only be upvoted');
+        }
+
+        const existing = state.votes.find(
+          v => v.userId === input.userId && v.targetId === input.targetId
+        );
+        target.votes += voteValue(input.type) - voteValue(existing?.type);
+
+        let vote: Vote | null = null;
+        if (input.type === null) {
+          state.votes = state.votes.filter(v => v !== existing);
+        } else if (existing) {
+          existing.type = input.type;
+          vote = existing;
+        } else {
+          vote = { ...input, type: input.type, id: createId('v') };
+          state.votes.push(vote);
+        }
+
+        if (existing) {
+          reverseEntries(entry => entry.sourceId === existing.id);
+        }
+        if (vote) {
+          const questionId = 'questionId' in target ? target.questionId : target.id;
+          recordEntries(voteReputation(vote, { authorId: target.authorId, questionId }));
+        }
+        checkBadges(target.authorId);
+        commit();
+        return { vote: clone(vote), votes: target.votes };
+      }
+    },
+
+    users: {
+      list: async () => state.users.map(publicUser),
+      get: async (id) => {
+        const user = findUser(id);
+        return user ? publicUser(user) : null;
+      },
+      getByUsername: async (username) => {
+        const user = findUserByName(username);
+        return user ? publicUser(user) : null;
+      },
+      getProfile: async (username) => {
+        const user = findUserByName(username);
+        return user
+          ? buildUserProfile(publicUser(user), {
+            questions: state.questions.filter(isLive).map(withAuthor),
+            answers: state.answers.filter(a => a.authorId === user.id && isLive(a)).map(withAuthor),
+            comments: state.comments.filter(c => c.authorId === user.id && isShownComment(c)).map(withAuthor),
+            reputation: clone(state.reputation.filter(entry => entry.userId === user.id)),
+            badges: clone(state.badges.filter(b => b.userId === user.id))
+          })
+          : null;
+      }
+    },
+
+    notifications: {
+      listByUser: async (userId) =>
+        state.notifications
+          .filter(n => n.userId === userId)
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .map(withQuestionTitle),
+      markRead: async (id) => {
+        const notification = state.notifications.find(n => n.id === id);
+        if (notification && !notification.read) {
+          notification.read = true;
+          commit();
+        }
+      },
+      markAllRead: async (userId) => {
+        state.notifications.forEach(n => {
+          if (n.userId === userId) n.read = true;
+        });
+        commit();
+      },
+      getSettings: async (userId) => clone(settingsOf(userId) ?? defaultSettings(userId)),
+      saveSettings: async ({ userId, mutedTypes, mutedQuestionIds }) => {
+        const problem = validateSettings({ mutedTypes });
+        if (problem) {
+          throw new Error(problem);
+        }
+        const settings = {
+          userId,
+          mutedTypes: Array.from(new Set(mutedTypes)),
+          mutedQuestionIds: Array.from(new Set(mutedQuestionIds))
+        };
+        state.notificationSettings = [...state.notificationSettings.filter(s => s.userId !== userId), settings];
+        commit();
+        return clone(settings);
+      },
+      // Everything happens in this tab, so each commit is checked for notifications not yet passed on
+      watch: (userId, listener) => {
+        const delivered = new Set(state.notifications.filter(n => n.userId === userId).map(n => n.id));
+        const deliver = () => state.notifications
+          .filter(n => n.userId === userId && !delivered.has(n.id))
+          .forEach(notification => {
+            delivered.add(notification.id);
+            listener(withQuestionTitle(notification));
+          });
+        listeners.add(deliver);
+        return () => {
+          listeners.delete(deliver);
+        };
+      }
+    },
+
+    flags: {
+      listByUser: async (userId) => clone(state.flags.filter(f => f.userId === userId)),
+      create: async ({ targetId, targetType, reason, text, userId }) => {
+        const problem = validateFlag(reason, text);
+        if (problem) {
+          throw new Error(problem);
+        }
+        const post = findPost(targetType, targetId);
+        if (!post || !isLive(post)) {
+          throw new Error(`Unknown ${targetType}: ${targetId}`);
+        }
+        requireActiveUser(userId);
+        if (post.authorId === userId) {
+          throw new Error("You can't flag your own post");
+        }
+        if (state.flags.some(f => f.userId === userId && f.targetId === targetId)) {
+          throw new Error(ALREADY_FLAGGED);
+        }
+
+        const flag: Flag = {
+          id: createId('f'),
+          userId,
+          targetId,
+          targetType,
+          questionId: 'questionId' in post ? post.questionId : post.id,
+          reason,
+          text: text?.trim() || undefined,
+          status: 'pending',
+          createdAt: new Date().toISOString()
+        };
+        state.flags.push(flag);
+        if (shouldHide(state.flags.filter(f => f.targetId === targetId))) {
+          hidePost(targetType, post);
+        }
+        commit();
+        return clone(flag);
+      }
+    },
+
+    moderation: {
+      listDeleted: async (adminId) => {
+        requireAdmin(adminId);
+        const newestDeleted = (a: Question | Answer, b: Question | Answer) =>
+          (b.deletedAt ?? '').localeCompare(a.deletedAt ?? '');
+        const deleted: DeletedPosts = {
+          questions: state.questions.filter(q => !isLive(q)).sort(newestDeleted).map(withAuthor),
+          answers: state.answers.filter(a => !isLive(a)).sort(newestDeleted).map(answer => ({
+            ...withAuthor(answer),
+            // Hidden answers aren't accepted until they're restored
+            isAccepted: false,
+            questionTitle: state.questions.find(q => q.id === answer.questionId)?.title ?? ''
+          }))
+        };
+        return deleted;
+      },
+      deletePost: async ({ postType, postId, adminId }) => {
+        requireAdmin(adminId);
+        const post = findPost(postType, postId);
+        if (!post || !isLive(post)) {
+          throw new Error(`Unknown ${postType}: ${postId}`);
+        }
+
+        hidePost(postType, post);
+        resolveFlags(post.id, 'helpful', adminId);
+        commit();
+      },
+      restorePost: async ({ postType, postId, adminId }) => {
+        requireAdmin(adminId);
+        const post = findPost(postType, postId);
+        if (!post?.deletedAt) {
+          throw new Error(`Unknown deleted ${postType}: ${postId}`);
+        }
+
+        unhidePost(postType, post);
+        resolveFlags(post.id, 'declined', adminId);
+        commit();
+      },
+      listFlagged: async (adminId) => {
+        requireAdmin(adminId);
+        const pending = state.flags
+          .filter(flag => flag.status === 'pending')
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        const flagged: FlaggedPost[] = [];
+        new Set(pending.map(flag => flag.targetId)).forEach(targetId => {
+          const flags = pending.filter(flag => flag.targetId === targetId);
+          const { targetType, questionId } = flags[0];
+          const post = findPost(targetType, targetId);
+          if (!post) return;
+          flagged.push({
+            targetId,
+            targetType,
+            questionId,
+            questionTitle: state.questions.find(q => q.id === questionId)?.title ?? '',
+            content: 'description' in post ? post.description : post.content,
+            author: publicUser(findUser(post.authorId) ?? post.author),
+            hiddenAt: post.deletedAt,
+            flags: clone(flags)
+          });
+        });
+        return flagged.sort(compareFlaggedPosts);
+      },
+      reviewFlags: async ({ targetId, targetType, action, adminId }) => {
+        requireAdmin(adminId);
+        const post = findPost(targetType, targetId);
+        if (!post || !state.flags.some(flag => flag.targetId === targetId && flag.status === 'pending')) {
+          throw new Error(`No pending flags on ${targetType}: ${targetId}`);
+        }
+
+        resolveFlags(targetId, reviewStatus(action), adminId);
+        if (action === 'decline' && !isLive(post)) {
+          unhidePost(targetType, post);
+        } else if (action === 'delete' && isLive(post)) {
+          hidePost(targetType, post);
+        }
+        commit();
+      },
+      lockQuestion: async ({ questionId, locked, adminId }) => {
+        requireAdmin(adminId);
+        const question = state.questions.find(q => q.id === questionId && isLive(q));
+        if (!question) {
+          throw new Error(`Unknown question: ${questionId}`);
+        }
+        if (locked) {
+          question.lockedAt ??= new Date().toISOString();
+        } else {
+          delete question.lockedAt;
+        }
+        commit();
+        return withAuthor(question);
+      },
+      suspendUser: async ({ userId, until, adminId }) => {
+        const admin = requireAdmin(adminId);
+        const user = requireUser(userId);
+        const problem = validateUserAction(admin, user, 'suspend') ?? (until === null ? null : validateSuspension(until));
+        if (problem) {
+          throw new Error(problem);
+        }
+        if (until === null) {
+          delete user.suspendedUntil;
+        } else {
+          user.suspendedUntil = new Date(until).toISOString();
+        }
+        commit();
+        return publicUser(user);
+      },
+      setRole: async ({ userId, role, adminId }) => {
+        const admin = requireAdmin(adminId);
+        const user = requireUser(userId);
+        const problem = ASSIGNABLE_ROLES.includes(role)
+          ? validateUserAction(admin, user, 'role')
+          : `Role must be one of ${ASSIGNABLE_ROLES.join(', ')}`;
+        if (problem) {
+          throw new Error(problem);
+        }
+        user.role = role;
+        commit();
+        return publicUser(user);
+      },
+      saveTag: async ({ name: input, description, synonyms: names, adminId }) => {
+        requireAdmin(adminId);
+        const name = normaliseTagName(input);
+        const synonyms = Array.from(new Set(names.map(normaliseTagName).filter(Boolean)));
+        const problem = name ? validateSynonyms(name, synonyms, state.tags) : 'Please provide a tag name';
+        if (problem) {
+          throw new Error(problem);
+        }
+
+        registerTag(name);
+        const record = state.tags.find(t => t.name === name)!;
+        record.description = description?.trim() || undefined;
+        record.synonyms = synonyms;
+        commit();
+        return toTag(record);
+      },
+      removeTag: async ({ name, adminId }) => {
+        requireAdmin(adminId);
+        if (!state.tags.some(t => t.name === name)) {
+          throw new Error(`Unknown tag: ${name}`);
+        }
+        const uses = state.questions.filter(q => q.tags.includes(name)).length;
+        if (uses > 0) {
+          throw new Error(`${name} is still used by ${uses} question${uses !== 1 ? 's' : ''}`);
+        }
+        state.tags = state.tags.filter(t => t.name !== name);
+        commit();
+      }
+    },
+
+    // Images go into the post itself as data URLs, so there's nothing to keep here
+    uploads: {
+      uploadImage: async ({ file, userId, onProgress }) => {
+        requireActiveUser(userId);
+        const problem = validateImage(file);
+        if (problem) {
+          throw new Error(problem);
+        }
+
+        const original = await readDataUrl(file, onProgress);
+        const image = await loadImage(original);
+        let scaled = scaleImage(image, original, file.type, MAX_IMAGE_DIMENSION);
+        if (scaled.url.length > MAX_EMBEDDED_IMAGE_LENGTH) {
+          scaled = scaleImageToJpeg(image, MAX_IMAGE_DIMENSION);
+        }
+        if (scaled.url.length > MAX_EMBEDDED_IMAGE_LENGTH) {
+          throw new Error('That image is too large to save in this browser');
+        }
+        return {
+          id: createId('img'),
+          ...scaled,
+          thumbnailUrl: scaleImage(image, original, file.type, THUMBNAIL_DIMENSION).url
+        };
+      }
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { activeMention, extractMentions, rankMentionCandidates, unknownMentions, validateMentions } from './mentions';
+
+const usernames = ['demo_user', 'alice', 'alicia', 'bob'];
+const exists = (username: string) => usernames.includes(username.toLowerCase());
+
+describe('extractMentions', () => {
+  it('finds each handle once, whatever its case', () => {
+    expect(extractMentions('@alice, can you and @Bob check? Thanks @ALICE')).toEqual(['alice', 'Bob']);
+  });
+
+  it('skips email addresses and code', () => {
+    expect(extractMentions('Mail bob@example.com')).toEqual([]);
+    expect(extractMentions('Use `@Input()` or\n```ts\n@Component({})\n```\nthen ask @alice')).toEqual(['alice']);
+  });
+});
+
+describe('unknownMentions and validateMentions', () => {
+  it('lists the handles that are nobody', () => {
+    expect(unknownMentions('@alice uses @media queries with @types/react', exists)).toEqual(['media', 'types']);
+  });
+
+  it('warns about unknown handles and is quiet otherwise', () => {
+    expect(validateMentions('thanks @alice', exists)).toBeNull();
+    expect(validateMentions('use @media', exists)).toBe("There's no user called @media, so nobody will be notified");
+    expect(validateMentions('@media and @supports', exists)).toMatch(/no users called @media, @supports/);
+  });
+});
+
+describe('activeMention', () => {
+  it('finds the handle being typed at the cursor', () => {
+    expect(activeMention('thanks @da', 10)).toEqual({ start: 7, query: 'da' });
+    expect(activeMention('thanks @', 8)).toEqual({ start: 7, query: '' });
+  });
+
+  it('ignores finished handles and email addresses', () => {
+    expect(activeMention('thanks @dan ', 12)).toBeNull();
+    expect(activeMention('bob@exa', 7)).toBeNull();
+  });
+});
+
+describe('rankMentionCandidates', () => {
+  const users = usernames.map((username, index) => ({ id: `u${index}`, username }));
+
+  it('puts thread participants first, then names starting with the query', () => {
+    expect(rankMentionCandidates('ali', users, ['u2']).map(u => u.username)).toEqual(['alicia', 'alice']);
+    expect(rankMentionCandidates('o', users, []).map(u => u.username)).toEqual(['bob', 'demo_user']);
+  });
+
+  it('leaves out the user writing', () => {
+    expect(rankMentionCandidates('', users, [], 'u0').map(u => u.id)).not.toContain('u0');
+  });
+});
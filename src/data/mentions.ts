@@ -0,0 +1,60 @@
+import { User } from '../types';
+
+// Code is skipped, so decorators and the like in snippets aren't read as mentions
+const CODE = /```[\s\S]*?```|`[^`\n]*`/g;
+// An @ straight after a word character is part of an email address, not a mention
+const MENTION = /(^|[^\w@])@(\w+)/g;
+
+// Users offered in the editor's picker at once
+export const MENTION_SUGGESTIONS = 6;
+
+export type MentionPostType = 'question' | 'answer' | 'comment';
+
+// Every username the text mentions, once each whatever its case
+export const extractMentions = (text: string) => {
+  const names = new Map<string, string>();
+  for (const match of text.replace(CODE, ' ').matchAll(MENTION)) {
+    if (!names.has(match[2].toLowerCase())) names.set(match[2].toLowerCase(), match[2]);
+  }
+  return Array.from(names.values());
+};
+
+// Handles the text mentions that aren't anyone's username; they stay plain text and notify no one
+export const unknownMentions = (text: string, exists: (username: string) => boolean) =>
+  extractMentions(text).filter(name => !exists(name));
+
+// A warning for the editor rather than an error, as "@media" or "@types/react" are fine to write
+export const validateMentions = (text: string, exists: (username: string) => boolean) => {
+  const unknown = unknownMentions(text, exists).map(name => `@${name}`);
+  if (unknown.length === 0) return null;
+  return unknown.length === 1
+    ? `There's no user called ${unknown[0]}, so nobody will be notified`
+    : `There are no users called ${unknown.join(', ')}, so nobody will be notified`;
+};
+
+export const mentionMessage = (username: string, postType: MentionPostType, questionTitle: string) =>
+  postType === 'question'
+    ? `${username} mentioned you in the question "${questionTitle}"`
+    : `${username} mentioned you in ${postType === 'answer' ? 'an answer' : 'a comment'} on "${questionTitle}"`;
+
+// The mention being typed at the cursor, e.g. "thanks @da|" gives { start: 7, query: 'da' }
+export const activeMention = (text: string, cursor: number) => {
+  const match = /(^|[^\w@])@(\w*)$/.exec(text.slice(0, cursor));
+  return match ? { start: cursor - match[2].length - 1, query: match[2] } : null;
+};
+
+// Users whose name contains the query: people already in the thread first, then names starting with it
+export const rankMentionCandidates = <T extends Pick<User, 'id' | 'username'>>(
+  query: string,
+  users: T[],
+  participantIds: string[],
+  excludeId?: string
+): T[] => {
+  const lower = query.toLowerCase();
+  const rank = (user: T) =>
+    (participantIds.includes(user.id) ? 0 : 2) + (user.username.toLowerCase().startsWith(lower) ? 0 : 1);
+  return users
+    .filter(user => user.id !== excludeId && user.username.toLowerCase().includes(lower))
+    .sort((a, b) => rank(a) - rank(b) || a.username.localeCompare(b.username))
+    .slice(0, MENTION_SUGGESTIONS);
+};
@@ -1,4 +1,7 @@
-import { Question, User } from '../types';
+import { Answer, Comment, Notification, Question, User } from '../types';
+import { DataSnapshot, TagRecord } from './repository';
+import { Credential } from './auth';
+import { NO_BADGES } from './badges';
 
 export const mockUsers: User[] = [
   {
@@ -8,16 +11,18 @@ export const mockUsers: User[] = [
     role: 'user',
     avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
     joinDate: '2024-01-15',
-    reputation: 1250
+    reputation: 1250,
+    badgeCounts: NO_BADGES
   },
   {
     id: '2',
     username: 'react_expert',
     email: 'expert@example.com',
-    role: 'user',
+    role: 'admin',
     avatar: 'https://images.pexels.com/photos/774909/pexels-photo-774909.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
     joinDate: '2023-05-10',
-    reputation: 2840
+    reputation: 2840,
+    badgeCounts: NO_BADGES
   },
   {
     id: '3',
@@ -26,7 +31,8 @@ export const mockUsers: User[] = [
     role: 'user',
     avatar: 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
     joinDate: '2023-08-22',
-    reputation: 1650
+    reputation: 1650,
+    badgeCounts: NO_BADGES
   },
   {
     id: '4',
@@ -35,7 +41,8 @@ export const mockUsers: User[] = [
     role: 'user',
     avatar: 'https://images.pexels.com/photos/1181686/pexels-photo-1181686.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
     joinDate: '2023-11-03',
-    reputation: 980
+    reputation: 980,
+    badgeCounts: NO_BADGES
   },
   {
     id: '5',
@@ -44,7 +51,8 @@ export const mockUsers: User[] = [
     role: 'user',
     avatar: 'https://images.pexels.com/photos/1595391/pexels-photo-1595391.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
     joinDate: '2024-02-20',
-    reputation: 750
+    reputation: 750,
+    badgeCounts: NO_BADGES
   }
 ];
 
@@ -155,4 +163,231 @@ export const mockQuestions: Question[] = [
     votes: 4,
     answerCount: 1,
   }
-];
\ No newline at end of file
+];
+
+export const mockAnswers: Answer[] = [
+  {
+    id: 'a1',
+    questionId: 'q1',
+    content: `You can use the **useState** hook for local component state and **useEffect** for side effects. Here's a basic example:
+
+\`\`\`javascript
+import React, { useState, useEffect } from 'react';
+
+function MyComponent() {
+  const [count, setCount] = useState(0);
+  
+  useEffect(() => {
+    document.title = \`Count: \${count}\`;
+  }, [count]);
+  
+  return (
+    <div>
+      <p>Count: {count}</p>
+      <button onClick={() => setCount(count + 1)}>
+        Increment
+      </button>
+    </div>
+  );
+}
+\`\`\`
+
+The **useState** hook returns an array with the current state value and a setter function. The **useEffect** hook runs after every render and can be used for cleanup by returning a function.`,
+    authorId: '2',
+    author: mockUsers[1],
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString(),
+    votes: 15,
+    isAccepted: true
+  },
+  {
+    id: 'a2',
+    questionId: 'q1',
+    content: `Another approach is to use **custom hooks** to encapsulate reusable logic:
+
+\`\`\`javascript
+// Custom hook
+function useCounter(initialValue = 0) {
+  const [count, setCount] = useState(initialValue);
+  
+  const increment = () => setCount(count + 1);
+  const decrement = () => setCount(count - 1);
+  const reset = () => setCount(initialValue);
+  
+  return { count, increment, decrement, reset };
+}
+
+// Using the custom hook
+function Counter() {
+  const { count, increment, decrement, reset } = useCounter(0);
+  
+  return (
+    <div>
+      <p>Count: {count}</p>
+      <button onClick={increment}>+</button>
+      <button onClick={decrement}>-</button>
+      <button onClick={reset}>Reset</button>
+    </div>
+  );
+}
+\`\`\`
+
+This keeps your components clean and makes the logic reusable across different components.`,
+    authorId: '3',
+    author: mockUsers[2],
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 1).toISOString(),
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 1).toISOString(),
+    votes: 8,
+    isAccepted: false
+  }
+];
+
+export const mockComments: Comment[] = [
+  {
+    id: 'c1',
+    questionId: 'q1',
+    targetId: 'q1',
+    targetType: 'question',
+    content: 'Which version of React are you on? Hooks need 16.8 or later.',
+    authorId: '4',
+    author: mockUsers[3],
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2.5).toISOString(),
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 2.5).toISOString(),
+    votes: 2
+  },
+  {
+    id: 'c2',
+    questionId: 'q1',
+    targetId: 'q1',
+    targetType: 'question',
+    parentId: 'c1',
+    content: '@css_ninja 18.2, created with Vite.',
+    authorId: '1',
+    author: mockUsers[0],
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2.4).toISOString(),
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 2.4).toISOString(),
+    votes: 0
+  },
+  {
+    id: 'c3',
+    questionId: 'q1',
+    targetId: 'a1',
+    targetType: 'answer',
+    content: 'Worth adding that the dependency array controls when the effect re-runs.',
+    authorId: '5',
+    author: mockUsers[4],
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 1.5).toISOString(),
+    updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 1.5).toISOString(),
+    votes: 3
+  }
+];
+
+export const mockNotifications: Notification[] = [
+  {
+    id: 'n1',
+    userId: '1',
+    type: 'answer',
+    message: 'react_expert answered your question "How to implement React hooks properly?"',
+    relatedId: 'q1',
+    questionId: 'q1',
+    read: false,
+    createdAt: new Date(Date.now() - 1000 * 60 * 30).toISOString() // 30 minutes ago
+  },
+  {
+    id: 'n2',
+    userId: '1',
+    type: 'mention',
+    message: 'hooks_master mentioned you in an answer: "As @demo_user suggested, this approach works well..."',
+    relatedId: 'a2',
+    questionId: 'q1',
+    read: false,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 2).toISOString() // 2 hours ago
+  },
+  {
+    id: 'n3',
+    userId: '1',
+    type: 'accept',
+    message: 'Your answer was accepted as the best solution for "CSS Grid vs Flexbox"',
+    relatedId: 'a3',
+    questionId: 'q2',
+    read: true,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24).toISOString() // 1 day ago
+  },
+  {
+    id: 'n4',
+    userId: '1',
+    type: 'mention',
+    message: 'css_ninja mentioned you: "Thanks @demo_user for the detailed explanation!"',
+    relatedId: 'a4',
+    questionId: 'q1',
+    read: false,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 4).toISOString() // 4 hours ago
+  },
+  {
+    id: 'n5',
+    userId: '1',
+    type: 'answer',
+    message: 'js_wizard answered your question "JavaScript async/await vs Promises"',
+    relatedId: 'q3',
+    questionId: 'q3',
+    read: true,
+    createdAt: new Date(Date.now() - 1000 * 60 * 60 * 48).toISOString() // 2 days ago
+  }
+];
+
+// Every mock account signs in with the password "demo123"
+export const mockCredentials: Credential[] = [
+  { userId: '1', passwordHash: 'pbkdf2-sha256$100000$n/+W5Yv7pgHGiIfzs9furA==$bFaDSUDAe4QLHCdKK7ZmLa3LaZ7JNWrRA8tapw1j9Mc=' },
+  { userId: '2', passwordHash: 'pbkdf2-sha256$100000$IfwAGc/77Kpf3eN0do6vPQ==$dDBj7qhNDjUiJru3EmULNaI3HQcVutMIHh+6fv/rQzE=' },
+  { userId: '3', passwordHash: 'pbkdf2-sha256$100000$2LIC2Lyf/RCQ3lNvalN2pw==$V/p6XnoVliZpzpraVrSF3E7y5QWAaj7LsQ5qNB8IBXg=' },
+  { userId: '4', passwordHash: 'pbkdf2-sha256$100000$lDX2+l1nIZjEVWFbU4ftmg==$o35JcijvRhzPj/twbxoEu3RVBVEAyd1rX+xkBqHuj54=' },
+  { userId: '5', passwordHash: 'pbkdf2-sha256$100000$Gudm6S+t+oUwh89/QsUuPQ==$hZ39MPaDBp80E8H1JfZSEHmd3Aq2KNOPEJS7x9VovDw=' }
+];
+
+export const mockTags: TagRecord[] = [
+  { id: 't1', name: 'react', description: 'A JavaScript library for building user interfaces from components, maintained by Meta.', synonyms: ['reactjs', 'react.js'] },
+  { id: 't2', name: 'hooks', description: 'React functions such as useState and useEffect that add state and side effects to function components.', synonyms: ['react-hooks'] },
+  { id: 't3', name: 'javascript', description: 'The programming language of the web. Use for questions about the language itself, not a framework.', synonyms: ['js', 'ecmascript'] },
+  { id: 't4', name: 'frontend', description: 'Code that runs in the browser: markup, styling and client-side behaviour.', synonyms: ['front-end'] },
+  { id: 't5', name: 'css', description: 'Cascading Style Sheets, the language for styling and laying out web pages.', synonyms: ['css3'] },
+  { id: 't6', name: 'layout', description: 'Arranging elements on a page, with CSS layout tools or a UI framework.', synonyms: [] },
+  { id: 't7', name: 'grid', description: 'CSS Grid Layout, a two-dimensional system for rows and columns.', synonyms: ['css-grid'] },
+  { id: 't8', name: 'flexbox', description: 'CSS Flexible Box Layout, for one-dimensional rows or columns of items.', synonyms: ['flex'] },
+  { id: 't9', name: 'async', description: 'Asynchronous programming: work that completes later without blocking.', synonyms: ['asynchronous', 'async-await'] },
+  { id: 't10', name: 'promises', description: 'Objects representing the eventual result of an asynchronous operation.', synonyms: ['promise'] },
+  { id: 't11', name: 'es6', description: 'ECMAScript 2015 and the language features it introduced.', synonyms: ['es2015'] },
+  { id: 't12', name: 'performance', description: 'Making code faster or lighter, and measuring it.', synonyms: ['perf'] },
+  { id: 't13', name: 'optimization', description: 'Improving the efficiency of code, queries or builds.', synonyms: ['optimisation'] },
+  { id: 't14', name: 'virtualization', description: 'Rendering only the visible part of long lists or large grids.', synonyms: ['windowing'] },
+  { id: 't15', name: 'nodejs', description: 'The JavaScript runtime for servers and command-line tools.', synonyms: ['node', 'node.js'] },
+  { id: 't16', name: 'python', description: 'A general-purpose language known for its readable syntax.', synonyms: ['py'] },
+  { id: 't17', name: 'backend', description: 'Server-side code: APIs, databases and business logic.', synonyms: ['back-end'] },
+  { id: 't18', name: 'webdev', description: 'General web development questions that span the stack.', synonyms: ['web-development'] },
+  { id: 't19', name: 'typescript', description: 'A typed superset of JavaScript that compiles to plain JavaScript.', synonyms: ['ts'] },
+  { id: 't20', name: 'generics', description: 'Types and functions parameterised over other types.', synonyms: [] },
+  { id: 't21', name: 'types', description: 'Type systems, type annotations and type errors.', synonyms: [] },
+  { id: 't22', name: 'api', description: 'Application programming interfaces, including calling and designing HTTP APIs.', synonyms: ['rest-api'] },
+  { id: 't23', name: 'error-handling', description: 'Detecting, reporting and recovering from errors.', synonyms: ['exceptions'] },
+  { id: 't24', name: 'ux', description: 'User experience: how a product feels to use.', synonyms: ['user-experience'] },
+  { id: 't25', name: 'eslint', description: 'The pluggable JavaScript and TypeScript linter.', synonyms: [] },
+  { id: 't26', name: 'prettier', description: 'The opinionated code formatter.', synonyms: [] },
+  { id: 't27', name: 'tooling', description: 'Build tools, linters, formatters and editor setup.', synonyms: ['dev-tools'] }
+];
+
+export const mockSeed: DataSnapshot = {
+  users: mockUsers,
+  questions: mockQuestions,
+  answers: mockAnswers,
+  comments: mockComments,
+  revisions: [],
+  tags: mockTags,
+  votes: [],
+  reputation: [],
+  badges: [],
+  notifications: mockNotifications,
+  notificationSettings: [],
+  questionViews: [],
+  flags: [],
+  credentials: mockCredentials,
+  sessions: []
+};
@@ -0,0 +1,51 @@
+import { Tag, User } from '../types';
+
+// Roles an admin can hand out; guests are never stored
+export const ASSIGNABLE_ROLES: User['role'][] = ['user', 'admin'];
+
+// Suspension lengths offered in the admin area, in days
+export const SUSPENSION_DAYS = [1, 7, 30, 365];
+
+export const ADMIN_ONLY = 'Only admins can do that';
+export const LOCKED_QUESTION = 'This question is locked';
+
+export const isAdmin = (user: Pick<User, 'role'> | null | undefined) => user?.role === 'admin';
+
+export const isSuspended = (user: Pick<User, 'suspendedUntil'>, now = Date.now()) =>
+  !!user.suspendedUntil && new Date(user.suspendedUntil).getTime() > now;
+
+export const suspendedMessage = (user: Pick<User, 'suspendedUntil'>) =>
+  `Your account is suspended until ${user.suspendedUntil?.slice(0, 10)}`;
+
+export const suspensionEnd = (days: number, now = Date.now()) =>
+  new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+
+// Checks who an admin is about to suspend or change the role of
+export const validateUserAction = (admin: Pick<User, 'id'>, target: Pick<User, 'id' | 'role'>, action: 'suspend' | 'role') => {
+  if (admin.id === target.id) {
+    return action === 'suspend' ? "You can't suspend yourself" : "You can't change your own role";
+  }
+  if (action === 'suspend' && target.role === 'admin') return "Admins can't be suspended";
+  return null;
+};
+
+export const validateSuspension = (until: string, now = Date.now()) => {
+  const end = Date.parse(until);
+  return Number.isNaN(end) || end <= now ? 'A suspension has to end in the future' : null;
+};
+
+// Checks the title, description or content of a new or edited post; tags are checked with validateTags
+export const validatePostText = (text: string, what: string) =>
+  text.trim() ? null : `Please provide a ${what}`;
+
+// Checks a tag's synonyms against itself and the rest of the registry; names are already normalised
+export const validateSynonyms = (name: string, synonyms: string[], tags: Pick<Tag, 'name' | 'synonyms'>[]) => {
+  const others = tags.filter(tag => tag.name !== name);
+  for (const synonym of synonyms) {
+    if (synonym === name) return `${synonym} can't be a synonym of itself`;
+    if (others.some(tag => tag.name === synonym || tag.synonyms.includes(synonym))) {
+      return `${synonym} is already used by another tag`;
+    }
+  }
+  return null;
+};
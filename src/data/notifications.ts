@@ -0,0 +1,77 @@
+import { Notification, NotificationSettings } from '../types';
+
+export const NOTIFICATION_TYPES: { value: Notification['type']; label: string; plural: string; description: string }[] = [
+  { value: 'answer', label: 'Answers', plural: 'answers', description: 'New answers to your questions' },
+  { value: 'comment', label: 'Comments', plural: 'comments', description: 'Comments on your posts and replies to your comments' },
+  { value: 'mention', label: 'Mentions', plural: 'mentions', description: 'Posts and comments that @mention you' },
+  { value: 'accept', label: 'Accepted', plural: 'accepted answers', description: 'Your answers being accepted' },
+  { value: 'badge', label: 'Badges', plural: 'badges', description: 'Badges you earn' }
+];
+
+export const defaultSettings = (userId: string): NotificationSettings => ({
+  userId,
+  mutedTypes: [],
+  mutedQuestionIds: []
+});
+
+// Whether the user's settings stop a notification from being delivered
+export const isMuted = (
+  settings: NotificationSettings | null | undefined,
+  notification: Pick<Notification, 'type' | 'questionId'>
+) =>
+  !!settings && (
+    settings.mutedTypes.includes(notification.type) ||
+    (!!notification.questionId && settings.mutedQuestionIds.includes(notification.questionId))
+  );
+
+export const validateSettings = (settings: Pick<NotificationSettings, 'mutedTypes'>) => {
+  const unknown = settings.mutedTypes.find(type => !NOTIFICATION_TYPES.some(option => option.value === type));
+  return unknown ? `Unknown notification type ${unknown}` : null;
+};
+
+export interface NotificationGroup {
+  key: string;
+  type: Notification['type'];
+  questionId?: string;
+  questionTitle?: string;
+  read: boolean;
+  // Newest first
+  notifications: Notification[];
+}
+
+// Notifications of one type on one question share a group, unread apart from read; badges stay on their own.
+// Groups come newest first, going by their newest notification.
+export const groupNotifications = (notifications: Notification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>();
+  [...notifications]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .forEach(notification => {
+      const key = notification.questionId && notification.type !== 'badge'
+        ? `${notification.type}:${notification.questionId}:${notification.read ? 'read' : 'unread'}`
+        : notification.id;
+      const group = groups.get(key);
+      if (group) {
+        group.notifications.push(notification);
+      } else {
+        groups.set(key, {
+          key,
+          type: notification.type,
+          questionId: notification.questionId,
+          questionTitle: notification.questionTitle,
+          read: notification.read,
+          notifications: [notification]
+        });
+      }
+    });
+  return Array.from(groups.values());
+};
+
+// The group's one message, or e.g. '3 new answers on "Title"'
+export const groupSummary = (group: NotificationGroup) => {
+  const [latest] = group.notifications;
+  if (group.notifications.length === 1) return latest.message;
+
+  const plural = NOTIFICATION_TYPES.find(option => option.value === group.type)?.plural ?? 'notifications';
+  const title = group.questionTitle ? `"${group.questionTitle}"` : 'a deleted question';
+  return `${group.notifications.length} ${group.read ? '' : 'new '}${plural} on ${title}`;
+};
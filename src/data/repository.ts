@@ -0,0 +1,394 @@
+import {
+  Answer,
+  Badge,
+  Comment,
+  Flag,
+  Notification,
+  NotificationSettings,
+  Question,
+  ReputationEvent,
+  Revision,
+  Tag,
+  UploadedImage,
+  User,
+  Vote
+} from '../types';
+import { Credential, StoredSession } from './auth';
+import { SearchResult } from '../utils/searchIndex';
+import { QuestionDraft, SimilarQuestion } from '../utils/similarity';
+import { UserProfile } from '../utils/profile';
+import { FlagReviewAction } from './flags';
+import { QuestionView } from './views';
+
+// Everything the app persists, as one serialisable object
+export interface DataSnapshot {
+  users: User[];
+  questions: Question[];
+  answers: Answer[];
+  comments: Comment[];
+  // Every recorded edit of a question or answer
+  revisions: Revision[];
+  // The tag registry; counts and colours are derived
+  tags: TagRecord[];
+  votes: Vote[];
+  // The reputation ledger; each user's reputation is the sum of their entries
+  reputation: ReputationEvent[];
+  badges: Badge[];
+  notifications: Notification[];
+  // Only users who changed the defaults have settings
+  notificationSettings: NotificationSettings[];
+  // The last counted view of each question by each viewer, within VIEW_WINDOW
+  questionViews: QuestionView[];
+  flags: Flag[];
+  credentials: Credential[];
+  sessions: StoredSession[];
+}
+
+export type TagRecord = Omit<Tag, 'count' | 'color'>;
+
+export interface NewQuestionInput {
+  title: string;
+  description: string;
+  tags: string[];
+  authorId: string;
+}
+
+export interface NewAnswerInput {
+  questionId: string;
+  content: string;
+  authorId: string;
+}
+
+export interface NewCommentInput {
+  targetId: string;
+  targetType: Comment['targetType'];
+  // Replying to a reply joins the thread of the comment it replied to
+  parentId?: string;
+  content: string;
+  authorId: string;
+}
+
+export interface EditCommentInput {
+  id: string;
+  content: string;
+  // Must be the comment's author
+  userId: string;
+}
+
+export type NewNotificationInput = Omit<Notification, 'id' | 'createdAt' | 'questionTitle'>;
+
+export interface AcceptAnswerInput {
+  questionId: string;
+  answerId: string;
+  // Must be the question's author
+  userId: string;
+}
+
+export interface OfferBountyInput {
+  questionId: string;
+  amount: number;
+  // Must be the question's author
+  userId: string;
+}
+
+// Edits are allowed for the post's author or an admin; see editProblem
+export interface EditQuestionInput {
+  id: string;
+  title: string;
+  description: string;
+  tags: string[];
+  summary: string;
+  userId: string;
+}
+
+export interface EditAnswerInput {
+  id: string;
+  content: string;
+  summary: string;
+  userId: string;
+}
+
+export interface RollbackInput {
+  // The post to roll back
+  id: string;
+  revisionId: string;
+  userId: string;
+}
+
+// Every moderation input names the admin acting, and is rejected for anyone else
+export interface ModeratePostInput {
+  postType: 'question' | 'answer';
+  postId: string;
+  adminId: string;
+}
+
+export interface LockQuestionInput {
+  questionId: string;
+  locked: boolean;
+  adminId: string;
+}
+
+export interface SuspendUserInput {
+  userId: string;
+  // null lifts the suspension
+  until: string | null;
+  adminId: string;
+}
+
+export interface SetRoleInput {
+  userId: string;
+  role: User['role'];
+  adminId: string;
+}
+
+export interface SaveTagInput {
+  // Registered if it isn't a tag yet
+  name: string;
+  description?: string;
+  // Replaces the tag's synonyms
+  synonyms: string[];
+  adminId: string;
+}
+
+export interface NewFlagInput {
+  targetId: string;
+  targetType: Flag['targetType'];
+  reason: Flag['reason'];
+  text?: string;
+  userId: string;
+}
+
+export interface ReviewFlagsInput {
+  targetId: string;
+  targetType: Flag['targetType'];
+  action: FlagReviewAction;
+  adminId: string;
+}
+
+// A post waiting in the review queue
+export interface FlaggedPost {
+  targetId: string;
+  targetType: Flag['targetType'];
+  questionId: string;
+  questionTitle: string;
+  // The answer or comment text, or the question's description
+  content: string;
+  author: User;
+  // Set while spam flags hide the post
+  hiddenAt?: string;
+  // Its pending flags, oldest first
+  flags: Flag[];
+}
+
+export interface DeletedAnswer extends Answer {
+  questionTitle: string;
+}
+
+export interface DeletedPosts {
+  // Most recently deleted first
+  questions: Question[];
+  answers: DeletedAnswer[];
+}
+
+export interface TagRepository {
+  // Most used first
+  list: () => Promise<Tag[]>;
+  // Looks the name up as a tag or as one of its synonyms
+  get: (name: string) => Promise<Tag | null>;
+}
+
+export interface RecordViewInput {
+  questionId: string;
+  // Unset for anonymous visitors
+  userId?: string;
+  // Identifies this browser while signed out
+  visitorId: string;
+}
+
+export interface QuestionRepository {
+  list: () => Promise<Question[]>;
+  get: (id: string) => Promise<Question | null>;
+  // Ranked full-text search over questions, their tags and answers; see parseSearchQuery for operators
+  search: (query: string) => Promise<SearchResult[]>;
+  // Existing questions a new one may duplicate; see findSimilarQuestions
+  similar: (draft: QuestionDraft) => Promise<SimilarQuestion[]>;
+  // Tags are normalised and synonyms replaced by their canonical tag; unknown tags are registered
+  create: (input: NewQuestionInput) => Promise<Question>;
+  // Accepting the already-accepted answer un-accepts it; an open bounty goes to the first answer
+  // accepted from someone else and isn't taken back
+  acceptAnswer: (input: AcceptAnswerInput) => Promise<Question>;
+  // Takes the amount from the author's reputation straight away; see validateBounty
+  offerBounty: (input: OfferBountyInput) => Promise<Question>;
+  // Records the edit as a new revision
+  update: (input: EditQuestionInput) => Promise<Question>;
+  // Oldest first; a post never edited has just its first revision
+  listRevisions: (id: string) => Promise<Revision[]>;
+  // Restores an earlier revision's title, tags and description as a new revision
+  rollback: (input: RollbackInput) => Promise<Question>;
+  // Counts a view unless the same viewer was counted within VIEW_WINDOW; the question's
+  // author may earn a views badge
+  recordView: (input: RecordViewInput) => Promise<void>;
+}
+
+export interface AnswerRepository {
+  listByQuestion: (questionId: string) => Promise<Answer[]>;
+  create: (input: NewAnswerInput) => Promise<Answer>;
+  update: (input: EditAnswerInput) => Promise<Answer>;
+  listRevisions: (id: string) => Promise<Revision[]>;
+  rollback: (input: RollbackInput) => Promise<Answer>;
+}
+
+export interface CommentRepository {
+  // Comments on the question and on each of its answers, oldest first
+  listByQuestion: (questionId: string) => Promise<Comment[]>;
+  // Notifies the post's author, and the parent comment's author for a reply
+  create: (input: NewCommentInput) => Promise<Comment>;
+  // Allowed for the author within COMMENT_EDIT_WINDOW
+  update: (input: EditCommentInput) => Promise<Comment>;
+  // Allowed for the author within COMMENT_DELETE_WINDOW; takes the comment's replies with it
+  remove: (input: { id: string; userId: string }) => Promise<void>;
+}
+
+export interface CastVoteInput extends Omit<Vote, 'id' | 'type'> {
+  // null retracts the user's existing vote
+  type: Vote['type'] | null;
+}
+
+export interface CastVoteResult {
+  vote: Vote | null;
+  // The target's new total
+  votes: number;
+}
+
+export interface VoteRepository {
+  listByUser: (userId: string) => Promise<Vote[]>;
+  // One vote per user and target; rejects votes on the user's own posts. Changing or retracting a
+  // vote reverses the reputation it gave
+  cast: (input: CastVoteInput) => Promise<CastVoteResult>;
+}
+
+export interface UserRepository {
+  list: () => Promise<User[]>;
+  get: (id: string) => Promise<User | null>;
+  getByUsername: (username: string) => Promise<User | null>;
+  // Everything shown on a public profile page; null when there is no such user
+  getProfile: (username: string) => Promise<UserProfile | null>;
+}
+
+export interface NotificationRepository {
+  listByUser: (userId: string) => Promise<Notification[]>;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: (userId: string) => Promise<void>;
+  // Defaults to nothing muted
+  getSettings: (userId: string) => Promise<NotificationSettings>;
+  saveSettings: (settings: NotificationSettings) => Promise<NotificationSettings>;
+  // Calls back with each notification the user receives from now on, until unsubscribed
+  watch: (userId: string, listener: (notification: Notification) => void) => () => void;
+}
+
+export interface FlagRepository {
+  // The user's own flags, so posts they flagged can say so
+  listByUser: (userId: string) => Promise<Flag[]>;
+  // One flag per user and post, never on their own; enough spam flags hide the post, see SPAM_HIDE_THRESHOLD
+  create: (input: NewFlagInput) => Promise<Flag>;
+}
+
+// Admin-only actions; posting, voting and reading already respect what they change
+export interface ModerationRepository {
+  listDeleted: (adminId: string) => Promise<DeletedPosts>;
+  // Hides the post and reverses the reputation it earned or cost; its pending flags count as helpful
+  deletePost: (input: ModeratePostInput) => Promise<void>;
+  // Brings the post back with the reputation its deletion reversed; its pending flags are declined
+  restorePost: (input: ModeratePostInput) => Promise<void>;
+  // The review queue; see compareFlaggedPosts for the order
+  listFlagged: (adminId: string) => Promise<FlaggedPost[]>;
+  // Resolves every pending flag on the post; declining brings back a post the flags hid
+  reviewFlags: (input: ReviewFlagsInput) => Promise<void>;
+  // A locked question takes no new answers, comments or votes
+  lockQuestion: (input: LockQuestionInput) => Promise<Question>;
+  // Suspended users can still sign in and read, but not post or vote; admins can't be suspended
+  suspendUser: (input: SuspendUserInput) => Promise<User>;
+  // Admins can't change their own role
+  setRole: (input: SetRoleInput) => Promise<User>;
+  saveTag: (input: SaveTagInput) => Promise<Tag>;
+  // Only tags no question uses, deleted questions included, can be removed
+  removeTag: (input: { name: string; adminId: string }) => Promise<void>;
+}
+
+export interface UploadImageInput {
+  file: File;
+  userId: string;
+  // Called with the share of the file sent so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+}
+
+export interface UploadRepository {
+  // Rejects files validateImage turns down; larger images come back scaled down, with a thumbnail
+  uploadImage: (input: UploadImageInput) => Promise<UploadedImage>;
+}
+
+export interface RegisterInput {
+  username: string;
+  email: string;
+  password: string;
+}
+
+// Implementations keep the current session themselves and persist it between reloads
+export interface AuthRepository {
+  // Resolves to null when the credentials are rejected
+  login: (email: string, password: string) => Promise<User | null>;
+  // Rejects with a user-facing message, e.g. when the email is already registered
+  register: (input: RegisterInput) => Promise<User>;
+  // Validates the saved session, refreshing it if the access token has expired
+  restoreSession: () => Promise<User | null>;
+  logout: () => Promise<void>;
+}
+
+export interface DataRepository {
+  auth: AuthRepository;
+  questions: QuestionRepository;
+  answers: AnswerRepository;
+  comments: CommentRepository;
+  tags: TagRepository;
+  votes: VoteRepository;
+  users: UserRepository;
+  notifications: NotificationRepository;
+  flags: FlagRepository;
+  moderation: ModerationRepository;
+  uploads: UploadRepository;
+  // Called after every write so views can reload what they show
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const answerMessage = (username: string, questionTitle: string) =>
+  `${username} answered your question "${questionTitle}"`;
+
+export const acceptedMessage = (questionTitle: string) =>
+  `Your answer was accepted as the best solution for "${questionTitle}"`;
+
+export const COMMENT_MAX_LENGTH = 600;
+export const COMMENT_EDIT_WINDOW = 5 * 60 * 1000;
+export const COMMENT_DELETE_WINDOW = 60 * 60 * 1000;
+
+export const validateComment = (content: string) => {
+  const length = content.trim().length;
+  if (length < 2) return 'Comments need at least 2 characters';
+  if (length > COMMENT_MAX_LENGTH) return `Comments are limited to ${COMMENT_MAX_LENGTH} characters`;
+  return null;
+};
+
+// Whether the author may still edit or delete a comment, given the window for that action
+export const withinCommentWindow = (comment: Pick<Comment, 'createdAt'>, window: number, now = Date.now()) =>
+  now - new Date(comment.createdAt).getTime() <= window;
+
+export const commentMessage = (username: string, postType: Comment['targetType'], questionTitle: string) =>
+  `${username} commented on your ${postType === 'question' ? 'question' : 'answer to'} "${questionTitle}"`;
+
+export const replyMessage = (username: string, questionTitle: string) =>
+  `${username} replied to your comment on "${questionTitle}"`;
+
+export const voteValue = (type: Vote['type'] | null | undefined) =>
+  type === 'up' ? 1 : type === 'down' ? -1 : 0;
+
+export const createId = (prefix: string = '') =>
+  `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
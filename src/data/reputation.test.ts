@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DAILY_REPUTATION_CAP,
+  PendingReputationEvent,
+  acceptReputation,
+  recordReputation,
+  reputationTotal,
+  restorePostReputation,
+  reversePostReputation,
+  reverseReputation,
+  validateBounty,
+  voteReputation
+} from './reputation';
+
+const NOW = '2024-03-10T12:00:00.000Z';
+
+const upvote = (sourceId: string, postId = 'a1'): PendingReputationEvent => ({
+  userId: 'u1',
+  reason: 'answer_upvoted',
+  amount: 10,
+  postId,
+  questionId: 'q1',
+  sourceId
+});
+
+// Enough upvotes to take u1 to the given amount earned today
+const earned = (total: number, now = NOW) =>
+  recordReputation([], Array.from({ length: total / 10 }, (_, index) => upvote(`v${index}`)), now);
+
+describe('voteReputation', () => {
+  it('rewards the author of an upvoted question or answer', () => {
+    expect(voteReputation({ id: 'v1', userId: 'u2', targetId: 'q1', targetType: 'question', type: 'up' },
+      { authorId: 'u1', questionId: 'q1' }))
+      .toEqual([{ userId: 'u1', reason: 'question_upvoted', amount: 5, postId: 'q1', questionId: 'q1', sourceId: 'v1' }]);
+    expect(voteReputation({ id: 'v1', userId: 'u2', targetId: 'a1', targetType: 'answer', type: 'up' },
+      { authorId: 'u1', questionId: 'q1' })[0]).toMatchObject({ reason: 'answer_upvoted', amount: 10 });
+  });
+
+  it('costs both the author and the voter on a downvote', () => {
+    const entries = voteReputation({ id: 'v1', userId: 'u2', targetId: 'a1', targetType: 'answer', type: 'down' },
+      { authorId: 'u1', questionId: 'q1' });
+    expect(entries.map(({ userId, amount }) => [userId, amount])).toEqual([['u1', -2], ['u2', -1]]);
+  });
+
+  it('ignores votes on comments', () => {
+    expect(voteReputation({ id: 'v1', userId: 'u2', targetId: 'c1', targetType: 'comment', type: 'up' },
+      { authorId: 'u1', questionId: 'q1' })).toEqual([]);
+  });
+});
+
+describe('acceptReputation', () => {
+  it('rewards both sides of an accept', () => {
+    const entries = acceptReputation({ id: 'q1', authorId: 'u1' }, { id: 'a1', authorId: 'u2' });
+    expect(entries.map(({ userId, amount, sourceId }) => [userId, amount, sourceId]))
+      .toEqual([['u2', 15, 'a1'], ['u1', 2, 'a1']]);
+  });
+
+  it('gives nothing for accepting your own answer', () => {
+    expect(acceptReputation({ id: 'q1', authorId: 'u1' }, { id: 'a1', authorId: 'u1' })).toEqual([]);
+  });
+});
+
+describe('recordReputation', () => {
+  it('dates and numbers the entries', () => {
+    const [entry] = recordReputation([], [upvote('v1')], NOW);
+    expect(entry).toMatchObject({ amount: 10, createdAt: NOW });
+    expect(entry.id).toEqual(expect.any(String));
+  });
+
+  it('records upvotes past the daily cap at whatever is left, then zero', () => {
+    const ledger = earned(DAILY_REPUTATION_CAP - 10);
+    const questionUpvote: PendingReputationEvent = { ...upvote('q'), reason: 'question_upvoted', amount: 5 };
+    const recorded = recordReputation(ledger, [questionUpvote, upvote('over1'), upvote('over2')], NOW);
+    expect(recorded.map(entry => entry.amount)).toEqual([5, 5, 0]);
+    expect(reputationTotal([...ledger, ...recorded], 'u1')).toBe(DAILY_REPUTATION_CAP);
+  });
+
+  it('starts a fresh allowance each UTC day', () => {
+    const ledger = earned(DAILY_REPUTATION_CAP, '2024-03-09T23:59:00.000Z');
+    expect(recordReputation(ledger, [upvote('next')], '2024-03-10T00:01:00.000Z')[0].amount).toBe(10);
+  });
+
+  it('never caps accepts, bounties or downvotes', () => {
+    const ledger = earned(DAILY_REPUTATION_CAP);
+    const recorded = recordReputation(ledger, [
+      ...acceptReputation({ id: 'q2', authorId: 'u9' }, { id: 'a2', authorId: 'u1' }),
+      { userId: 'u1', reason: 'bounty_awarded', amount: 100, postId: 'a2', questionId: 'q2', sourceId: 'q2' },
+      { userId: 'u1', reason: 'post_downvoted', amount: -2, postId: 'a2', questionId: 'q2', sourceId: 'v9' }
+    ], NOW);
+    expect(recorded.filter(entry => entry.userId === 'u1').map(entry => entry.amount)).toEqual([15, 100, -2]);
+  });
+});
+
+describe('reverseReputation', () => {
+  it('cancels every matching entry once', () => {
+    const ledger = recordReputation([], [upvote('v1'), upvote('v2')], NOW);
+    const reversals = reverseReputation(ledger, entry => entry.sourceId === 'v1', NOW);
+    expect(reversals).toEqual([expect.objectContaining({ amount: -10, reverses: ledger[0].id })]);
+    expect(reverseReputation([...ledger, ...reversals], entry => entry.sourceId === 'v1', NOW)).toEqual([]);
+  });
+
+  it('takes back exactly what a capped entry earned', () => {
+    const ledger = earned(DAILY_REPUTATION_CAP);
+    const [capped] = recordReputation(ledger, [upvote('over')], NOW);
+    const reversals = reverseReputation([...ledger, capped], entry => entry.sourceId === 'over', NOW);
+    expect(reputationTotal([...ledger, capped, ...reversals], 'u1')).toBe(DAILY_REPUTATION_CAP);
+  });
+});
+
+describe('deleting and restoring a post', () => {
+  const DELETED_AT = '2024-03-11T08:00:00.000Z';
+
+  it("reverses the post's entries and restores only the deletion's reversals", () => {
+    const ledger = recordReputation([], [upvote('v1', 'a1'), upvote('v2', 'a1'), upvote('v3', 'a2')], NOW);
+    // A vote retracted before the deletion stays retracted after the restore
+    const retracted = reverseReputation(ledger, entry => entry.sourceId === 'v2', NOW);
+    const deletion = reversePostReputation([...ledger, ...retracted], 'a1', DELETED_AT);
+    expect(deletion.map(entry => entry.sourceId)).toEqual(['v1']);
+
+    const afterDeletion = [...ledger, ...retracted, ...deletion];
+    expect(reputationTotal(afterDeletion, 'u1')).toBe(10);
+
+    const restored = restorePostReputation(afterDeletion, 'a1', DELETED_AT);
+    expect(restored).toEqual([expect.objectContaining({ sourceId: 'v1', amount: 10, reverses: undefined })]);
+    expect(reputationTotal([...afterDeletion, ...restored], 'u1')).toBe(20);
+  });
+
+  it('refunds an open bounty with the question', () => {
+    const ledger = recordReputation([], [
+      { userId: 'u1', reason: 'bounty_offered', amount: -100, postId: 'q1', questionId: 'q1', sourceId: 'q1' }
+    ], NOW);
+    const deletion = reversePostReputation(ledger, 'q1', DELETED_AT);
+    expect(reputationTotal([...ledger, ...deletion], 'u1')).toBe(0);
+  });
+});
+
+describe('validateBounty', () => {
+  it('accepts only the offered amounts the user can afford', () => {
+    expect(validateBounty(100, 150)).toBeNull();
+    expect(validateBounty(75, 150)).toMatch(/must be one of/);
+    expect(validateBounty(200, 150)).toMatch(/enough reputation/);
+  });
+});
@@ -0,0 +1,136 @@
+import { ReputationEvent, User, Vote } from '../types';
+import { createId } from './repository';
+
+// Fixed amounts per rule; bounties and starting balances carry their own amount
+export const REPUTATION_RULES = {
+  question_upvoted: 5,
+  answer_upvoted: 10,
+  post_downvoted: -2,
+  downvote_cast: -1,
+  answer_accepted: 15,
+  accepted_an_answer: 2
+} as const;
+
+// Upvote gains above this per user and UTC day are recorded at zero
+export const DAILY_REPUTATION_CAP = 200;
+const CAPPED_REASONS: ReputationEvent['reason'][] = ['question_upvoted', 'answer_upvoted'];
+
+export const BOUNTY_AMOUNTS = [50, 100, 200, 500];
+
+export const REPUTATION_LABELS: Record<ReputationEvent['reason'], string> = {
+  starting_balance: 'Starting balance',
+  question_upvoted: 'Question upvoted',
+  answer_upvoted: 'Answer upvoted',
+  post_downvoted: 'Post downvoted',
+  downvote_cast: 'Downvoted a post',
+  answer_accepted: 'Answer accepted',
+  accepted_an_answer: 'Accepted an answer',
+  bounty_offered: 'Offered a bounty',
+  bounty_awarded: 'Bounty awarded'
+};
+
+// An entry before the engine has dated, capped and numbered it
+export type PendingReputationEvent = Omit<ReputationEvent, 'id' | 'createdAt' | 'reverses'>;
+
+const day = (date: string) => date.slice(0, 10);
+
+// What a vote earns or costs; comment votes don't count
+export const voteReputation = (
+  vote: Pick<Vote, 'id' | 'userId' | 'targetId' | 'targetType' | 'type'>,
+  post: { authorId: string; questionId: string }
+): PendingReputationEvent[] => {
+  if (vote.targetType === 'comment') return [];
+
+  const base = { postId: vote.targetId, questionId: post.questionId, sourceId: vote.id };
+  if (vote.type === 'up') {
+    const reason = vote.targetType === 'question' ? 'question_upvoted' : 'answer_upvoted';
+    return [{ ...base, userId: post.authorId, reason, amount: REPUTATION_RULES[reason] }];
+  }
+  return [
+    { ...base, userId: post.authorId, reason: 'post_downvoted', amount: REPUTATION_RULES.post_downvoted },
+    { ...base, userId: vote.userId, reason: 'downvote_cast', amount: REPUTATION_RULES.downvote_cast }
+  ];
+};
+
+// Both sides of an accept, unless people accept their own answer
+export const acceptReputation = (
+  question: { id: string; authorId: string },
+  answer: { id: string; authorId: string }
+): PendingReputationEvent[] => {
+  if (answer.authorId === question.authorId) return [];
+
+  const base = { postId: answer.id, questionId: question.id, sourceId: answer.id };
+  return [
+    { ...base, userId: answer.authorId, reason: 'answer_accepted', amount: REPUTATION_RULES.answer_accepted },
+    { ...base, userId: question.authorId, reason: 'accepted_an_answer', amount: REPUTATION_RULES.accepted_an_answer }
+  ];
+};
+
+// Dates and numbers pending entries, recording capped gains at whatever is left of the day's allowance.
+// ledger needs every earlier entry of the users involved on the same day.
+export const recordReputation = (
+  ledger: ReputationEvent[],
+  pending: PendingReputationEvent[],
+  now = new Date().toISOString()
+): ReputationEvent[] => {
+  const recorded: ReputationEvent[] = [];
+  pending.forEach(entry => {
+    let amount = entry.amount;
+    if (CAPPED_REASONS.includes(entry.reason)) {
+      const earned = [...ledger, ...recorded]
+        .filter(e => e.userId === entry.userId && CAPPED_REASONS.includes(e.reason) && day(e.createdAt) === day(now))
+        .reduce((total, e) => total + e.amount, 0);
+      amount = Math.max(0, Math.min(amount, DAILY_REPUTATION_CAP - earned));
+    }
+    recorded.push({ ...entry, amount, id: createId('r'), createdAt: now });
+  });
+  return recorded;
+};
+
+// Entries cancelling every still-standing entry that matches, e.g. all entries from one vote
+export const reverseReputation = (
+  ledger: ReputationEvent[],
+  matches: (entry: ReputationEvent) => boolean,
+  now = new Date().toISOString()
+): ReputationEvent[] => {
+  const reversed = new Set(ledger.map(entry => entry.reverses).filter(Boolean));
+  return ledger
+    .filter(entry => !entry.reverses && !reversed.has(entry.id) && matches(entry))
+    .map(entry => ({ ...entry, id: createId('r'), amount: -entry.amount, createdAt: now, reverses: entry.id }));
+};
+
+// A deleted post takes the reputation it earned or cost with it, and refunds an open bounty
+export const reversePostReputation = (ledger: ReputationEvent[], postId: string, now?: string) =>
+  reverseReputation(ledger, entry => entry.postId === postId, now);
+
+// Entries putting back what deleting a post reversed; the deletion's reversals share its timestamp
+export const restorePostReputation = (
+  ledger: ReputationEvent[],
+  postId: string,
+  deletedAt: string,
+  now = new Date().toISOString()
+): ReputationEvent[] =>
+  ledger
+    .filter(entry => entry.reverses && entry.postId === postId && entry.createdAt === deletedAt)
+    .map(entry => ({ ...entry, id: createId('r'), amount: -entry.amount, createdAt: now, reverses: undefined }));
+
+export const reputationTotal = (ledger: ReputationEvent[], userId: string) =>
+  ledger.filter(entry => entry.userId === userId).reduce((total, entry) => total + entry.amount, 0);
+
+// Reputation from before the ledger existed, so totals recomputed from it don't change
+export const startingBalance = (user: Pick<User, 'id' | 'reputation' | 'joinDate'>): ReputationEvent => ({
+  id: createId('r'),
+  userId: user.id,
+  reason: 'starting_balance',
+  amount: user.reputation,
+  postId: '',
+  questionId: '',
+  sourceId: user.id,
+  createdAt: new Date(user.joinDate).toISOString()
+});
+
+export const validateBounty = (amount: number, reputation: number) => {
+  if (!BOUNTY_AMOUNTS.includes(amount)) return `A bounty must be one of ${BOUNTY_AMOUNTS.join(', ')}`;
+  if (amount > reputation) return "You don't have enough reputation for that bounty";
+  return null;
+};
@@ -0,0 +1,78 @@
+import { Answer, Question, Revision, User } from '../types';
+import { LOCKED_QUESTION, isAdmin, isSuspended, suspendedMessage } from './moderation';
+
+export const EDIT_SUMMARY_MAX_LENGTH = 200;
+
+// What a revision records about a post
+export type RevisionContent = Pick<Revision, 'title' | 'tags' | 'body'>;
+
+// A revision before it is numbered and stored
+export type PendingRevision = Omit<Revision, 'id' | 'author'>;
+
+export const postContent = (post: Question | Answer): RevisionContent =>
+  'description' in post ? { title: post.title, tags: post.tags, body: post.description } : { body: post.content };
+
+// Why the user can't edit the post, if they can't; admins can edit anything, authors their own open posts
+export const editProblem = (
+  user: Pick<User, 'id' | 'role' | 'suspendedUntil'> | null | undefined,
+  post: Pick<Question | Answer, 'authorId'>,
+  question: Pick<Question, 'lockedAt'>
+) => {
+  if (!user) return 'Sign in to edit posts';
+  if (isAdmin(user)) return null;
+  if (post.authorId !== user.id) return 'Only the author or an admin can edit this post';
+  if (isSuspended(user)) return suspendedMessage(user);
+  if (question.lockedAt) return LOCKED_QUESTION;
+  return null;
+};
+
+export const validateEditSummary = (summary: string) =>
+  summary.trim().length > EDIT_SUMMARY_MAX_LENGTH
+    ? `Edit summaries are limited to ${EDIT_SUMMARY_MAX_LENGTH} characters`
+    : null;
+
+export const rollbackSummary = (revision: Pick<Revision, 'number'>) => `Rolled back to revision ${revision.number}`;
+
+export const NO_CHANGES = 'Make a change before saving your edit';
+
+// Whether an edit would leave the post as it is
+export const isUnchanged = (post: Question | Answer, edit: RevisionContent) => {
+  const before = postContent(post);
+  return before.title === edit.title && before.body === edit.body &&
+    (before.tags ?? []).join(' ') === (edit.tags ?? []).join(' ');
+};
+
+// The post as first written, for posts never edited since revisions were recorded
+export const initialRevision = (postType: Revision['postType'], post: Question | Answer): PendingRevision => ({
+  postId: post.id,
+  postType,
+  number: 1,
+  ...postContent(post),
+  authorId: post.authorId,
+  summary: '',
+  createdAt: post.createdAt
+});
+
+// The revisions an edit appends: the post as first written if this is its first recorded edit, then the edit.
+// history is the post's revisions so far, oldest first
+export const editRevisions = (
+  postType: Revision['postType'],
+  post: Question | Answer,
+  history: Pick<Revision, 'number'>[],
+  edit: RevisionContent & { authorId: string; summary: string },
+  now = new Date().toISOString()
+): PendingRevision[] => {
+  const pending = history.length === 0 ? [initialRevision(postType, post)] : [];
+  const number = (history[history.length - 1]?.number ?? 1) + 1;
+  return [...pending, {
+    postId: post.id,
+    postType,
+    number,
+    title: edit.title,
+    tags: edit.tags,
+    body: edit.body,
+    authorId: edit.authorId,
+    summary: edit.summary.trim(),
+    createdAt: now
+  }];
+};
@@ -0,0 +1,23 @@
+import { AuthSession } from './auth';
+
+const SESSION_KEY = 'stackit_session';
+
+export const loadSavedSession = (): AuthSession | null => {
+  const saved = localStorage.getItem(SESSION_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved);
+  } catch {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+};
+
+export const saveSession = (session: AuthSession) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearSavedSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
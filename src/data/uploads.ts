@@ -0,0 +1,28 @@
+// Rules shared by the editor's image uploads and the upload endpoint
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Larger images are scaled down to fit, keeping their proportions
+export const MAX_IMAGE_DIMENSION = 1600;
+export const THUMBNAIL_DIMENSION = 320;
+
+export const validateImage = (file: { type: string; size: number }) => {
+  if (!IMAGE_TYPES.includes(file.type)) return 'Images must be PNG, JPEG, GIF or WebP';
+  if (file.size > MAX_IMAGE_BYTES) return `Images can be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`;
+  if (file.size === 0) return 'The image is empty';
+  return null;
+};
+
+// The file name without its extension, which is usually all there is to describe a pasted image
+export const imageAlt = (fileName: string) =>
+  fileName.replace(/\.[^.]*$/, '').replace(/[[\]_-]+/g, ' ').trim() || 'image';
+
+// Stands in the text while an image uploads; the #upload- link finds it again however far it has got
+export const uploadPlaceholder = (id: string, fileName: string, progress: number) =>
+  `![Uploading ${imageAlt(fileName)}… ${Math.round(progress * 100)}%](#upload-${id})`;
+
+const placeholderPattern = (id: string) => new RegExp(`!\\[[^\\]]*\\]\\(#upload-${id}\\)`);
+
+// Swaps an upload's placeholder for the given text; the text is left as it is if the placeholder was deleted
+export const replacePlaceholder = (text: string, id: string, replacement: string) =>
+  text.replace(placeholderPattern(id), () => replacement);
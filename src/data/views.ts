@@ -0,0 +1,22 @@
+// A viewer opening the same question again within this window isn't counted again
+export const VIEW_WINDOW = 60 * 60 * 1000;
+
+export interface QuestionView {
+  questionId: string;
+  // user:<id> for signed-in viewers, visitor:<id> for anonymous ones
+  viewer: string;
+  // When this viewer's view was last counted
+  viewedAt: string;
+}
+
+export const viewerKey = ({ userId, visitorId }: { userId?: string; visitorId: string }) =>
+  userId ? `user:${userId}` : `visitor:${visitorId}`;
+
+// Crawlers, link previews and automated browsers announce themselves in their user agent
+const BOT_AGENT = /bot|crawl|spider|slurp|headless|lighthouse|preview|facebookexternalhit|embedly|python-requests|curl|wget/i;
+
+export const isBot = (userAgent: string) => BOT_AGENT.test(userAgent);
+
+// Whether a viewer last counted at viewedAt is counted again now
+export const viewExpired = (viewedAt: string, now = Date.now()) =>
+  new Date(viewedAt).getTime() <= now - VIEW_WINDOW;
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { AnswerOrder, loadAnswerOrder, saveAnswerOrder } from '../data/answerOrder';
+
+// How the signed-in user last chose to order answers, remembered in this browser
+export const useAnswerOrder = () => {
+  const { user } = useAuth();
+  const [order, setOrder] = useState<AnswerOrder>(() => loadAnswerOrder(user?.id));
+
+  useEffect(() => {
+    setOrder(loadAnswerOrder(user?.id));
+  }, [user?.id]);
+
+  const updateOrder = (changes: Partial<AnswerOrder>) => {
+    const next = { ...order, ...changes };
+    setOrder(next);
+    saveAnswerOrder(next, user?.id);
+  };
+
+  return {
+    order,
+    updateOrder
+  };
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DRAFT_SAVE_DELAY,
+  Draft,
+  DraftContent,
+  DraftTarget,
+  draftKey,
+  isEmptyDraft,
+  loadDrafts,
+  removeDraft,
+  saveDraft
+} from '../data/drafts';
+
+// Autosaves a form as a draft once typing pauses, and offers back the draft left from last time.
+// enabled is false while the form is closed; closing saves any change not yet saved.
+export const useDraft = (target: DraftTarget, content: DraftContent, enabled: boolean) => {
+  const { user } = useAuth();
+  const userId = enabled ? user?.id : undefined;
+  const key = draftKey(target);
+  // A saved draft waiting to be restored or discarded; autosave holds off meanwhile
+  const [pending, setPending] = useState<Draft | null>(null);
+  // Whether the saved draft was looked for since the form opened
+  const [checked, setChecked] = useState(false);
+  const latest = useRef({ target, content });
+  latest.current = { target, content };
+  // Set by changes not saved yet
+  const dirty = useRef(false);
+
+  useEffect(() => {
+    setPending(userId ? loadDrafts(userId).find(draft => draft.key === key) ?? null : null);
+    setChecked(!!userId);
+  }, [userId, key]);
+
+  const contentKey = JSON.stringify(content);
+  useEffect(() => {
+    if (!userId || !checked || pending) return;
+
+    dirty.current = true;
+    const timeout = setTimeout(() => {
+      dirty.current = false;
+      const { target: saved, content: current } = latest.current;
+      if (isEmptyDraft(current)) {
+        removeDraft(userId, draftKey(saved));
+      } else {
+        saveDraft(userId, saved, current);
+      }
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [userId, checked, pending, contentKey]);
+
+  // Closing the form or leaving the page keeps the last change
+  useEffect(() => {
+    if (!userId) return;
+    return () => {
+      if (!dirty.current) return;
+      dirty.current = false;
+      const { target: saved, content: current } = latest.current;
+      if (!isEmptyDraft(current)) saveDraft(userId, saved, current);
+    };
+  }, [userId]);
+
+  // Hands back the pending draft for the form to show
+  const restore = () => {
+    setPending(null);
+    return pending;
+  };
+
+  const discard = () => {
+    if (userId) removeDraft(userId, key);
+    setPending(null);
+  };
+
+  // Once the post is submitted
+  const clear = () => {
+    dirty.current = false;
+    if (userId) removeDraft(userId, key);
+  };
+
+  return {
+    pending,
+    restore,
+    discard,
+    clear
+  };
+};
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Draft, loadDrafts, removeDraft, subscribeDrafts } from '../data/drafts';
+
+// Every draft the signed-in user has saved in this browser, newest first
+export const useDrafts = () => {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setDrafts([]);
+      return;
+    }
+
+    const loadUserDrafts = () => setDrafts(loadDrafts(userId));
+    loadUserDrafts();
+    return subscribeDrafts(loadUserDrafts);
+  }, [userId]);
+
+  const discardDraft = (key: string) => {
+    if (user) removeDraft(user.id, key);
+  };
+
+  return {
+    drafts,
+    discardDraft
+  };
+};
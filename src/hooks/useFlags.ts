@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { Flag } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+
+// The signed-in user's flags by the post they flagged
+export type UserFlags = Record<string, Flag>;
+
+export const useFlags = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [userFlags, setUserFlags] = useState<UserFlags>({});
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setUserFlags({});
+      return;
+    }
+
+    let cancelled = false;
+    const loadFlags = async () => {
+      try {
+        const flags = await repository.flags.listByUser(userId);
+        if (cancelled) return;
+        setUserFlags(Object.fromEntries(flags.map(flag => [flag.targetId, flag])));
+      } catch (error) {
+        console.error('Error loading flags:', error);
+      }
+    };
+
+    loadFlags();
+    const unsubscribe = repository.subscribe(loadFlags);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId, repository]);
+
+  const flagPost = async (targetId: string, targetType: Flag['targetType'], reason: Flag['reason'], text: string) => {
+    if (!user) {
+      throw new Error('Sign in to flag posts');
+    }
+
+    const flag = await repository.flags.create({ targetId, targetType, reason, text, userId: user.id });
+    setUserFlags(prev => ({ ...prev, [targetId]: flag }));
+  };
+
+  return {
+    userFlags,
+    flagPost
+  };
+};
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { User } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { rankMentionCandidates, validateMentions } from '../data/mentions';
+
+// Who the editor's @ picker offers for a query, ranking the given thread participants first, and a
+// warning for handles that don't name anyone
+export const useMentionSuggestions = (participantIds: string[] = []) => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [users, setUsers] = useState<User[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadUsers = async () => {
+      try {
+        const loaded = await repository.users.list();
+        if (!cancelled) setUsers(loaded);
+      } catch (error) {
+        console.error('Error loading users:', error);
+      }
+    };
+
+    loadUsers();
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  const participants = participantIds.join(',');
+  const suggestMentions = useCallback(
+    (query: string) => rankMentionCandidates(query, users, participants.split(','), user?.id),
+    [users, participants, user?.id]
+  );
+
+  // Waits for the user list, so nothing is called unknown before it has loaded
+  const checkMentions = useCallback(
+    (text: string) => {
+      if (users.length === 0) return null;
+      const usernames = new Set(users.map(u => u.username.toLowerCase()));
+      return validateMentions(text, username => usernames.has(username.toLowerCase()));
+    },
+    [users]
+  );
+
+  return {
+    suggestMentions,
+    checkMentions
+  };
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { Notification, NotificationSettings } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+
+export const useNotificationSettings = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setSettings(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSettings = async () => {
+      try {
+        const loaded = await repository.notifications.getSettings(userId);
+        if (!cancelled) setSettings(loaded);
+      } catch (error) {
+        console.error('Error loading notification settings:', error);
+      }
+    };
+
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, repository]);
+
+  const save = async (changes: Partial<Omit<NotificationSettings, 'userId'>>) => {
+    if (!settings) return;
+    try {
+      setSettings(await repository.notifications.saveSettings({ ...settings, ...changes }));
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+    }
+  };
+
+  const toggleType = (type: Notification['type']) => {
+    if (!settings) return;
+    save({
+      mutedTypes: settings.mutedTypes.includes(type)
+        ? settings.mutedTypes.filter(t => t !== type)
+        : [...settings.mutedTypes, type]
+    });
+  };
+
+  const setQuestionMuted = (questionId: string, muted: boolean) => {
+    if (!settings) return;
+    save({
+      mutedQuestionIds: muted
+        ? [...settings.mutedQuestionIds, questionId]
+        : settings.mutedQuestionIds.filter(id => id !== questionId)
+    });
+  };
+
+  return {
+    settings,
+    toggleType,
+    setQuestionMuted
+  };
+};
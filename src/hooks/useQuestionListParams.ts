@@ -0,0 +1,78 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { isListPath } from '../utils/routes';
+
+// Relevance only applies, and is the default, while there is a search query
+export type SortOption = 'relevance' | 'newest' | 'votes' | 'answers';
+
+export interface QuestionListParams {
+  searchQuery: string;
+  selectedTags: string[];
+  sortBy: SortOption;
+  currentPage: number;
+}
+
+// Set when a question is opened from the list, so the list stays behind it and closing returns there
+export interface ListLocationState {
+  from?: { pathname: string; search: string };
+}
+
+const SORT_OPTIONS: SortOption[] = ['relevance', 'newest', 'votes', 'answers'];
+
+const defaultSort = (searchQuery: string): SortOption => (searchQuery ? 'relevance' : 'newest');
+
+export const parseListParams = (search: string): QuestionListParams => {
+  const params = new URLSearchParams(search);
+  const searchQuery = params.get('q') ?? '';
+  const sort = params.get('sort') as SortOption | null;
+  const page = Number(params.get('page'));
+  const validSort = sort && SORT_OPTIONS.includes(sort) && (sort !== 'relevance' || searchQuery);
+
+  return {
+    searchQuery,
+    selectedTags: (params.get('tags') ?? '').split(',').filter(Boolean),
+    sortBy: validSort ? sort : defaultSort(searchQuery),
+    currentPage: Number.isInteger(page) && page > 1 ? page : 1
+  };
+};
+
+// Defaults are left out so the plain list stays at a clean URL; a missing sort follows the search query
+export const formatListParams = ({
+  searchQuery,
+  selectedTags,
+  sortBy,
+  currentPage
+}: Omit<QuestionListParams, 'sortBy'> & { sortBy?: SortOption }) => {
+  const params = new URLSearchParams();
+  if (searchQuery) params.set('q', searchQuery);
+  if (selectedTags.length > 0) params.set('tags', selectedTags.join(','));
+  if (sortBy && sortBy !== defaultSort(searchQuery) && (sortBy !== 'relevance' || searchQuery)) {
+    params.set('sort', sortBy);
+  }
+  if (currentPage > 1) params.set('page', String(currentPage));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// The list's search, tags, sort and page, read from and written to the query string
+export const useQuestionListParams = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const from = (location.state as ListLocationState | null)?.from;
+  const listLocation = isListPath(location.pathname)
+    ? location
+    : from ?? { pathname: '/', search: '' };
+  const params = parseListParams(listLocation.search);
+
+  const updateListParams = (changes: Partial<QuestionListParams>, options: { replace?: boolean } = {}) => {
+    // Keep a sort the user picked, but let the default one follow the search query
+    const current = new URLSearchParams(listLocation.search).has('sort') ? params : { ...params, sortBy: undefined };
+    navigate(
+      { pathname: listLocation.pathname, search: formatListParams({ ...current, ...changes }) },
+      // Typing replaces the entry it started, but leaving another view for the list should not
+      { replace: options.replace && isListPath(location.pathname) }
+    );
+  };
+
+  return { ...params, listLocation, updateListParams };
+};
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { createId } from '../data/repository';
+import { isBot } from '../data/views';
+
+const VISITOR_KEY = 'stackit_visitor_id';
+
+// Anonymous views are told apart by an id this browser keeps
+const loadVisitorId = () => {
+  const saved = localStorage.getItem(VISITOR_KEY);
+  if (saved) return saved;
+
+  const id = createId('v');
+  localStorage.setItem(VISITOR_KEY, id);
+  return id;
+};
+
+// Records a view of the question once it's open; automated browsers aren't counted
+export const useQuestionView = (questionId: string, isOpen: boolean) => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isOpen || navigator.webdriver || isBot(navigator.userAgent)) return;
+
+    const recordView = async () => {
+      try {
+        await repository.questions.recordView({ questionId, userId, visitorId: loadVisitorId() });
+      } catch (error) {
+        console.error('Error recording view:', error);
+      }
+    };
+
+    recordView();
+  }, [repository, questionId, isOpen, userId]);
+};
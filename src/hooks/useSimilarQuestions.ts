@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { useRepository } from '../contexts/RepositoryContext';
+import { MIN_SIMILAR_TITLE_LENGTH, QuestionDraft, SimilarQuestion } from '../utils/similarity';
+
+// Milliseconds of quiet typing before looking for similar questions
+const SIMILAR_DELAY = 400;
+
+// Existing questions like the one being written, looked up again as it changes
+export const useSimilarQuestions = (draft: QuestionDraft, enabled: boolean) => {
+  const repository = useRepository();
+  const [similar, setSimilar] = useState<SimilarQuestion[]>([]);
+  const { title, description, tags } = draft;
+  const tagList = tags.join(',');
+
+  useEffect(() => {
+    if (!enabled || title.trim().length < MIN_SIMILAR_TITLE_LENGTH) {
+      setSimilar([]);
+      return;
+    }
+
+    let cancelled = false;
+    const findSimilar = async () => {
+      try {
+        const results = await repository.questions.similar({
+          title,
+          description,
+          tags: tagList ? tagList.split(',') : []
+        });
+        if (!cancelled) setSimilar(results);
+      } catch (error) {
+        console.error('Error finding similar questions:', error);
+      }
+    };
+
+    const timer = setTimeout(findSimilar, SIMILAR_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [repository, enabled, title, description, tagList]);
+
+  return similar;
+};
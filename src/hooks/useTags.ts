@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { Tag } from '../types';
+import { useRepository } from '../contexts/RepositoryContext';
+
+// The tag registry, most used first, kept current as questions are posted
+export const useTags = () => {
+  const repository = useRepository();
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadTags = async () => {
+      try {
+        const loaded = await repository.tags.list();
+        if (!cancelled) setTags(loaded);
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    loadTags();
+    const unsubscribe = repository.subscribe(loadTags);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository]);
+
+  return tags;
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Vote } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+
+export type UserVotes = Record<string, Vote['type']>;
+
+export const useVotes = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const [userVotes, setUserVotes] = useState<UserVotes>({});
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setUserVotes({});
+      return;
+    }
+
+    let cancelled = false;
+    const loadVotes = async () => {
+      try {
+        const votes = await repository.votes.listByUser(userId);
+        if (cancelled) return;
+        setUserVotes(Object.fromEntries(votes.map(vote => [vote.targetId, vote.type])));
+      } catch (error) {
+        console.error('Error loading votes:', error);
+      }
+    };
+
+    loadVotes();
+    const unsubscribe = repository.subscribe(loadVotes);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId, repository]);
+
+  // Voting the same way twice retracts the vote. Resolves to the target's new total.
+  const castVote = async (targetId: string, targetType: Vote['targetType'], type: Vote['type']) => {
+    if (!user) {
+      throw new Error('Sign in to vote');
+    }
+
+    const nextType = userVotes[targetId] === type ? null : type;
+    const result = await repository.votes.cast({ userId: user.id, targetId, targetType, type: nextType });
+    setUserVotes(prev => {
+      const next = { ...prev };
+      if (result.vote) {
+        next[targetId] = result.vote.type;
+      } else {
+        delete next[targetId];
+      }
+      return next;
+    });
+    return result.votes;
+  };
+
+  return {
+    userVotes,
+    castVote
+  };
+};
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { EyeOff, Lock, RotateCcw, Trash2 } from 'lucide-react';
+import { Flag, Tag, User } from '../types';
+import { DeletedPosts, FlaggedPost } from '../data/repository';
+import { ASSIGNABLE_ROLES, SUSPENSION_DAYS, isAdmin, isSuspended, suspensionEnd } from '../data/moderation';
+import { FLAG_REASONS, FlagReviewAction } from '../data/flags';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useTags } from '../hooks/useTags';
+import { Link } from '../components/Link';
+import { TagBadge } from '../components/TagBadge';
+import { answerPath, questionPath, userPath } from '../utils/routes';
+import { NotFoundPage } from './NotFoundPage';
+
+type AdminTab = 'users' | 'flags' | 'tags' | 'deleted';
+
+const TABS: { value: AdminTab; label: string }[] = [
+  { value: 'users', label: 'Users' },
+  { value: 'flags', label: 'Review queue' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'deleted', label: 'Deleted posts' }
+];
+
+// What each review button is called and does; a hidden post is already deleted
+const reviewButtons = (post: FlaggedPost): { action: FlagReviewAction; label: string; title: string }[] =>
+  post.hiddenAt
+    ? [
+      { action: 'helpful', label: 'Keep deleted', title: 'The flags were right; the post stays deleted' },
+      { action: 'decline', label: 'Restore', title: 'The flags were wrong; the post comes back' }
+    ]
+    : [
+      { action: 'helpful', label: 'Helpful', title: 'The flags were right, and the post has been dealt with' },
+      { action: 'delete', label: 'Delete', title: 'The flags were right; delete the post' },
+      { action: 'decline', label: 'Decline', title: 'The flags were wrong; leave the post as it is' }
+    ];
+
+// e.g. "Spam ×2, Rude or abusive"
+const summariseReasons = (flags: Flag[]) =>
+  FLAG_REASONS
+    .map(option => ({ ...option, count: flags.filter(flag => flag.reason === option.value).length }))
+    .filter(option => option.count > 0)
+    .map(option => (option.count > 1 ? `${option.label} ×${option.count}` : option.label))
+    .join(', ');
+
+const splitSynonyms = (text: string) => text.split(',').map(synonym => synonym.trim()).filter(Boolean);
+
+interface TagEditorProps {
+  // Missing for the form that registers a new tag
+  tag?: Tag;
+  onSave: (name: string, description: string, synonyms: string[]) => Promise<boolean>;
+  onRemove?: (name: string) => void;
+}
+
+// One row of the tag table, editing its description and synonyms in place
+const TagEditor: React.FC<TagEditorProps> = ({ tag, onSave, onRemove }) => {
+  const [name, setName] = useState(tag?.name ?? '');
+  const [description, setDescription] = useState(tag?.description ?? '');
+  const [synonyms, setSynonyms] = useState(tag?.synonyms.join(', ') ?? '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await onSave(name, description, splitSynonyms(synonyms));
+    if (saved && !tag) {
+      setName('');
+      setDescription('');
+      setSynonyms('');
+    }
+  };
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col lg:flex-row lg:items-center gap-2 py-3">
+      <div className="lg:w-48 flex-shrink-0">
+        {tag ? (
+          <>
+            <TagBadge name={tag.name} />
+            <span className="ml-2 text-xs text-gray-500">{tag.count}</span>
+          </>
+        ) : (
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New tag"
+            className={`${inputClass} w-full`}
+          />
+        )}
+      </div>
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        className={`${inputClass} flex-1`}
+      />
+      <input
+        value={synonyms}
+        onChange={(e) => setSynonyms(e.target.value)}
+        placeholder="Synonyms, comma separated"
+        className={`${inputClass} lg:w-56`}
+      />
+      <div className="flex items-center space-x-2">
+        <button
+          type="submit"
+          disabled={!tag && !name.trim()}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {tag ? 'Save' : 'Add'}
+        </button>
+        {tag && onRemove && (
+          <button
+            type="button"
+            onClick={() => onRemove(tag.name)}
+            disabled={tag.count > 0}
+            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+            title={tag.count > 0 ? 'Only unused tags can be removed' : 'Remove this tag'}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export const AdminPage: React.FC = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const tags = useTags();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = TABS.find(option => option.value === searchParams.get('tab'))?.value ?? 'users';
+  const [users, setUsers] = useState<User[]>([]);
+  const [deleted, setDeleted] = useState<DeletedPosts>({ questions: [], answers: [] });
+  const [flagged, setFlagged] = useState<FlaggedPost[]>([]);
+  const [suspensionDays, setSuspensionDays] = useState<Record<string, number>>({});
+  const [actionError, setActionError] = useState('');
+  const adminId = isAdmin(user) ? user?.id : undefined;
+
+  useEffect(() => {
+    if (!adminId) return;
+
+    let cancelled = false;
+    const loadConsole = async () => {
+      try {
+        const [loadedUsers, loadedDeleted, loadedFlagged] = await Promise.all([
+          repository.users.list(),
+          repository.moderation.listDeleted(adminId),
+          repository.moderation.listFlagged(adminId)
+        ]);
+        if (cancelled) return;
+        setUsers(loadedUsers);
+        setDeleted(loadedDeleted);
+        setFlagged(loadedFlagged);
+      } catch (error) {
+        console.error('Error loading admin console:', error);
+      }
+    };
+
+    loadConsole();
+    const unsubscribe = repository.subscribe(loadConsole);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, adminId]);
+
+  if (!user || !adminId) {
+    return <NotFoundPage message="Only admins can see this page." />;
+  }
+
+  // Runs one moderation action, showing the data layer's reason if it refuses
+  const moderate = async (action: () => Promise<unknown>, description: string) => {
+    setActionError('');
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`Error trying to ${description}:`, error);
+      setActionError(error instanceof Error ? error.message : `Could not ${description}`);
+      return false;
+    }
+  };
+
+  const handleSuspend = (target: User) => {
+    const days = suspensionDays[target.id] ?? SUSPENSION_DAYS[0];
+    return moderate(
+      () => repository.moderation.suspendUser({ userId: target.id, until: suspensionEnd(days), adminId }),
+      'suspend this user'
+    );
+  };
+
+  const handleRemoveTag = (name: string) => {
+    if (!window.confirm(`Remove the tag ${name}?`)) return;
+    moderate(() => repository.moderation.removeTag({ name, adminId }), 'remove this tag');
+  };
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900">Admin</h1>
+      <p className="text-gray-600 mt-1 mb-6">
+        Questions and answers are edited, locked and deleted from the question itself.
+      </p>
+
+      <div className="flex space-x-6 border-b border-gray-200 mb-6">
+        {TABS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setSearchParams({ tab: option.value }, { replace: true })}
+            className={`pb-2 -mb-px font-semibold border-b-2 transition-colors ${
+              tab === option.value ? 'border-blue-600 text-gray-900' : 'border-transparent text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            {option.label}
+            {option.value === 'flags' && flagged.length > 0 && (
+              <span className="ml-2 px-1.5 py-0.5 text-xs rounded-full bg-red-600 text-white">{flagged.length}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {actionError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-600 text-sm">{actionError}</p>
+        </div>
+      )}
+
+      {tab === 'users' && (
+        <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+          {users.map(target => (
+            <div key={target.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+              <div className="flex-1 min-w-0">
+                <Link href={userPath(target.username)} className="font-medium text-blue-600 hover:text-blue-800">
+                  {target.username}
+                </Link>
+                <span className="ml-2 text-xs text-gray-500">{target.reputation} reputation</span>
+                {isSuspended(target) && (
+                  <div className="text-xs text-red-600 flex items-center space-x-1 mt-1">
+                    <Lock className="w-3 h-3" />
+                    <span>Suspended until {new Date(target.suspendedUntil!).toLocaleString()}</span>
+                  </div>
+                )}
+              </div>
+
+              <select
+                value={target.role}
+                disabled={target.id === user.id}
+                onChange={(e) => moderate(
+                  () => repository.moderation.setRole({
+                    userId: target.id,
+                    role: e.target.value as User['role'],
+                    adminId
+                  }),
+                  'change this role'
+                )}
+                className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700 disabled:opacity-50"
+              >
+                {ASSIGNABLE_ROLES.map(role => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+
+              {isSuspended(target) ? (
+                <button
+                  onClick={() => moderate(
+                    () => repository.moderation.suspendUser({ userId: target.id, until: null, adminId }),
+                    'lift this suspension'
+                  )}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                >
+                  Lift suspension
+                </button>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={suspensionDays[target.id] ?? SUSPENSION_DAYS[0]}
+                    onChange={(e) => setSuspensionDays(prev => ({ ...prev, [target.id]: Number(e.target.value) }))}
+                    disabled={target.id === user.id || isAdmin(target)}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm text-gray-700 disabled:opacity-50"
+                  >
+                    {SUSPENSION_DAYS.map(days => (
+                      <option key={days} value={days}>{days} day{days !== 1 ? 's' : ''}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleSuspend(target)}
+                    disabled={target.id === user.id || isAdmin(target)}
+                    className="px-3 py-1 text-sm border border-red-300 rounded text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Suspend
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tab === 'flags' && (
+        flagged.length === 0 ? (
+          <p className="text-gray-600">Nothing is waiting for review.</p>
+        ) : (
+          <div className="space-y-4">
+            {flagged.map(post => (
+              <div key={post.targetId} className="bg-white rounded-lg border border-gray-200 p-4">
+                <div className="flex flex-wrap items-center gap-x-2 text-sm text-gray-500 mb-2">
+                  <span className="capitalize">{post.targetType}</span>
+                  <span>by</span>
+                  <Link href={userPath(post.author.username)} className="text-blue-600 hover:text-blue-800">
+                    {post.author.username}
+                  </Link>
+                  <span>on</span>
+                  <Link
+                    href={post.targetType === 'answer' ? answerPath(post.questionId, post.targetId) : questionPath(post.questionId)}
+                    className="text-blue-600 hover:text-blue-800 truncate max-w-xs"
+                  >
+                    {post.questionTitle}
+                  </Link>
+                  {post.hiddenAt && (
+                    <span className="inline-flex items-center space-x-1 text-red-600">
+                      <EyeOff className="w-4 h-4" />
+                      <span>Hidden by spam flags</span>
+                    </span>
+                  )}
+                </div>
+
+                <p className="text-gray-900 whitespace-pre-line max-h-24 overflow-hidden mb-3">{post.content}</p>
+
+                <div className="bg-red-50 rounded p-3 text-sm mb-3">
+                  <p className="font-medium text-red-800">{summariseReasons(post.flags)}</p>
+                  {post.flags.filter(flag => flag.text).map(flag => (
+                    <p key={flag.id} className="text-gray-700 mt-1">
+                      “{flag.text}”
+                      <span className="text-xs text-gray-500 ml-2">{new Date(flag.createdAt).toLocaleString()}</span>
+                    </p>
+                  ))}
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  {reviewButtons(post).map(button => (
+                    <button
+                      key={button.action}
+                      onClick={() => moderate(
+                        () => repository.moderation.reviewFlags({
+                          targetId: post.targetId,
+                          targetType: post.targetType,
+                          action: button.action,
+                          adminId
+                        }),
+                        'review these flags'
+                      )}
+                      title={button.title}
+                      className={`px-3 py-1 text-sm border rounded ${
+                        button.action === 'delete'
+                          ? 'border-red-300 text-red-600 hover:bg-red-50'
+                          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {button.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {tab === 'tags' && (
+        <div className="bg-white rounded-lg border border-gray-200 px-4 divide-y divide-gray-100">
+          <TagEditor
+            onSave={(name, description, synonyms) => moderate(
+              () => repository.moderation.saveTag({ name, description, synonyms, adminId }),
+              'add this tag'
+            )}
+          />
+          {tags.map(tag => (
+            <TagEditor
+              // Remounts once saved, showing the names as the registry normalised them
+              key={`${tag.id}:${tag.description ?? ''}:${tag.synonyms.join(',')}`}
+              tag={tag}
+              onSave={(_name, description, synonyms) => moderate(
+                () => repository.moderation.saveTag({ name: tag.name, description, synonyms, adminId }),
+                'save this tag'
+              )}
+              onRemove={handleRemoveTag}
+            />
+          ))}
+        </div>
+      )}
+
+      {tab === 'deleted' && (
+        <div className="space-y-8">
+          {(['question', 'answer'] as const).map(postType => {
+            const posts = postType === 'question'
+              ? deleted.questions.map(question => ({ ...question, questionId: question.id, questionTitle: question.title }))
+              : deleted.answers;
+            return (
+              <section key={postType}>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3 capitalize">{postType}s</h2>
+                {posts.length === 0 ? (
+                  <p className="text-gray-600">No deleted {postType}s.</p>
+                ) : (
+                  <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                    {posts.map(post => (
+                      <div key={post.id} className="flex items-center gap-4 p-4">
+                        <div className="flex-1 min-w-0">
+                          <p className="truncate text-gray-900">
+                            {postType === 'answer' && 'Answer to '}{post.questionTitle}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            by {post.author.username} · deleted {new Date(post.deletedAt!).toLocaleString()}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => moderate(
+                            () => repository.moderation.restorePost({ postType, postId: post.id, adminId }),
+                            `restore this ${postType}`
+                          )}
+                          className="inline-flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>Restore</span>
+                        </button>
+                        {postType === 'answer' && (
+                          <Link href={questionPath(post.questionId)} className="text-sm text-blue-600 hover:text-blue-800">
+                            View question
+                          </Link>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Link } from '../components/Link';
+
+interface NotFoundPageProps {
+  message?: string;
+}
+
+export const NotFoundPage: React.FC<NotFoundPageProps> = ({ message = "We couldn't find that page." }) => (
+  <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+    <h1 className="text-3xl font-bold text-gray-900 mb-2">Not found</h1>
+    <p className="text-gray-600 mb-6">{message}</p>
+    <Link
+      href="/"
+      className="inline-block bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+    >
+      Back to questions
+    </Link>
+  </main>
+);
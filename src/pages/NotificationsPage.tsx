@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BellOff, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Notification } from '../types';
+import { NOTIFICATION_TYPES, NotificationGroup, groupNotifications, groupSummary } from '../data/notifications';
+import { useAuth } from '../contexts/AuthContext';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useNotifications } from '../contexts/NotificationsContext';
+import { useNotificationSettings } from '../hooks/useNotificationSettings';
+import { Link } from '../components/Link';
+import { answerPath, questionPath, userPath } from '../utils/routes';
+import { NotFoundPage } from './NotFoundPage';
+
+const GROUPS_PER_PAGE = 20;
+
+const isType = (value: string | null): value is Notification['type'] =>
+  NOTIFICATION_TYPES.some(option => option.value === value);
+
+const formatTimeAgo = (dateString: string) => {
+  const diffInMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60));
+
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+  return `${Math.floor(diffInMinutes / 1440)}d ago`;
+};
+
+export const NotificationsPage: React.FC = () => {
+  const { user } = useAuth();
+  const repository = useRepository();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const { settings, toggleType, setQuestionMuted } = useNotificationSettings();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Titles of muted questions, which may no longer have notifications to take them from
+  const [mutedTitles, setMutedTitles] = useState<Record<string, string>>({});
+
+  const typeParam = searchParams.get('type');
+  const type = isType(typeParam) ? typeParam : null;
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const groups = useMemo(
+    () => groupNotifications(type ? notifications.filter(n => n.type === type) : notifications),
+    [notifications, type]
+  );
+  const totalPages = Math.max(1, Math.ceil(groups.length / GROUPS_PER_PAGE));
+  const pageGroups = groups.slice((page - 1) * GROUPS_PER_PAGE, page * GROUPS_PER_PAGE);
+
+  const mutedQuestionIds = settings?.mutedQuestionIds;
+  useEffect(() => {
+    if (!mutedQuestionIds?.length) return;
+
+    let cancelled = false;
+    const loadTitles = async () => {
+      try {
+        const questions = await Promise.all(mutedQuestionIds.map(id => repository.questions.get(id)));
+        if (cancelled) return;
+        setMutedTitles(Object.fromEntries(questions.flatMap(q => (q ? [[q.id, q.title]] : []))));
+      } catch (error) {
+        console.error('Error loading muted questions:', error);
+      }
+    };
+
+    loadTitles();
+    return () => {
+      cancelled = true;
+    };
+  }, [mutedQuestionIds, repository]);
+
+  if (!user) {
+    return <NotFoundPage message="Sign in to see your notifications." />;
+  }
+
+  const showPage = (params: { type?: Notification['type'] | null; page?: number }) => {
+    const next = new URLSearchParams();
+    const nextType = params.type === undefined ? type : params.type;
+    if (nextType) next.set('type', nextType);
+    if (params.page && params.page > 1) next.set('page', String(params.page));
+    setSearchParams(next, { replace: true });
+  };
+
+  // A lone answer or accept goes straight to the answer; anything else to its question
+  const groupPath = (group: NotificationGroup) => {
+    const [latest] = group.notifications;
+    if (!group.questionId) return userPath(user.username);
+    if (group.notifications.length === 1 && (group.type === 'answer' || group.type === 'accept')) {
+      return answerPath(group.questionId, latest.relatedId);
+    }
+    return questionPath(group.questionId);
+  };
+
+  const filters: { value: Notification['type'] | null; label: string }[] = [
+    { value: null, label: 'All' },
+    ...NOTIFICATION_TYPES.map(option => ({ value: option.value, label: option.label }))
+  ];
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+          <p className="text-gray-600 mt-1">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </p>
+        </div>
+        {unreadCount > 0 && (
+          <button
+            onClick={markAllAsRead}
+            className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            Mark all read
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8">
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {filters.map(option => (
+              <button
+                key={option.label}
+                onClick={() => showPage({ type: option.value, page: 1 })}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  type === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+            {pageGroups.length === 0 ? (
+              <p className="p-6 text-center text-gray-500">No notifications yet</p>
+            ) : (
+              pageGroups.map(group => {
+                const muted = !!group.questionId && !!settings?.mutedQuestionIds.includes(group.questionId);
+                return (
+                  <div
+                    key={group.key}
+                    className={`flex items-start gap-3 p-4 ${group.read ? '' : 'bg-blue-50'}`}
+                  >
+                    <Link
+                      href={groupPath(group)}
+                      onClick={() => markAsRead(group.notifications.map(n => n.id))}
+                      className="flex-1 min-w-0"
+                    >
+                      <p className="text-sm text-gray-900">{groupSummary(group)}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formatTimeAgo(group.notifications[0].createdAt)}
+                      </p>
+                    </Link>
+                    {group.questionId && (
+                      <button
+                        onClick={() => setQuestionMuted(group.questionId!, !muted)}
+                        className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-900 transition-colors"
+                        title={muted ? 'Get notifications about this question again' : 'Stop notifications about this question'}
+                      >
+                        <BellOff className="w-3 h-3" />
+                        <span>{muted ? 'Unmute' : 'Mute question'}</span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center space-x-4 mt-6">
+              <button
+                onClick={() => showPage({ page: page - 1 })}
+                disabled={page <= 1}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                <span>Previous</span>
+              </button>
+              <span className="text-sm text-gray-600">Page {Math.min(page, totalPages)} of {totalPages}</span>
+              <button
+                onClick={() => showPage({ page: page + 1 })}
+                disabled={page >= totalPages}
+                className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <span>Next</span>
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {settings && (
+          <aside className="lg:w-80 space-y-6">
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h2 className="font-semibold text-gray-900 mb-1">Notify me about</h2>
+              <p className="text-xs text-gray-500 mb-3">Muting stops new notifications; earlier ones stay here.</p>
+              <div className="space-y-3">
+                {NOTIFICATION_TYPES.map(option => (
+                  <label key={option.value} className="flex items-start space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!settings.mutedTypes.includes(option.value)}
+                      onChange={() => toggleType(option.value)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <h2 className="font-semibold text-gray-900 mb-3">Muted questions</h2>
+              {settings.mutedQuestionIds.length === 0 ? (
+                <p className="text-sm text-gray-500">None</p>
+              ) : (
+                <ul className="space-y-2">
+                  {settings.mutedQuestionIds.map(id => (
+                    <li key={id} className="flex items-start justify-between gap-2">
+                      <Link href={questionPath(id)} className="text-sm text-blue-600 hover:text-blue-800 min-w-0 break-words">
+                        {mutedTitles[id] ?? 'A deleted question'}
+                      </Link>
+                      <button
+                        onClick={() => setQuestionMuted(id, false)}
+                        className="text-xs text-gray-500 hover:text-gray-900 transition-colors"
+                      >
+                        Unmute
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </aside>
+        )}
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,393 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Plus, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+import { QuestionCard } from '../components/QuestionCard';
+import { QuestionDetailModal } from '../components/QuestionDetailModal';
+import { Link } from '../components/Link';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useVotes } from '../hooks/useVotes';
+import { useTags } from '../hooks/useTags';
+import { ListLocationState, SortOption, useQuestionListParams } from '../hooks/useQuestionListParams';
+import { questionPath, tagPath } from '../utils/routes';
+import { Question } from '../types';
+import { SearchResult } from '../utils/searchIndex';
+import { NotFoundPage } from './NotFoundPage';
+
+const ITEMS_PER_PAGE = 6;
+// Milliseconds of quiet typing before a search runs
+const SEARCH_DELAY = 200;
+
+interface QuestionsPageProps {
+  onAskQuestion: () => void;
+}
+
+// Serves /, /tags/:tag and /questions/:questionId, where the question opens over the list it came from
+export const QuestionsPage: React.FC<QuestionsPageProps> = ({ onAskQuestion }) => {
+  const { tag, questionId } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const repository = useRepository();
+  const { userVotes } = useVotes();
+  const tags = useTags();
+  const { searchQuery, selectedTags, sortBy, currentPage, listLocation, updateListParams } = useQuestionListParams();
+  const [showFilters, setShowFilters] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  // Ranked matches for the search query, or null when there is none
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  // undefined while loading, null when the linked question doesn't exist
+  const [routedQuestion, setRoutedQuestion] = useState<Question | null | undefined>(undefined);
+
+  // Load questions and reload whenever the repository changes
+  useEffect(() => {
+    let cancelled = false;
+    const loadQuestions = async () => {
+      try {
+        const loaded = await repository.questions.list();
+        if (!cancelled) setQuestions(loaded);
+      } catch (error) {
+        console.error('Error loading questions:', error);
+      }
+    };
+
+    loadQuestions();
+    const unsubscribe = repository.subscribe(loadQuestions);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository]);
+
+  // Search, rerunning whenever the repository changes
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const runSearch = async () => {
+      try {
+        const results = await repository.questions.search(searchQuery);
+        if (!cancelled) setSearchResults(results);
+      } catch (error) {
+        console.error('Error searching questions:', error);
+      }
+    };
+
+    const timer = setTimeout(runSearch, SEARCH_DELAY);
+    const unsubscribe = repository.subscribe(runSearch);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [repository, searchQuery]);
+
+  // Load the question named in the URL, keeping it current as it's voted on, accepted or given a bounty
+  useEffect(() => {
+    setRoutedQuestion(undefined);
+    if (!questionId) return;
+
+    let cancelled = false;
+    const loadQuestion = async () => {
+      try {
+        const loaded = await repository.questions.get(questionId);
+        if (!cancelled) setRoutedQuestion(loaded);
+      } catch (error) {
+        console.error('Error loading question:', error);
+      }
+    };
+
+    loadQuestion();
+    const unsubscribe = repository.subscribe(loadQuestion);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, questionId]);
+
+  // Tags in use, by name, for the sidebar filter
+  const usedTags = useMemo(
+    () => tags.filter(t => t.count > 0).sort((a, b) => a.name.localeCompare(b.name)),
+    [tags]
+  );
+  const routeTag = tag ? tags.find(t => t.name === tag || t.synonyms.includes(tag)) : undefined;
+
+  // A synonym in the URL, like /tags/js, moves to its canonical tag
+  useEffect(() => {
+    if (routeTag && routeTag.name !== tag) {
+      navigate({ pathname: tagPath(routeTag.name), search: location.search }, { replace: true });
+    }
+  }, [routeTag, tag, navigate, location.search]);
+
+  // Filter and sort questions
+  const filteredQuestions = useMemo(() => {
+    const source = searchResults ? searchResults.map(result => result.question) : questions;
+    const filtered = source.filter(question => {
+      const matchesTags = selectedTags.length === 0 || 
+        selectedTags.some(tag => question.tags.includes(tag));
+
+      const matchesRouteTag = !tag || question.tags.includes(tag);
+      
+      return matchesTags && matchesRouteTag;
+    });
+
+    // Sort questions
+    filtered.sort((a, b) => {
+      switch (sortBy) {
+        case 'newest':
+          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        case 'votes':
+          return b.votes - a.votes;
+        case 'answers':
+          return b.answerCount - a.answerCount;
+        // Relevance keeps the search's own ranking
+        default:
+          return 0;
+      }
+    });
+
+    return filtered;
+  }, [searchResults, selectedTags, sortBy, tag, questions]);
+
+  const matchedTerms = useMemo(
+    () => new Map(searchResults?.map(result => [result.question.id, result.matchedTerms])),
+    [searchResults]
+  );
+
+  // Pagination
+  const totalPages = Math.ceil(filteredQuestions.length / ITEMS_PER_PAGE);
+  const paginatedQuestions = filteredQuestions.slice(
+    (currentPage - 1) * ITEMS_PER_PAGE,
+    currentPage * ITEMS_PER_PAGE
+  );
+
+  const handleTagToggle = (toggled: string) => {
+    updateListParams({
+      selectedTags: selectedTags.includes(toggled)
+        ? selectedTags.filter(t => t !== toggled)
+        : [...selectedTags, toggled],
+      currentPage: 1
+    });
+  };
+
+  const clearFilters = () => {
+    updateListParams({ selectedTags: [], searchQuery: '', sortBy: 'newest', currentPage: 1 });
+  };
+
+  const openQuestion = (question: Question) => {
+    const state: ListLocationState = {
+      from: { pathname: listLocation.pathname, search: listLocation.search }
+    };
+    navigate(questionPath(question.id), { state });
+  };
+
+  // Back to the list it was opened from, or to the front page for a shared link
+  const closeQuestion = () => {
+    if ((location.state as ListLocationState | null)?.from) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
+  if (questionId && routedQuestion === null) {
+    return <NotFoundPage message="That question doesn't exist or has been removed." />;
+  }
+
+  return (
+    <>
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header Actions */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              {tag ? `Questions tagged [${tag}]` : 'Questions'}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {filteredQuestions.length} question{filteredQuestions.length !== 1 ? 's' : ''} found
+            </p>
+            {routeTag?.description && (
+              <p className="text-gray-600 mt-2 max-w-2xl">{routeTag.description}</p>
+            )}
+            {tag && (
+              <div className="flex space-x-4 mt-1">
+                <Link href="/" className="text-sm text-blue-600 hover:text-blue-700">
+                  Show all questions
+                </Link>
+                <Link href="/tags" className="text-sm text-blue-600 hover:text-blue-700">
+                  Browse tags
+                </Link>
+              </div>
+            )}
+          </div>
+          
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="lg:hidden flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Filter className="w-4 h-4" />
+              <span>Filters</span>
+            </button>
+            
+            <button
+              onClick={onAskQuestion}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Ask Question</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-8">
+          {/* Sidebar Filters */}
+          <aside className={`w-80 flex-shrink-0 ${showFilters ? 'block' : 'hidden'} lg:block`}>
+            <div className="bg-white rounded-lg border border-gray-200 p-6 sticky top-24">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900">Filters</h3>
+                {(selectedTags.length > 0 || searchQuery) && (
+                  <button
+                    onClick={clearFilters}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    Clear all
+                  </button>
+                )}
+              </div>
+
+              {/* Sort */}
+              <div className="mb-6">
+                <h4 className="font-medium text-gray-700 mb-3">Sort by</h4>
+                <div className="space-y-2">
+                  {[
+                    ...(searchQuery ? [{ value: 'relevance', label: 'Relevance' }] : []),
+                    { value: 'newest', label: 'Newest' },
+                    { value: 'votes', label: 'Most votes' },
+                    { value: 'answers', label: 'Most answers' }
+                  ].map(option => (
+                    <label key={option.value} className="flex items-center">
+                      <input
+                        type="radio"
+                        name="sort"
+                        value={option.value}
+                        checked={sortBy === option.value}
+                        onChange={(e) => updateListParams({ sortBy: e.target.value as SortOption, currentPage: 1 })}
+                        className="mr-2 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Tags */}
+              <div>
+                <h4 className="font-medium text-gray-700 mb-3">Tags</h4>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {usedTags.map(({ name, description, count }) => (
+                    <label key={name} className="flex items-center" title={description}>
+                      <input
+                        type="checkbox"
+                        checked={selectedTags.includes(name)}
+                        onChange={() => handleTagToggle(name)}
+                        className="mr-2 text-blue-600 focus:ring-blue-500 rounded"
+                      />
+                      <span className="text-sm text-gray-700">{name}</span>
+                      <span className="ml-auto text-xs text-gray-500">{count}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </aside>
+
+          {/* Main Content */}
+          <div className="flex-1">
+            {/* Question List */}
+            <div className="space-y-4">
+              {paginatedQuestions.length === 0 ? (
+                <div className="text-center py-12">
+                  <div className="text-gray-400 text-lg mb-2">No questions found</div>
+                  <p className="text-gray-600">
+                    {searchQuery || selectedTags.length > 0
+                      ? 'Try adjusting your filters or search terms'
+                      : 'Be the first to ask a question!'
+                    }
+                  </p>
+                  {(!searchQuery && selectedTags.length === 0) && (
+                    <button
+                      onClick={onAskQuestion}
+                      className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Ask the first question
+                    </button>
+                  )}
+                </div>
+              ) : (
+                paginatedQuestions.map(question => (
+                  <QuestionCard
+                    key={question.id}
+                    question={question}
+                    userVote={userVotes[question.id]}
+                    matchedTerms={matchedTerms.get(question.id)}
+                    onClick={() => openQuestion(question)}
+                  />
+                ))
+              )}
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center space-x-2 mt-8">
+                <button
+                  onClick={() => updateListParams({ currentPage: Math.max(1, currentPage - 1) })}
+                  disabled={currentPage === 1}
+                  className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  <span>Previous</span>
+                </button>
+
+                <div className="flex space-x-1">
+                  {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
+                    <button
+                      key={page}
+                      onClick={() => updateListParams({ currentPage: page })}
+                      className={`px-3 py-2 rounded-lg transition-colors ${
+                        currentPage === page
+                          ? 'bg-blue-600 text-white'
+                          : 'border border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {page}
+                    </button>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => updateListParams({ currentPage: Math.min(totalPages, currentPage + 1) })}
+                  disabled={currentPage === totalPages}
+                  className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <span>Next</span>
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {questionId && routedQuestion && (
+        <QuestionDetailModal
+          key={routedQuestion.id}
+          question={routedQuestion}
+          isOpen={true}
+          onClose={closeQuestion}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { TagBadge } from '../components/TagBadge';
+import { useTags } from '../hooks/useTags';
+import { normaliseTagName } from '../utils/tags';
+
+type TagSort = 'popular' | 'name';
+
+export const TagsPage: React.FC = () => {
+  const tags = useTags();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = searchParams.get('filter') ?? '';
+  const sortBy: TagSort = searchParams.get('sort') === 'name' ? 'name' : 'popular';
+
+  const updateParams = (changes: { filter?: string; sort?: TagSort }) => {
+    const next = { filter, sort: sortBy, ...changes };
+    const params = new URLSearchParams();
+    if (next.filter) params.set('filter', next.filter);
+    if (next.sort !== 'popular') params.set('sort', next.sort);
+    setSearchParams(params, { replace: true });
+  };
+
+  const visibleTags = useMemo(() => {
+    const typed = normaliseTagName(filter);
+    const matching = tags.filter(tag =>
+      !typed || tag.name.includes(typed) || tag.synonyms.some(synonym => synonym.includes(typed))
+    );
+    // The registry already comes most used first
+    return sortBy === 'name' ? [...matching].sort((a, b) => a.name.localeCompare(b.name)) : matching;
+  }, [tags, filter, sortBy]);
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900">Tags</h1>
+      <p className="text-gray-600 mt-1 mb-6 max-w-2xl">
+        A tag is a keyword that groups your question with similar ones. Using the right tags helps
+        the people who know the answer find your question.
+      </p>
+
+      <div className="flex flex-col sm:flex-row justify-between gap-4 mb-6">
+        <div className="relative w-full sm:w-72">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Filter by tag name"
+            value={filter}
+            onChange={(e) => updateParams({ filter: e.target.value })}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden self-start">
+          {([
+            { value: 'popular', label: 'Popular' },
+            { value: 'name', label: 'Name' }
+          ] as const).map(option => (
+            <button
+              key={option.value}
+              onClick={() => updateParams({ sort: option.value })}
+              className={`px-4 py-2 text-sm transition-colors ${
+                sortBy === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleTags.length === 0 ? (
+        <p className="text-gray-600">No tags match "{filter}".</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {visibleTags.map(tag => (
+            <div key={tag.id} className="bg-white border border-gray-200 rounded-lg p-4 flex flex-col">
+              <div className="mb-2">
+                <TagBadge name={tag.name} />
+              </div>
+              <p className="text-sm text-gray-600 line-clamp-3 flex-1">
+                {tag.description ?? 'No description yet.'}
+              </p>
+              {tag.synonyms.length > 0 && (
+                <p className="text-xs text-gray-500 mt-2">Also: {tag.synonyms.join(', ')}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                {tag.count} question{tag.count !== 1 ? 's' : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </main>
+  );
+};
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Calendar, Award, Check, MessageSquare, HelpCircle, User as UserIcon } from 'lucide-react';
+import { QuestionCard } from '../components/QuestionCard';
+import { ReputationGraph } from '../components/ReputationGraph';
+import { BadgeCounts } from '../components/BadgeCounts';
+import { TagBadge } from '../components/TagBadge';
+import { Link } from '../components/Link';
+import { useRepository } from '../contexts/RepositoryContext';
+import { useVotes } from '../hooks/useVotes';
+import { ActivityItem, UserProfile } from '../utils/profile';
+import { REPUTATION_LABELS } from '../data/reputation';
+import { BADGE_TIER_COLORS } from '../data/badges';
+import { answerPath, questionPath } from '../utils/routes';
+import { NotFoundPage } from './NotFoundPage';
+
+type ProfileTab = 'questions' | 'answers';
+
+const ACTIVITY_LABELS: Record<ActivityItem['type'], string> = {
+  asked: 'Asked',
+  answered: 'Answered',
+  commented: 'Commented on'
+};
+
+export const UserPage: React.FC = () => {
+  const { username = '' } = useParams();
+  const navigate = useNavigate();
+  const repository = useRepository();
+  const { userVotes } = useVotes();
+  // undefined while loading, null when there is no such user
+  const [profile, setProfile] = useState<UserProfile | null | undefined>(undefined);
+  const [tab, setTab] = useState<ProfileTab>('questions');
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadProfile = async () => {
+      try {
+        const loaded = await repository.users.getProfile(username);
+        if (!cancelled) setProfile(loaded);
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      }
+    };
+
+    setProfile(undefined);
+    loadProfile();
+    const unsubscribe = repository.subscribe(loadProfile);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository, username]);
+
+  if (profile === null) {
+    return <NotFoundPage message={`There is no user called ${username}.`} />;
+  }
+  if (!profile) {
+    return null;
+  }
+
+  const { user, questions, answers, acceptRate, topTags, reputationHistory, reputationEvents, activity, badges } = profile;
+
+  const activityPath = (item: ActivityItem) =>
+    item.type === 'answered' && item.postId ? answerPath(item.questionId, item.postId) : questionPath(item.questionId);
+
+  const stats = [
+    { label: 'Reputation', value: user.reputation },
+    { label: 'Questions', value: questions.length },
+    { label: 'Answers', value: answers.length },
+    { label: 'Accepted', value: acceptRate === null ? '—' : `${Math.round(acceptRate * 100)}%` }
+  ];
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8 flex items-center space-x-4">
+        {user.avatar ? (
+          <img
+            src={user.avatar}
+            alt={user.username}
+            className="w-20 h-20 rounded-full object-cover"
+          />
+        ) : (
+          <div className="w-20 h-20 bg-gray-300 rounded-full flex items-center justify-center">
+            <UserIcon className="w-10 h-10 text-gray-600" />
+          </div>
+        )}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{user.username}</h1>
+          <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
+            <div className="flex items-center space-x-1">
+              <Award className="w-4 h-4" />
+              <span>{user.reputation} reputation</span>
+            </div>
+            <BadgeCounts counts={user.badgeCounts} />
+            <div className="flex items-center space-x-1">
+              <Calendar className="w-4 h-4" />
+              <span>Joined {new Date(user.joinDate).toLocaleDateString()}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8">
+        {/* Sidebar */}
+        <aside className="lg:w-72 flex-shrink-0 space-y-6">
+          <div className="bg-white rounded-lg border border-gray-200 p-4 grid grid-cols-2 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label}>
+                <div className="text-xl font-semibold text-gray-900">{stat.value}</div>
+                <div className="text-xs text-gray-500">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h2 className="font-semibold text-gray-900 mb-3">Top tags</h2>
+            {topTags.length === 0 ? (
+              <p className="text-sm text-gray-600">No tags yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {topTags.map(tag => (
+                  <li key={tag.name} className="flex items-center justify-between">
+                    <TagBadge name={tag.name} />
+                    <span className="text-xs text-gray-500">
+                      {tag.posts} post{tag.posts !== 1 ? 's' : ''} · {tag.score} score
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-4">
+            <h2 className="font-semibold text-gray-900 mb-3">Badges</h2>
+            {badges.length === 0 ? (
+              <p className="text-sm text-gray-600">No badges yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {badges.map(badge => (
+                  <li key={badge.id} className="flex items-center justify-between" title={badge.description}>
+                    <span className="inline-flex items-center px-2 py-0.5 rounded bg-gray-800 text-white text-xs font-medium">
+                      <span className={`w-2 h-2 rounded-full mr-1.5 ${BADGE_TIER_COLORS[badge.tier]}`} />
+                      {badge.name}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {new Date(badge.awardedAt).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-8">
+          <section className="bg-white rounded-lg border border-gray-200 p-4">
+            <h2 className="font-semibold text-gray-900 mb-3">Reputation</h2>
+            <ReputationGraph points={reputationHistory} />
+            <ul className="mt-4 divide-y divide-gray-100 text-sm">
+              {reputationEvents.map(entry => (
+                <li key={entry.id} className="flex items-center py-2 space-x-3">
+                  <span
+                    className={`w-12 flex-shrink-0 text-right font-medium ${
+                      entry.amount > 0 ? 'text-green-600' : entry.amount < 0 ? 'text-red-600' : 'text-gray-400'
+                    }`}
+                  >
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </span>
+                  <span className="flex-shrink-0 text-gray-700">
+                    {REPUTATION_LABELS[entry.reason]}
+                    {entry.reverses && ' (reversed)'}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate">
+                    {entry.questionTitle && (
+                      <Link href={questionPath(entry.questionId)} className="text-blue-600 hover:text-blue-800">
+                        {entry.questionTitle}
+                      </Link>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {new Date(entry.createdAt).toLocaleDateString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <div className="flex space-x-6 border-b border-gray-200 mb-4">
+              {([
+                { value: 'questions', label: `${questions.length} Question${questions.length !== 1 ? 's' : ''}` },
+                { value: 'answers', label: `${answers.length} Answer${answers.length !== 1 ? 's' : ''}` }
+              ] as const).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setTab(option.value)}
+                  className={`pb-2 -mb-px text-lg font-semibold border-b-2 transition-colors ${
+                    tab === option.value ? 'border-blue-600 text-gray-900' : 'border-transparent text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'questions' && (
+              <div className="space-y-4">
+                {questions.length === 0 ? (
+                  <p className="text-gray-600">{user.username} hasn't asked any questions yet.</p>
+                ) : (
+                  questions.map(question => (
+                    <QuestionCard
+                      key={question.id}
+                      question={question}
+                      userVote={userVotes[question.id]}
+                      onClick={() => navigate(questionPath(question.id))}
+                    />
+                  ))
+                )}
+              </div>
+            )}
+
+            {tab === 'answers' && (
+              <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+                {answers.length === 0 ? (
+                  <p className="p-4 text-gray-600">{user.username} hasn't answered any questions yet.</p>
+                ) : (
+                  answers.map(answer => (
+                    <div key={answer.id} className="flex items-center p-4 space-x-4">
+                      <span
+                        className={`w-12 flex-shrink-0 text-center text-sm font-medium rounded py-1 ${
+                          answer.isAccepted ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                        }`}
+                        title={answer.isAccepted ? 'Accepted answer' : 'Score'}
+                      >
+                        {answer.isAccepted && <Check className="w-3 h-3 inline mr-0.5" />}
+                        {answer.votes}
+                      </span>
+                      <Link
+                        href={answerPath(answer.questionId, answer.id)}
+                        className="flex-1 min-w-0 truncate text-blue-600 hover:text-blue-800"
+                      >
+                        {answer.questionTitle}
+                      </Link>
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {new Date(answer.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Recent activity</h2>
+            {activity.length === 0 ? (
+              <p className="text-gray-600">Nothing yet.</p>
+            ) : (
+              <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                {activity.map(item => (
+                  <li key={`${item.type}-${item.postId ?? item.questionId}`} className="relative pl-6">
+                    <span className="absolute -left-[9px] top-0.5 w-4 h-4 rounded-full bg-white border-2 border-gray-300 flex items-center justify-center">
+                      {item.type === 'asked' ? (
+                        <HelpCircle className="w-2.5 h-2.5 text-gray-500" />
+                      ) : (
+                        <MessageSquare className="w-2.5 h-2.5 text-gray-500" />
+                      )}
+                    </span>
+                    <p className="text-sm text-gray-700">
+                      {ACTIVITY_LABELS[item.type]}{' '}
+                      <Link href={activityPath(item)} className="text-blue-600 hover:text-blue-800">
+                        {item.questionTitle}
+                      </Link>
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(item.date).toLocaleString()}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+};
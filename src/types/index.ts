@@ -1,11 +1,16 @@
 export interface User {
   id: string;
   username: string;
-  email: string;
+  // Only on the signed-in user's own account, never on other users or post authors
+  email?: string;
   role: 'guest' | 'user' | 'admin';
   avatar?: string;
   joinDate: string;
   reputation: number;
+  // How many badges of each tier the user holds
+  badgeCounts: Record<Badge['tier'], number>;
+  // Set while an admin has suspended the user from posting and voting
+  suspendedUntil?: string;
 }
 
 export interface Question {
@@ -21,6 +26,12 @@ export interface Question {
   votes: number;
   answerCount: number;
   acceptedAnswerId?: string;
+  // Reputation the author put up, paid to the answer they accept next
+  bounty?: number;
+  // Set when an admin locked the thread against new answers, comments and votes
+  lockedAt?: string;
+  // Set when an admin deleted the question or spam flags hid it; deleted posts are only listed for admins
+  deletedAt?: string;
 }
 
 export interface Answer {
@@ -33,30 +44,146 @@ export interface Answer {
   updatedAt: string;
   votes: number;
   isAccepted: boolean;
+  deletedAt?: string;
+}
+
+export interface Comment {
+  id: string;
+  // The question the comment sits under, directly or through one of its answers
+  questionId: string;
+  targetId: string;
+  targetType: 'question' | 'answer';
+  // Set on replies; replies are never nested further
+  parentId?: string;
+  content: string;
+  authorId: string;
+  author: User;
+  createdAt: string;
+  updatedAt: string;
+  // Comments can only be upvoted
+  votes: number;
+  // Set while the comment is hidden; see Question.deletedAt
+  deletedAt?: string;
+}
+
+export interface Revision {
+  id: string;
+  postId: string;
+  postType: 'question' | 'answer';
+  // Counts up from 1, the post as first written
+  number: number;
+  // Questions only
+  title?: string;
+  tags?: string[];
+  // The question's description or the answer's content
+  body: string;
+  authorId: string;
+  author: User;
+  // Why the editor made the change; empty for the first revision
+  summary: string;
+  createdAt: string;
 }
 
 export interface Vote {
   id: string;
   userId: string;
   targetId: string;
-  targetType: 'question' | 'answer';
+  targetType: 'question' | 'answer' | 'comment';
   type: 'up' | 'down';
 }
 
+export interface Flag {
+  id: string;
+  userId: string;
+  targetId: string;
+  targetType: 'question' | 'answer' | 'comment';
+  // The question the flagged post belongs to
+  questionId: string;
+  reason: 'spam' | 'rude' | 'low_quality' | 'needs_attention';
+  text?: string;
+  // Pending until an admin reviews the post
+  status: 'pending' | 'helpful' | 'declined';
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export interface ReputationEvent {
+  id: string;
+  userId: string;
+  reason:
+    | 'starting_balance'
+    | 'question_upvoted'
+    | 'answer_upvoted'
+    | 'post_downvoted'
+    | 'downvote_cast'
+    | 'answer_accepted'
+    | 'accepted_an_answer'
+    | 'bounty_offered'
+    | 'bounty_awarded';
+  // Zero when a capped gain went over the daily limit
+  amount: number;
+  // The question or answer the entry is about, and the question it belongs to
+  postId: string;
+  questionId: string;
+  // The vote, accepted answer or bounty question that caused it; undoing that reverses the entry
+  sourceId: string;
+  createdAt: string;
+  // Set on an entry that cancels an earlier one
+  reverses?: string;
+}
+
+export interface Badge {
+  id: string;
+  userId: string;
+  // Which badge was awarded, such as good-question or tag:react:silver
+  badgeId: string;
+  name: string;
+  description: string;
+  tier: 'gold' | 'silver' | 'bronze';
+  // Set on tag badges
+  tag?: string;
+  // The post that earned it
+  relatedId?: string;
+  awardedAt: string;
+}
+
 export interface Notification {
   id: string;
   userId: string;
-  type: 'answer' | 'comment' | 'mention' | 'accept';
+  type: 'answer' | 'comment' | 'mention' | 'accept' | 'badge';
   message: string;
   relatedId: string;
+  // The question it's about, for grouping and muting; badges have none
+  questionId?: string;
+  // Filled in when listed
+  questionTitle?: string;
   read: boolean;
   createdAt: string;
 }
 
+// What a user doesn't want to be notified about; muting only stops new notifications
+export interface NotificationSettings {
+  userId: string;
+  mutedTypes: Notification['type'][];
+  mutedQuestionIds: string[];
+}
+
 export interface Tag {
   id: string;
   name: string;
+  // A short wiki excerpt saying what the tag is for
   description?: string;
+  // Other names that resolve to this tag, such as js for javascript
+  synonyms: string[];
   count: number;
   color: string;
-}
\ No newline at end of file
+}
+// An image uploaded for use in a post, already scaled down to fit MAX_IMAGE_DIMENSION
+export interface UploadedImage {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
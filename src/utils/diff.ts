@@ -0,0 +1,57 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word diffs over this many token pairs give up and show the whole text replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Joins neighbouring parts of the same type, so the diff renders as few spans as possible
+const merge = (parts: DiffPart[]) =>
+  parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last?.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+
+// A word-level diff from the longest common subsequence of the two texts' words and whitespace
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const replaced: DiffPart[] = [{ type: 'removed', text: before }, { type: 'added', text: after }];
+    return replaced.filter(part => part.text);
+  }
+
+  // lengths[i][j] is the longest common subsequence of a from i and b from j
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => parts.push({ type: 'removed', text }));
+  b.slice(j).forEach(text => parts.push({ type: 'added', text }));
+  return merge(parts);
+};
@@ -0,0 +1,43 @@
+export interface StreamEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+// Parses one block of a text/event-stream; comment lines (heartbeats) are skipped
+const parseEvent = (block: string): StreamEvent | null => {
+  const event: StreamEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+  block.split('\n').forEach(line => {
+    if (!line || line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'id') event.id = value;
+    else if (field === 'event') event.event = value;
+    else if (field === 'data') data.push(value);
+  });
+  if (data.length === 0) return null;
+  return { ...event, data: data.join('\n') };
+};
+
+// Reads server-sent events from a fetch body until the server closes it or the request is aborted
+export const readEventStream = async (body: ReadableStream<Uint8Array>, onEvent: (event: StreamEvent) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const event = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (event) onEvent(event);
+      end = buffer.indexOf('\n\n');
+    }
+  }
+};
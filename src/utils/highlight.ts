@@ -0,0 +1,19 @@
+import hljs from 'highlight.js/lib/common';
+
+export interface HighlightedCode {
+  html: string;
+  language?: string;
+  // True when the language was guessed rather than given on the fence
+  detected: boolean;
+}
+
+// Returns escaped, highlighted HTML; falls back to auto-detection for missing or unknown languages
+export const highlightCode = (code: string, language?: string): HighlightedCode => {
+  const requested = language?.trim().split(/\s+/)[0].toLowerCase();
+  if (requested && hljs.getLanguage(requested)) {
+    return { html: hljs.highlight(code, { language: requested }).value, language: requested, detected: false };
+  }
+
+  const result = hljs.highlightAuto(code);
+  return { html: result.value, language: result.language, detected: true };
+};
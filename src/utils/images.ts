@@ -0,0 +1,65 @@
+// Image scaling for the in-browser data sources, which keep uploads as data URLs in their state
+
+export interface ScaledImage {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export const readDataUrl = (file: Blob, onProgress?: (progress: number) => void) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the image'));
+    reader.readAsDataURL(file);
+  });
+
+export const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('That file is not an image we can read'));
+    image.src = url;
+  });
+
+// Larger data URLs are re-encoded as JPEG, so one image can't fill localStorage (about 5 MB for everything)
+export const MAX_EMBEDDED_IMAGE_LENGTH = 1024 * 1024;
+
+const drawScaled = (image: HTMLImageElement, scale: number, background?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d')!;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const fitScale = (image: HTMLImageElement, maxDimension: number) =>
+  Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+
+// Fits the image inside a square of maxDimension, keeping the original when it already fits
+// (so a GIF stays animated); scaled GIFs become PNGs
+export const scaleImage = (image: HTMLImageElement, url: string, type: string, maxDimension: number): ScaledImage => {
+  const scale = fitScale(image, maxDimension);
+  if (scale === 1) return { url, width: image.naturalWidth, height: image.naturalHeight };
+
+  const canvas = drawScaled(image, scale);
+  return {
+    url: canvas.toDataURL(type === 'image/gif' ? 'image/png' : type, 0.9),
+    width: canvas.width,
+    height: canvas.height
+  };
+};
+
+// Like scaleImage, but always re-encoded as JPEG; transparent areas turn white
+export const scaleImageToJpeg = (image: HTMLImageElement, maxDimension: number): ScaledImage => {
+  const canvas = drawScaled(image, fitScale(image, maxDimension), '#fff');
+  return { url: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,130 @@
+import { Marked, Tokens, TokenizerAndRendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import { highlightCode } from './highlight';
+import { findMatches } from './searchText';
+
+// @username outside of code, not preceded by a word character (so emails are left alone)
+const mention: TokenizerAndRendererExtension = {
+  name: 'mention',
+  level: 'inline',
+  start: (src) => {
+    const match = /(^|[^\w])@\w/.exec(src);
+    return match ? match.index + match[1].length : undefined;
+  },
+  tokenizer: (src) => {
+    const match = /^@(\w+)/.exec(src);
+    if (match) {
+      return { type: 'mention', raw: match[0], username: match[1] };
+    }
+    return undefined;
+  },
+  renderer: (token) => `<span class="mention">@${token.username}</span>`
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Fenced and indented code: highlighted, with a line-number gutter and a copy button
+const codeBlock = ({ text, lang }: Tokens.Code) => {
+  const { html, language, detected } = highlightCode(text, lang);
+  const lineNumbers = text.split('\n').map((_, index) => index + 1).join('\n');
+  const label = language ? `${language}${detected ? ' (auto)' : ''}` : 'text';
+  const languageClass = language ? ` language-${language}` : '';
+
+  return `<div class="code-block">`
+    + `<div class="code-block-header"><span class="code-language">${escapeHtml(label)}</span>`
+    + `<button type="button" class="code-copy">Copy</button></div>`
+    + `<pre><span class="line-numbers" aria-hidden="true">${lineNumbers}</span>`
+    + `<code class="hljs${languageClass}">${html}</code></pre></div>`;
+};
+
+const marked = new Marked({ gfm: true, breaks: true });
+marked.use({ extensions: [mention], renderer: { code: codeBlock } });
+
+// Excerpts skip highlighting so code blocks don't leak their chrome into the text
+const excerptMarked = new Marked({ gfm: true, breaks: true });
+excerptMarked.use({ extensions: [mention] });
+
+const BLOCK_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'div'
+];
+const INLINE_TAGS = ['strong', 'em', 'del', 's', 'code', 'span', 'sup', 'sub'];
+
+const FULL_CONFIG = {
+  ALLOWED_TAGS: [...BLOCK_TAGS, ...INLINE_TAGS, 'a', 'img', 'button'],
+  ALLOWED_ATTR: ['href', 'title', 'src', 'alt', 'class', 'style', 'align', 'aria-hidden'],
+  ALLOWED_URI_REGEXP: /^(?:https?:|mailto:|\/|#)/i
+};
+
+const EXCERPT_CONFIG = {
+  ALLOWED_TAGS: INLINE_TAGS,
+  ALLOWED_ATTR: ['class']
+};
+
+// Only the classes the renderer itself emits, and only the alignment the editor toolbar inserts
+const ALLOWED_CLASS =
+  /^(?:mention|language-[\w+#-]+|hljs(?:-[\w-]+)?|[a-z]+_+|code-(?:block|block-header|language|copy)|line-numbers)$/;
+const ALLOWED_STYLE = /^\s*text-align:\s*(?:left|center|right)\s*;?\s*$/i;
+
+DOMPurify.addHook('uponSanitizeAttribute', (_node, data) => {
+  if (data.attrName === 'class') {
+    data.attrValue = data.attrValue.split(/\s+/).filter(name => ALLOWED_CLASS.test(name)).join(' ');
+    data.keepAttr = data.attrValue !== '';
+  } else if (data.attrName === 'style') {
+    data.keepAttr = ALLOWED_STYLE.test(data.attrValue);
+  }
+});
+
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+  if (node.tagName === 'IMG') {
+    node.setAttribute('loading', 'lazy');
+  }
+  // Posts render inside forms, where a bare button would submit
+  if (node.tagName === 'BUTTON') {
+    node.setAttribute('type', 'button');
+  }
+});
+
+export const renderMarkdown = (markdown: string): string =>
+  DOMPurify.sanitize(marked.parse(markdown, { async: false }), FULL_CONFIG);
+
+// Inline formatting only, with block boundaries collapsed to spaces, for list previews
+export const renderExcerpt = (markdown: string): string =>
+  DOMPurify.sanitize(
+    excerptMarked.parse(markdown, { async: false }).replace(/<\/(?:p|li|h\d|pre|blockquote|tr|td|th|div)>|<br\s*\/?>/gi, ' '),
+    EXCERPT_CONFIG
+  ).trim();
+
+// Wraps words matching a search in <mark>, touching text nodes only so the sanitised markup stays intact
+export const highlightHtml = (html: string, matchedTerms: string[]): string => {
+  if (matchedTerms.length === 0) return html;
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  textNodes.forEach(node => {
+    const matches = findMatches(node.data, matchedTerms);
+    if (matches.length === 0) return;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    matches.forEach(({ start, end }) => {
+      const mark = document.createElement('mark');
+      mark.className = 'search-match';
+      mark.textContent = node.data.slice(start, end);
+      fragment.append(node.data.slice(last, start), mark);
+      last = end;
+    });
+    fragment.append(node.data.slice(last));
+    node.replaceWith(fragment);
+  });
+  return template.innerHTML;
+};
@@ -0,0 +1,139 @@
+import { Answer, Badge, Comment, Question, ReputationEvent, User } from '../types';
+import { BADGE_TIERS } from '../data/badges';
+
+export interface ProfileAnswer extends Answer {
+  questionTitle: string;
+}
+
+export interface TopTag {
+  name: string;
+  // Questions asked or answered with this tag
+  posts: number;
+  // Votes those posts received
+  score: number;
+}
+
+export interface ReputationPoint {
+  date: string;
+  reputation: number;
+}
+
+export interface ProfileReputationEvent extends ReputationEvent {
+  // Missing for entries that aren't about a post, such as the starting balance
+  questionTitle?: string;
+}
+
+export interface ActivityItem {
+  type: 'asked' | 'answered' | 'commented';
+  date: string;
+  questionId: string;
+  questionTitle: string;
+  // The answer or comment, for answered and commented
+  postId?: string;
+}
+
+export interface UserProfile {
+  user: User;
+  // Newest first
+  questions: Question[];
+  answers: ProfileAnswer[];
+  // Share of the user's answers that were accepted; null until they have answered
+  acceptRate: number | null;
+  topTags: TopTag[];
+  // Oldest first, starting at the join date and ending at the current reputation
+  reputationHistory: ReputationPoint[];
+  // The latest ledger entries, newest first
+  reputationEvents: ProfileReputationEvent[];
+  activity: ActivityItem[];
+  // Gold first, newest first within a tier
+  badges: Badge[];
+}
+
+export const PROFILE_TOP_TAGS = 8;
+export const PROFILE_ACTIVITY_LIMIT = 30;
+
+const newestFirst = <T extends { createdAt: string }>(a: T, b: T) => b.createdAt.localeCompare(a.createdAt);
+
+// The running total after each ledger entry
+const reputationHistory = (user: User, ledger: ReputationEvent[]) => {
+  const entries = [...ledger].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  let reputation = 0;
+  const points: ReputationPoint[] = entries.map(entry => {
+    reputation += entry.amount;
+    return { date: entry.createdAt, reputation };
+  });
+  return points.length > 0 && points[0].date <= new Date(user.joinDate).toISOString()
+    ? points
+    : [{ date: user.joinDate, reputation: 0 }, ...points];
+};
+
+// Builds a profile from everything the user posted and their reputation ledger; questions are needed
+// to title their answers
+export const buildUserProfile = (
+  user: User,
+  data: {
+    questions: Question[];
+    answers: Answer[];
+    comments: Comment[];
+    reputation: ReputationEvent[];
+    badges: Badge[];
+  }
+): UserProfile => {
+  const titles = new Map(data.questions.map(question => [question.id, question]));
+  const questions = data.questions.filter(question => question.authorId === user.id).sort(newestFirst);
+  const answers = data.answers
+    .filter(answer => answer.authorId === user.id && titles.has(answer.questionId))
+    .map(answer => ({ ...answer, questionTitle: titles.get(answer.questionId)!.title }))
+    .sort(newestFirst);
+  const comments = data.comments.filter(comment => comment.authorId === user.id && titles.has(comment.questionId));
+
+  const tagStats = new Map<string, TopTag>();
+  const countTags = (tags: string[], votes: number) => tags.forEach(name => {
+    const stats = tagStats.get(name) ?? { name, posts: 0, score: 0 };
+    tagStats.set(name, { name, posts: stats.posts + 1, score: stats.score + votes });
+  });
+  questions.forEach(question => countTags(question.tags, question.votes));
+  answers.forEach(answer => countTags(titles.get(answer.questionId)!.tags, answer.votes));
+
+  const activity: ActivityItem[] = [
+    ...questions.map(question => ({
+      type: 'asked' as const,
+      date: question.createdAt,
+      questionId: question.id,
+      questionTitle: question.title
+    })),
+    ...answers.map(answer => ({
+      type: 'answered' as const,
+      date: answer.createdAt,
+      questionId: answer.questionId,
+      questionTitle: answer.questionTitle,
+      postId: answer.id
+    })),
+    ...comments.map(comment => ({
+      type: 'commented' as const,
+      date: comment.createdAt,
+      questionId: comment.questionId,
+      questionTitle: titles.get(comment.questionId)!.title,
+      postId: comment.id
+    }))
+  ];
+
+  return {
+    user,
+    questions,
+    answers,
+    acceptRate: answers.length > 0 ? answers.filter(answer => answer.isAccepted).length / answers.length : null,
+    topTags: Array.from(tagStats.values())
+      .sort((a, b) => b.posts - a.posts || b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, PROFILE_TOP_TAGS),
+    reputationHistory: reputationHistory(user, data.reputation),
+    reputationEvents: [...data.reputation]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, PROFILE_ACTIVITY_LIMIT)
+      .map(entry => ({ ...entry, questionTitle: titles.get(entry.questionId)?.title })),
+    activity: activity.sort((a, b) => b.date.localeCompare(a.date)).slice(0, PROFILE_ACTIVITY_LIMIT),
+    badges: [...data.badges].sort((a, b) =>
+      BADGE_TIERS.indexOf(a.tier) - BADGE_TIERS.indexOf(b.tier) || b.awardedAt.localeCompare(a.awardedAt)
+    )
+  };
+};
@@ -0,0 +1,27 @@
+// Paths for every shareable view, so links are built in one place
+export const questionPath = (questionId: string) => `/questions/${encodeURIComponent(questionId)}`;
+
+export const answerPath = (questionId: string, answerId: string) =>
+  `${questionPath(questionId)}#${answerAnchor(answerId)}`;
+
+export const answerAnchor = (answerId: string) => `answer-${answerId}`;
+
+// The answer id from a location hash such as #answer-a1, if it names one
+export const parseAnswerAnchor = (hash: string) => {
+  const match = /^#answer-(.+)$/.exec(hash);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+export const tagPath = (tag: string) => `/tags/${encodeURIComponent(tag)}`;
+
+export const userPath = (username: string) => `/users/${encodeURIComponent(username)}`;
+
+// The moderation console, only linked for admins
+export const ADMIN_PATH = '/admin';
+
+export const NOTIFICATIONS_PATH = '/notifications';
+
+// The question list lives at / and /tags/:tag; other views render on their own
+export const isListPath = (pathname: string) => pathname === '/' || pathname.startsWith('/tags/');
+
+export const absoluteUrl = (path: string) => new URL(path, window.location.origin).toString();
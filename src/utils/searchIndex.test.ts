@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../types';
+import { createSearchIndex, searchQuestions, toSearchDocuments } from './searchIndex';
+import { stem } from './searchText';
+
+const question = (id: string, title: string, description: string, tags: string[], votes = 0): Question => ({
+  id,
+  title,
+  description,
+  tags,
+  authorId: 'u1',
+  author: { id: 'u1', username: 'demo_user', role: 'user', joinDate: '2024-01-15', reputation: 10, badgeCounts: { gold: 0, silver: 0, bronze: 0 } },
+  createdAt: '2024-03-10T12:00:00.000Z',
+  updatedAt: '2024-03-10T12:00:00.000Z',
+  views: 0,
+  votes,
+  answerCount: 0
+});
+
+const questions = [
+  question('title', 'Debounce a search input', 'The list filters on every keystroke.', ['react']),
+  question('body', 'Slow search box', 'How should I debounce the input handler?', ['javascript']),
+  question('answer', 'Input lags while typing', 'Each key press re-renders everything.', ['react']),
+  question('other', 'Centre a div', 'Flexbox or grid for centring?', ['css'], 10)
+];
+const answers = [{ questionId: 'answer', content: 'Wrap the handler so it is debounced.' }];
+
+const search = (query: string) =>
+  searchQuestions(createSearchIndex(toSearchDocuments(questions, answers)), questions, query);
+const ids = (query: string) => search(query).map(result => result.question.id);
+
+describe('searchQuestions', () => {
+  it('ranks a title match above the body, and the body above an answer', () => {
+    expect(ids('debounce')).toEqual(['title', 'body', 'answer']);
+  });
+
+  it('needs every free word to match', () => {
+    expect(ids('debounce handler')).toEqual(['body', 'answer']);
+  });
+
+  it('tolerates typos in longer words', () => {
+    expect(ids('debuonce')).toEqual(['title', 'body', 'answer']);
+    expect(ids('cs')).toEqual([]);
+  });
+
+  it('matches phrases word for word', () => {
+    expect(ids('"search input"')).toEqual(['title']);
+    expect(ids('"input search"')).toEqual([]);
+  });
+
+  it('narrows the matches with operators', () => {
+    expect(ids('debounce [react]')).toEqual(['title', 'answer']);
+    expect(ids('debounce user:someone')).toEqual([]);
+  });
+
+  it('reports the terms that matched, for highlighting', () => {
+    expect(search('debounced input')[0].matchedTerms.sort()).toEqual([stem('debounce'), stem('input')].sort());
+  });
+});
@@ -0,0 +1,129 @@
+import { Answer, Question } from '../types';
+import { allowedTypos, editDistance, isStopWord, stem, terms, tokenize } from './searchText';
+import { ParsedQuery, matchesFilters, parseSearchQuery } from './searchQuery';
+
+export interface SearchDocument {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  answers: string[];
+}
+
+export interface SearchResult {
+  question: Question;
+  score: number;
+  // Index terms that matched, for highlighting with findMatches
+  matchedTerms: string[];
+}
+
+interface SearchHit {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+type Field = keyof Omit<SearchDocument, 'id'>;
+
+// A word in the title counts for more than the same word in an answer
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, tags: 2.5, body: 1, answers: 0.5 };
+
+const normalise = (text: string) => ` ${tokenize(text).map(token => token.word).join(' ')} `;
+
+export const toSearchDocuments = (
+  questions: Question[],
+  answers: Pick<Answer, 'questionId' | 'content'>[]
+): SearchDocument[] =>
+  questions.map(question => ({
+    id: question.id,
+    title: question.title,
+    body: question.description,
+    tags: question.tags,
+    answers: answers.filter(answer => answer.questionId === question.id).map(answer => answer.content)
+  }));
+
+export const createSearchIndex = (documents: SearchDocument[]) => {
+  // term -> document id -> field-weighted term frequency
+  const postings = new Map<string, Map<string, number>>();
+  // Each field as normalised words, for phrase matching
+  const phraseText = new Map<string, string[]>();
+
+  documents.forEach(document => {
+    const fields: [Field, string][] = [
+      ['title', document.title],
+      ['tags', document.tags.join(' ')],
+      ['body', document.body],
+      ...document.answers.map((answer): [Field, string] => ['answers', answer])
+    ];
+
+    fields.forEach(([field, text]) => terms(text).forEach(term => {
+      const frequencies = postings.get(term) ?? new Map<string, number>();
+      frequencies.set(document.id, (frequencies.get(document.id) ?? 0) + FIELD_WEIGHTS[field]);
+      postings.set(term, frequencies);
+    }));
+    phraseText.set(document.id, fields.map(([, text]) => normalise(text)));
+  });
+
+  const idf = (term: string) => {
+    const documentFrequency = postings.get(term)?.size ?? 0;
+    return Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  };
+
+  // A query word matches its own term, or failing that, terms within a typo or two
+  const expand = (word: string) => {
+    const term = stem(word);
+    if (postings.has(term)) return [{ term, weight: 1 }];
+
+    const maxTypos = allowedTypos(term);
+    return Array.from(postings.keys())
+      .map(candidate => ({ term: candidate, distance: editDistance(term, candidate, maxTypos) }))
+      .filter(({ distance }) => maxTypos > 0 && distance <= maxTypos)
+      .map(({ term: candidate, distance }) => ({ term: candidate, weight: 1 / (distance + 1) }));
+  };
+
+  const queryWords = (texts: string[]) =>
+    texts.flatMap(text => tokenize(text)).map(token => token.word).filter(word => !isStopWord(word));
+
+  // Every free word must match; phrase words only add to the score once the phrase itself matched
+  const search = (parsed: ParsedQuery): SearchHit[] => {
+    const required = queryWords(parsed.words).map(expand);
+    const scored = [...required, ...queryWords(parsed.phrases).map(expand)];
+    const phrases = parsed.phrases.map(normalise);
+
+    const candidates = documents.map(document => document.id).filter(id =>
+      required.every(group => group.some(({ term }) => postings.get(term)?.has(id)))
+      && phrases.every(phrase => phraseText.get(id)?.some(text => text.includes(phrase)))
+    );
+
+    return candidates
+      .map(id => {
+        const matched = new Set<string>();
+        let score = 0;
+        scored.flat().forEach(({ term, weight }) => {
+          const frequency = postings.get(term)?.get(id);
+          if (!frequency) return;
+          score += idf(term) * weight * (frequency / (frequency + 1.2));
+          matched.add(term);
+        });
+        return { id, score, matchedTerms: Array.from(matched) };
+      })
+      .sort((a, b) => b.score - a.score);
+  };
+
+  return { search };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// Text matches from the index, narrowed by the query's operators and ranked by relevance, then votes
+export const searchQuestions = (index: SearchIndex, questions: Question[], query: string): SearchResult[] => {
+  const parsed = parseSearchQuery(query);
+  const byId = new Map(questions.map(question => [question.id, question]));
+
+  return index.search(parsed)
+    .flatMap(({ id, score, matchedTerms }) => {
+      const question = byId.get(id);
+      return question && matchesFilters(question, parsed) ? [{ question, score, matchedTerms }] : [];
+    })
+    .sort((a, b) => b.score - a.score || b.question.votes - a.question.votes);
+};
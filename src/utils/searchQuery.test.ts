@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../types';
+import { hasTextQuery, matchesFilters, parseSearchQuery } from './searchQuery';
+
+const question = (overrides: Partial<Question> = {}): Question => ({
+  id: 'q1',
+  title: 'How do I debounce a React hook?',
+  description: 'My effect runs on every keystroke.',
+  tags: ['react', 'hooks'],
+  authorId: 'u1',
+  author: { id: 'u1', username: 'Demo_User', role: 'user', joinDate: '2024-01-15', reputation: 10, badgeCounts: { gold: 0, silver: 0, bronze: 0 } },
+  createdAt: '2024-03-10T12:00:00.000Z',
+  updatedAt: '2024-03-10T12:00:00.000Z',
+  views: 0,
+  votes: 3,
+  answerCount: 0,
+  ...overrides
+});
+
+describe('parseSearchQuery', () => {
+  it('splits words, phrases and tags', () => {
+    expect(parseSearchQuery('debounce "use effect" [React] [ node.js ] hook')).toEqual({
+      words: ['debounce', 'hook'],
+      phrases: ['use effect'],
+      tags: ['react', 'node.js'],
+      authors: [],
+      answered: false,
+      accepted: false
+    });
+  });
+
+  it('reads the operators, whatever their case', () => {
+    expect(parseSearchQuery('User:Demo_User is:answered IS:Accepted score:>=5')).toMatchObject({
+      words: [],
+      authors: ['demo_user'],
+      answered: true,
+      accepted: true,
+      score: { operator: '>=', value: 5 }
+    });
+  });
+
+  it('takes a bare score as an exact match and allows negative scores', () => {
+    expect(parseSearchQuery('score:3').score).toEqual({ operator: '=', value: 3 });
+    expect(parseSearchQuery('score:<-1').score).toEqual({ operator: '<', value: -1 });
+  });
+
+  it('searches unknown operators and malformed values as text', () => {
+    expect(parseSearchQuery('is:closed score:high lang:ts').words).toEqual(['is:closed', 'score:high', 'lang:ts']);
+  });
+
+  it('copes with unclosed quotes and brackets and skips empty phrases', () => {
+    expect(parseSearchQuery('"open phrase')).toMatchObject({ phrases: ['open phrase'], words: [] });
+    expect(parseSearchQuery('[react')).toMatchObject({ tags: ['react'] });
+    expect(parseSearchQuery('"" "  "').phrases).toEqual([]);
+  });
+
+  it('tells operator-only queries apart from text queries', () => {
+    expect(hasTextQuery(parseSearchQuery('[react] is:answered'))).toBe(false);
+    expect(hasTextQuery(parseSearchQuery('"exact words"'))).toBe(true);
+  });
+});
+
+describe('matchesFilters', () => {
+  const matches = (query: string, overrides?: Partial<Question>) =>
+    matchesFilters(question(overrides), parseSearchQuery(query));
+
+  it('needs every tag, ignoring case', () => {
+    expect(matches('[react] [HOOKS]')).toBe(true);
+    expect(matches('[react] [vue]')).toBe(false);
+  });
+
+  it('matches any of the authors', () => {
+    expect(matches('user:someone user:demo_user')).toBe(true);
+    expect(matches('user:someone')).toBe(false);
+  });
+
+  it('filters on answers and the accepted answer', () => {
+    expect(matches('is:answered')).toBe(false);
+    expect(matches('is:answered', { answerCount: 1 })).toBe(true);
+    expect(matches('is:accepted', { answerCount: 1 })).toBe(false);
+    expect(matches('is:accepted', { answerCount: 1, acceptedAnswerId: 'a1' })).toBe(true);
+  });
+
+  it('compares the score', () => {
+    expect(matches('score:>2')).toBe(true);
+    expect(matches('score:>3')).toBe(false);
+    expect(matches('score:<=3')).toBe(true);
+    expect(matches('score:3')).toBe(true);
+  });
+});
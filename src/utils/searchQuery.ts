@@ -0,0 +1,74 @@
+import { Question } from '../types';
+
+export interface ScoreFilter {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  value: number;
+}
+
+export interface ParsedQuery {
+  // Free words, matched anywhere with stemming and typo tolerance
+  words: string[];
+  // "quoted text", matched word for word
+  phrases: string[];
+  // [tag]; a question needs every one
+  tags: string[];
+  // user:name
+  authors: string[];
+  answered: boolean;
+  accepted: boolean;
+  score?: ScoreFilter;
+}
+
+const PART = /"([^"]*)"?|\[([^\]]+)\]?|(\S+)/g;
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { words: [], phrases: [], tags: [], authors: [], answered: false, accepted: false };
+
+  for (const [, phrase, tag, word] of query.matchAll(PART)) {
+    if (phrase !== undefined) {
+      if (phrase.trim()) parsed.phrases.push(phrase.trim());
+    } else if (tag !== undefined) {
+      parsed.tags.push(tag.trim().toLowerCase());
+    } else {
+      const operator = /^(user|is|score):(.+)$/i.exec(word);
+      const key = operator?.[1].toLowerCase();
+      const value = operator?.[2].toLowerCase() ?? '';
+      const score = /^(>=|<=|>|<|=)?(-?\d+)$/.exec(value);
+
+      if (key === 'user') {
+        parsed.authors.push(value);
+      } else if (key === 'is' && (value === 'answered' || value === 'accepted')) {
+        parsed[value] = true;
+      } else if (key === 'score' && score) {
+        parsed.score = { operator: (score[1] ?? '=') as ScoreFilter['operator'], value: Number(score[2]) };
+      } else {
+        // Anything else, including unknown operators, is searched as text
+        parsed.words.push(word);
+      }
+    }
+  }
+
+  return parsed;
+};
+
+export const hasTextQuery = (parsed: ParsedQuery) => parsed.words.length > 0 || parsed.phrases.length > 0;
+
+const compareScore = (votes: number, { operator, value }: ScoreFilter) => {
+  switch (operator) {
+    case '>': return votes > value;
+    case '>=': return votes >= value;
+    case '<': return votes < value;
+    case '<=': return votes <= value;
+    default: return votes === value;
+  }
+};
+
+// The operator filters, which don't depend on the text index
+export const matchesFilters = (question: Question, parsed: ParsedQuery) => {
+  const tags = question.tags.map(tag => tag.toLowerCase());
+  return parsed.tags.every(tag => tags.includes(tag))
+    && (parsed.authors.length === 0 || parsed.authors.includes(question.author.username.toLowerCase()))
+    && (!parsed.answered || question.answerCount > 0)
+    && (!parsed.accepted || Boolean(question.acceptedAnswerId))
+    && (!parsed.score || compareScore(question.votes, parsed.score));
+};
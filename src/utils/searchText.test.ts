@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { allowedTypos, editDistance, findMatches, stem, terms, tokenize } from './searchText';
+
+describe('tokenize', () => {
+  it('keeps the symbols in names like c++, c# and snake_case', () => {
+    expect(tokenize('C++ vs C# in my_module!').map(token => token.word)).toEqual(['c++', 'vs', 'c#', 'in', 'my_module']);
+  });
+
+  it('records where each word is', () => {
+    expect(tokenize('  Hello world')).toEqual([
+      { word: 'hello', start: 2, end: 7 },
+      { word: 'world', start: 8, end: 13 }
+    ]);
+  });
+});
+
+describe('stem', () => {
+  it('maps inflections to the same key', () => {
+    expect(stem('queries')).toBe(stem('query'));
+    expect(stem('running')).toBe(stem('run'));
+    expect(stem('hooks')).toBe(stem('hook'));
+    expect(stem('installed')).toBe(stem('install'));
+  });
+
+  it('leaves short words, words ending in ss or us and code names alone', () => {
+    expect(stem('is')).toBe('is');
+    expect(stem('class')).toBe('class');
+    expect(stem('status')).toBe('status');
+    expect(stem('c++')).toBe('c++');
+  });
+});
+
+describe('terms', () => {
+  it('drops stop words and stems the rest', () => {
+    expect(terms('How do I install the packages?')).toEqual([stem('install'), stem('packages')]);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and transpositions', () => {
+    expect(editDistance('react', 'react', 2)).toBe(0);
+    expect(editDistance('react', 'reacts', 2)).toBe(1);
+    expect(editDistance('react', 'raect', 2)).toBe(1);
+    expect(editDistance('react', 'redux', 2)).toBe(3);
+  });
+
+  it('gives up past the maximum', () => {
+    expect(editDistance('javascript', 'typescript', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('allowedTypos', () => {
+  it('allows more typos in longer words', () => {
+    expect([allowedTypos('css'), allowedTypos('hook'), allowedTypos('debounce')]).toEqual([0, 1, 2]);
+  });
+});
+
+describe('findMatches', () => {
+  it('finds every inflection of the matched terms', () => {
+    const text = 'Hooks and a hook';
+    expect(findMatches(text, [stem('hook')]).map(({ start, end }) => text.slice(start, end))).toEqual(['Hooks', 'hook']);
+    expect(findMatches(text, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+// Text normalisation shared by the search index, the query parser and match highlighting
+
+export interface TextToken {
+  // Lowercased surface form
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Letters and digits, keeping the symbols in names like c++, c# and snake_case
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}+#_]*/gu;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'of', 'on', 'or', 'so', 'that',
+  'the', 'this', 'to', 'was', 'what', 'when', 'which', 'why', 'with', 'you', 'your'
+]);
+
+export const tokenize = (text: string): TextToken[] =>
+  Array.from(text.matchAll(WORD), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+export const isStopWord = (word: string) => STOP_WORDS.has(word);
+
+const hasVowel = (text: string) => /[aeiouy]/.test(text);
+
+// A light suffix stripper: it only needs to map a word and its inflections to the same key
+export const stem = (word: string) => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !/(?:ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = result.slice(0, -suffix.length);
+    if (result.endsWith(suffix) && base.length >= 2 && hasVowel(base) && !(suffix === 'ed' && base.endsWith('e'))) {
+      // running -> run, but keep the double letter in words like install
+      result = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  return result.length > 2 && result.endsWith('e') ? result.slice(0, -1) : result;
+};
+
+// Index keys for a text: stemmed words without stop words
+export const terms = (text: string) =>
+  tokenize(text).map(token => token.word).filter(word => !isStopWord(word)).map(stem);
+
+// Damerau-Levenshtein distance, giving up as soon as it exceeds max
+export const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], beforePrevious[j - 2] + 1);
+      }
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+  }
+  return row[b.length];
+};
+
+// How many typos a query word may contain and still match
+export const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Character ranges of the words in text whose index key is one of the matched terms
+export const findMatches = (text: string, matchedTerms: string[]) => {
+  if (matchedTerms.length === 0) return [];
+  const wanted = new Set(matchedTerms);
+  return tokenize(text)
+    .filter(token => wanted.has(stem(token.word)))
+    .map(({ start, end }) => ({ start, end }));
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../types';
+import { QuestionDraft, findSimilarQuestions, isLikelyDuplicate } from './similarity';
+
+const question = (id: string, title: string, description: string, tags: string[], votes = 0): Question => ({
+  id,
+  title,
+  description,
+  tags,
+  authorId: 'u1',
+  author: { id: 'u1', username: 'demo_user', role: 'user', joinDate: '2024-01-15', reputation: 10, badgeCounts: { gold: 0, silver: 0, bronze: 0 } },
+  createdAt: '2024-03-10T12:00:00.000Z',
+  updatedAt: '2024-03-10T12:00:00.000Z',
+  views: 0,
+  votes,
+  answerCount: 0
+});
+
+const questions = [
+  question('jwt', 'How to implement JWT authentication in React?', 'Where should the token be stored after login?', ['react', 'jwt']),
+  question('state', 'Best way to manage state in a large React app', 'Context, Redux or something else?', ['react']),
+  question('sql', 'Speed up a slow SQL join', 'The query scans the whole orders table.', ['sql']),
+  question('centre', 'Centre a div with flexbox', 'Neither margin auto nor text-align works.', ['css'])
+];
+
+const draft = (title: string, description = '', tags: string[] = []): QuestionDraft => ({ title, description, tags });
+const ids = (input: QuestionDraft) => findSimilarQuestions(input, questions).map(result => result.question.id);
+
+describe('findSimilarQuestions', () => {
+  it('waits for a title long enough to compare', () => {
+    expect(ids(draft('JWT auth'))).toEqual([]);
+  });
+
+  it('finds questions sharing the rarer words of the title, most similar first', () => {
+    expect(ids(draft('JWT authentication with React hooks'))).toEqual(['jwt']);
+    expect(ids(draft('How do I manage state in React?'))[0]).toBe('state');
+  });
+
+  it('leaves out questions with nothing in common', () => {
+    expect(ids(draft('Deploying a Rust binary to a server'))).toEqual([]);
+  });
+
+  it('ranks a question with the draft tags above one without', () => {
+    const tagged = [
+      question('untagged', 'Slow join on orders table', 'It scans everything.', ['postgres']),
+      question('tagged', 'Slow join on orders table', 'It scans everything.', ['sql'])
+    ];
+    expect(findSimilarQuestions(draft('Slow join on orders table', '', ['sql']), tagged).map(r => r.question.id))
+      .toEqual(['tagged', 'untagged']);
+  });
+
+  it('flags the same question asked again as a likely duplicate', () => {
+    const [same] = findSimilarQuestions(
+      draft('How to implement JWT authentication in React?', 'Where should the token be stored after login?', ['react', 'jwt']),
+      questions
+    );
+    expect(same.question.id).toBe('jwt');
+    expect(same.similarity).toBeCloseTo(1);
+    expect(isLikelyDuplicate(same)).toBe(true);
+  });
+
+  it("doesn't flag a question that only shares a few words", () => {
+    const [related] = findSimilarQuestions(draft('Where do I keep the JWT in React Native?'), questions);
+    expect(related.question.id).toBe('jwt');
+    expect(isLikelyDuplicate(related)).toBe(false);
+  });
+
+  it('returns at most the limit', () => {
+    expect(findSimilarQuestions(draft('React state and JWT authentication'), questions, 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { Question } from '../types';
+import { terms } from './searchText';
+
+// What has been written of a new question so far
+export type QuestionDraft = Pick<Question, 'title' | 'description' | 'tags'>;
+
+export interface SimilarQuestion {
+  question: Question;
+  // 0 for nothing in common, 1 for the same text and tags
+  similarity: number;
+}
+
+export const SIMILAR_QUESTIONS = 5;
+// Shorter titles say too little to compare
+export const MIN_SIMILAR_TITLE_LENGTH = 10;
+const MIN_SIMILARITY = 0.2;
+// From here a new question is probably asked already, and posting it needs confirming
+export const DUPLICATE_SIMILARITY = 0.85;
+
+// The titles agreeing counts for more than the bodies agreeing
+const TITLE_WEIGHT = 3;
+const DESCRIPTION_WEIGHT = 1;
+// How much of the similarity hangs on the tags, once the draft has some
+const TAG_SHARE = 0.25;
+
+type TermVector = Map<string, number>;
+
+const termCounts = (text: string): TermVector => {
+  const counts = new Map<string, number>();
+  terms(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+};
+
+const cosine = (a: TermVector, b: TermVector, idf: (term: string) => number) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((count, term) => {
+    const weight = count * idf(term);
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other) dot += weight * other * idf(term);
+  });
+  b.forEach((count, term) => {
+    const weight = count * idf(term);
+    normB += weight * weight;
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// The share of the draft's tags the question has too; the draft may not have all its tags yet
+const tagOverlap = (draftTags: string[], tags: string[]) =>
+  draftTags.length ? draftTags.filter(tag => tags.includes(tag)).length / draftTags.length : 0;
+
+export const isLikelyDuplicate = (result: SimilarQuestion) => result.similarity >= DUPLICATE_SIMILARITY;
+
+// TF-IDF cosine similarity of the title and of the body, whichever the draft has filled in, scaled down by
+// the share of the draft's tags the question lacks; most similar first
+export const findSimilarQuestions = (
+  draft: QuestionDraft,
+  questions: Question[],
+  limit = SIMILAR_QUESTIONS
+): SimilarQuestion[] => {
+  if (draft.title.trim().length < MIN_SIMILAR_TITLE_LENGTH) return [];
+
+  const documents = questions.map(question => ({
+    question,
+    title: termCounts(question.title),
+    description: termCounts(question.description)
+  }));
+
+  // How many questions use a term anywhere in their title or body
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(document => {
+    new Set([...document.title.keys(), ...document.description.keys()]).forEach(term =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    );
+  });
+  const idf = (term: string) => {
+    const frequency = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  const title = termCounts(draft.title);
+  const description = termCounts(draft.description);
+  const descriptionWeight = description.size > 0 ? DESCRIPTION_WEIGHT : 0;
+
+  return documents
+    .map(document => {
+      const text = (
+        TITLE_WEIGHT * cosine(title, document.title, idf)
+        + descriptionWeight * cosine(description, document.description, idf)
+      ) / (TITLE_WEIGHT + descriptionWeight);
+      const tags = draft.tags.length > 0 ? tagOverlap(draft.tags, document.question.tags) : 1;
+      return { question: document.question, similarity: text * (1 - TAG_SHARE + TAG_SHARE * tags) };
+    })
+    .filter(result => result.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity || b.question.votes - a.question.votes)
+    .slice(0, limit);
+};
@@ -0,0 +1,66 @@
+import { Tag } from '../types';
+
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 25;
+
+const TAG_COLORS = [
+  'bg-blue-100 text-blue-800',
+  'bg-green-100 text-green-800',
+  'bg-purple-100 text-purple-800',
+  'bg-yellow-100 text-yellow-800',
+  'bg-pink-100 text-pink-800',
+  'bg-indigo-100 text-indigo-800',
+  'bg-teal-100 text-teal-800',
+  'bg-orange-100 text-orange-800'
+];
+
+// Hashes the whole name, so a tag keeps its colour everywhere and similar-length names still differ
+export const tagColor = (name: string) => {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+};
+
+// Lowercase, hyphens for spaces, and only the characters names like c++, c# and node.js need
+export const normaliseTagName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9+#.-]/g, '').slice(0, MAX_TAG_LENGTH);
+
+// The canonical tag for a name or one of its synonyms; unknown names come back normalised
+export const canonicalTagName = (name: string, tags: Pick<Tag, 'name' | 'synonyms'>[]) => {
+  const normalised = normaliseTagName(name);
+  return tags.find(tag => tag.name === normalised || tag.synonyms.includes(normalised))?.name ?? normalised;
+};
+
+export const canonicalTagNames = (names: string[], tags: Pick<Tag, 'name' | 'synonyms'>[]) =>
+  Array.from(new Set(names.map(name => canonicalTagName(name, tags)).filter(Boolean)));
+
+// Tags for a partly typed name: exact matches, then name prefixes, synonym prefixes and the rest,
+// most used first within each group
+export const suggestTags = (query: string, tags: Tag[], limit = 6) => {
+  const typed = normaliseTagName(query);
+  if (!typed) return [];
+
+  const rank = (tag: Tag) => {
+    if (tag.name === typed || tag.synonyms.includes(typed)) return 0;
+    if (tag.name.startsWith(typed)) return 1;
+    if (tag.synonyms.some(synonym => synonym.startsWith(typed))) return 2;
+    if (tag.name.includes(typed)) return 3;
+    return null;
+  };
+
+  return tags
+    .map(tag => ({ tag, rank: rank(tag) }))
+    .filter((entry): entry is { tag: Tag; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || b.tag.count - a.tag.count || a.tag.name.localeCompare(b.tag.name))
+    .slice(0, limit)
+    .map(entry => entry.tag);
+};
+
+// Checks canonical tag names before a question is saved
+export const validateTags = (names: string[]) => {
+  if (names.length === 0) return 'Please add at least one tag';
+  if (names.length > MAX_TAGS) return `Questions can have at most ${MAX_TAGS} tags`;
+  return null;
+};